@@ -0,0 +1,57 @@
+/**
+ * Admin authentication.
+ * Operator endpoints such as /metrics accept the ADMIN_API_KEY credential,
+ * which is separate from the client API keys in the database, or requests
+ * from an allowlisted IP.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/** Loopback addresses, allowed to read /metrics unless METRICS_ALLOWED_IPS is set. */
+const DEFAULT_METRICS_IPS = ["127.0.0.1", "::1"];
+
+/**
+ * Check if the request carries ADMIN_API_KEY, as a Bearer token or x-api-key.
+ * Always false when ADMIN_API_KEY is unset.
+ */
+export function isAdminRequest(req: Request): boolean {
+  const adminKey = process.env.ADMIN_API_KEY?.trim();
+  if (!adminKey) return false;
+
+  const authHeader = req.headers.get("authorization");
+  const key = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : req.headers.get("x-api-key");
+  if (!key) return false;
+
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(key);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * IPs allowed to read /metrics without the admin key (METRICS_ALLOWED_IPS,
+ * comma-separated; default loopback only, empty to disable).
+ */
+export function getMetricsAllowedIps(): string[] {
+  const value = process.env.METRICS_ALLOWED_IPS;
+  if (value === undefined) return DEFAULT_METRICS_IPS;
+
+  return value.split(",").map((ip) => ip.trim()).filter(Boolean);
+}
+
+/**
+ * Check if a client IP is in an allowlist. IPv4-mapped IPv6 addresses
+ * (::ffff:10.0.0.1) match their IPv4 form.
+ */
+export function isIpAllowed(ip: string | null | undefined, allowed: string[]): boolean {
+  if (!ip) return false;
+
+  const normalized = ip.startsWith("::ffff:") ? ip.slice(7) : ip;
+  return allowed.includes(ip) || allowed.includes(normalized);
+}
+
+/**
+ * Check if a request may read /metrics.
+ */
+export function canReadMetrics(req: Request, clientIp: string | null | undefined): boolean {
+  return isAdminRequest(req) || isIpAllowed(clientIp, getMetricsAllowedIps());
+}
@@ -0,0 +1,119 @@
+/**
+ * API key access policy.
+ * Expiry, scopes and allowed providers/models stored on each key.
+ */
+
+import type { ApiKey, ApiKeyScope } from "../db/api_keys.ts";
+import { ValidationError } from "../db/errors.ts";
+import { getProviderKeys } from "../defaults/providers.ts";
+import { getModelIds, getModelsConfig } from "../services/models_config.ts";
+
+/** Scopes of keys created without any. Admin access is always explicit. */
+export const DEFAULT_SCOPES: ApiKeyScope[] = ["chat", "messages", "models"];
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Scope needed to call an endpoint, or null if any valid key may call it.
+ */
+export function getRequiredScope(pathname: string): ApiKeyScope | null {
+  if (pathname === "/v1/chat/completions" || pathname === "/v1/responses" || pathname === "/chat") {
+    return "chat";
+  }
+  if (pathname === "/v1/messages" || pathname.startsWith("/v1/messages/")) {
+    return "messages";
+  }
+  if (pathname === "/v1/models" || pathname.startsWith("/v1/models/")) {
+    return "models";
+  }
+  if (pathname === "/metrics" || pathname.startsWith("/admin/")) {
+    return "admin";
+  }
+  return null;
+}
+
+/**
+ * Scopes granted to a key.
+ */
+export function getKeyScopes(apiKey: Pick<ApiKey, "scopes">): ApiKeyScope[] {
+  return apiKey.scopes ? (apiKey.scopes.split(",") as ApiKeyScope[]) : DEFAULT_SCOPES;
+}
+
+/**
+ * Check if a key was granted a scope.
+ */
+export function hasScope(apiKey: Pick<ApiKey, "scopes">, scope: ApiKeyScope): boolean {
+  return getKeyScopes(apiKey).includes(scope);
+}
+
+/**
+ * Check if a key is past its expiry.
+ */
+export function isKeyExpired(apiKey: Pick<ApiKey, "expires_at">, now: number = Date.now()): boolean {
+  return apiKey.expires_at !== null && parseSqlDatetime(apiKey.expires_at) <= now;
+}
+
+/**
+ * Providers or provider/model IDs a key may use, or undefined for all.
+ */
+export function getAllowedModels(apiKey: Pick<ApiKey, "allowed_models"> | undefined): string[] | undefined {
+  return apiKey?.allowed_models ? apiKey.allowed_models.split(",") : undefined;
+}
+
+/**
+ * Check an allowlist against the configured providers and the models in
+ * models.json. Throws a ValidationError naming every unknown entry.
+ */
+export function validateAllowedModels(allowlist: string[]): void {
+  const providers = getProviderKeys();
+  const config = getModelsConfig();
+
+  const unknown = allowlist.filter((entry) => {
+    if (providers.includes(entry)) return false;
+
+    // Model IDs may contain slashes themselves (openrouter/qwen/qwen3-coder:free)
+    const slash = entry.indexOf("/");
+    const providerConfig = slash > 0 && providers.includes(entry.slice(0, slash)) ? config[entry.slice(0, slash)] : undefined;
+    return !providerConfig || !getModelIds(providerConfig).includes(entry.slice(slash + 1));
+  });
+
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown providers or models: ${unknown.join(", ")}. Use a provider (${providers.join(", ")}) or a provider/model from models.json`
+    );
+  }
+}
+
+/**
+ * Parse an expiry given as a duration from now ("90m", "12h", "30d", "2w"),
+ * a date (valid through the end of that UTC day) or a UTC datetime.
+ * Returns the UTC datetime stored in `expires_at`.
+ */
+export function parseExpiry(value: string, now: number = Date.now()): string {
+  const duration = value.trim().match(/^(\d+)([mhdw])$/);
+  if (duration) {
+    return toSqlDatetime(now + Number(duration[1]) * DURATION_UNITS_MS[duration[2]!]!);
+  }
+
+  const date = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+  if (date) {
+    const time = date[2] ? date[2].padEnd(8, ":00") : "23:59:59";
+    const ms = parseSqlDatetime(`${date[1]} ${time}`);
+    if (!isNaN(ms)) return toSqlDatetime(ms);
+  }
+
+  throw new ValidationError(`Invalid expiry "${value}". Use a duration (30d, 12h, 2w) or a date (2026-12-31)`);
+}
+
+function parseSqlDatetime(value: string): number {
+  return Date.parse(`${value.replace(" ", "T")}Z`);
+}
+
+function toSqlDatetime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
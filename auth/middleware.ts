@@ -1,14 +1,20 @@
 /**
  * Authentication middleware.
- * Validates API keys from request headers.
+ * Validates API keys from request headers, checks their expiry and scopes
+ * (see key_policy.ts) and enforces their rate limits.
  */
 
 import { validateApiKey, type ApiKey } from "../db/api_keys.ts";
+import { checkKeyLimits, type KeyLimitCheck } from "../services/key_limits.ts";
+import { getRequiredScope, hasScope, isKeyExpired } from "./key_policy.ts";
+import { isAdminRequest } from "./admin.ts";
 
 export interface AuthResult {
   authenticated: boolean;
   apiKey?: ApiKey;
   error?: string;
+  /** HTTP status for the error: 401 for missing, invalid or expired keys, 403 for a missing scope. */
+  status?: number;
 }
 
 /**
@@ -34,7 +40,8 @@ function extractApiKey(req: Request): string | null {
 }
 
 /**
- * Authenticate a request.
+ * Authenticate a request. The key must not be expired and must have the
+ * scope the requested endpoint needs.
  */
 export async function authenticate(req: Request): Promise<AuthResult> {
   const key = extractApiKey(req);
@@ -55,6 +62,22 @@ export async function authenticate(req: Request): Promise<AuthResult> {
     };
   }
 
+  if (isKeyExpired(apiKey)) {
+    return {
+      authenticated: false,
+      error: `API key expired on ${apiKey.expires_at} UTC`,
+    };
+  }
+
+  const scope = getRequiredScope(new URL(req.url).pathname);
+  if (scope && !hasScope(apiKey, scope)) {
+    return {
+      authenticated: false,
+      error: `This API key does not have the '${scope}' scope required for this endpoint`,
+      status: 403,
+    };
+  }
+
   return {
     authenticated: true,
     apiKey,
@@ -67,10 +90,12 @@ export async function authenticate(req: Request): Promise<AuthResult> {
  */
 export function createAuthErrorResponse(
   error: string,
-  pathname: string
+  pathname: string,
+  status = 401
 ): Response {
   // Determine response format based on endpoint
   const isAnthropicEndpoint = pathname.startsWith("/v1/messages");
+  const forbidden = status === 403;
 
   if (isAnthropicEndpoint) {
     // Anthropic error format
@@ -78,11 +103,11 @@ export function createAuthErrorResponse(
       {
         type: "error",
         error: {
-          type: "authentication_error",
+          type: forbidden ? "permission_error" : "authentication_error",
           message: error,
         },
       },
-      { status: 401 }
+      { status }
     );
   } else {
     // OpenAI error format
@@ -92,30 +117,113 @@ export function createAuthErrorResponse(
           message: error,
           type: "invalid_request_error",
           param: null,
-          code: "invalid_api_key",
+          code: forbidden ? "insufficient_scope" : "invalid_api_key",
         },
       },
-      { status: 401 }
+      { status }
     );
   }
 }
 
+/**
+ * Authenticate an /admin/* request: ADMIN_API_KEY, or an API key with the
+ * admin scope.
+ */
+export async function authenticateAdmin(req: Request): Promise<AuthResult> {
+  if (isAdminRequest(req)) {
+    return { authenticated: true };
+  }
+
+  return authenticate(req);
+}
+
+/**
+ * Endpoints that reach providers. Only these count toward a key's limits;
+ * listing models and counting tokens are free.
+ */
+const LIMITED_PATHS = ["/v1/chat/completions", "/v1/responses", "/v1/messages", "/chat"];
+
+/**
+ * Check if a request counts toward its key's limits.
+ */
+export function countsTowardLimits(pathname: string): boolean {
+  return LIMITED_PATHS.includes(pathname);
+}
+
+/**
+ * Check an authenticated request against its key's limits (requests per
+ * minute, tokens per day, concurrent streams).
+ */
+export function checkRateLimits(apiKey: ApiKey): KeyLimitCheck {
+  return checkKeyLimits(apiKey);
+}
+
+/**
+ * Create a 429 response for a request over its key's limits, with
+ * Retry-After and x-ratelimit-* headers.
+ * Formats error according to the requested API style.
+ */
+export function createRateLimitResponse(
+  check: KeyLimitCheck,
+  pathname: string
+): Response {
+  const message = check.message ?? "Rate limit exceeded";
+  const init = { status: 429, headers: check.headers };
+
+  if (pathname.startsWith("/v1/messages")) {
+    // Anthropic error format
+    return Response.json(
+      {
+        type: "error",
+        error: {
+          type: "rate_limit_error",
+          message,
+        },
+      },
+      init
+    );
+  }
+
+  // OpenAI error format
+  return Response.json(
+    {
+      error: {
+        message,
+        type: check.exceeded === "tokens" ? "tokens" : "requests",
+        param: null,
+        code: "rate_limit_exceeded",
+      },
+    },
+    init
+  );
+}
+
 /**
  * List of paths that don't require authentication.
  */
-const PUBLIC_PATHS = ["/health", "/v1/models"];
+const PUBLIC_PATHS = ["/health", "/health/providers"];
 
 /**
  * Check if a path requires authentication.
  */
 export function requiresAuth(pathname: string): boolean {
-  // Health check and models list are public
+  // Health checks are public
   if (PUBLIC_PATHS.includes(pathname)) {
     return false;
   }
 
-  // Model info endpoint is public
-  if (pathname.startsWith("/v1/models/")) {
+  // Metrics use the admin key or IP allowlist instead (see admin.ts)
+  if (pathname === "/metrics") {
+    return false;
+  }
+
+  // The admin API checks its own credential (see authenticateAdmin)
+  if (pathname.startsWith("/admin/")) {
+    return false;
+  }
+
+  // The dashboard is static files; it calls the admin API with the admin key
+  if (pathname === "/dashboard" || pathname.startsWith("/dashboard/")) {
     return false;
   }
 
@@ -4,7 +4,32 @@
 
 import { ask, askNumber, pressEnter, clearScreen, confirm } from "./utils/prompt.ts";
 import { section, table, success, error, info, apiKeyBox, colors, color } from "./utils/display.ts";
-import { createApiKey, listApiKeys, revokeApiKey, deleteApiKey } from "../db/api_keys.ts";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  deleteApiKey,
+  setContextStrategy,
+  setRoutingStrategy,
+  setApiKeyLimits,
+  type ApiKey,
+  type ApiKeyLimits,
+} from "../db/api_keys.ts";
+import type { RoutingStrategy } from "../defaults/types.ts";
+
+const ROUTING_OPTIONS: { strategy: RoutingStrategy; label: string }[] = [
+  { strategy: "round-robin", label: "Round-robin: rotar entre providers" },
+  { strategy: "weighted", label: "Ponderada: aleatoria según el peso de cada provider" },
+  { strategy: "priority", label: "Prioridad: siempre el #1 primero, el resto como fallback" },
+  { strategy: "latency", label: "Latencia: el provider que respondió más rápido" },
+  { strategy: "quota", label: "Cuota: el provider con más cuota restante" },
+];
+
+const LIMIT_PROMPTS: { column: keyof ApiKeyLimits; label: string }[] = [
+  { column: "rpm_limit", label: "Requests por minuto" },
+  { column: "daily_token_limit", label: "Tokens por día (UTC)" },
+  { column: "max_concurrent_streams", label: "Streams simultáneos" },
+];
 import { migrate } from "../db/migrate.ts";
 
 export async function manageAppKeys(): Promise<void> {
@@ -34,7 +59,7 @@ export async function manageAppKeys(): Promise<void> {
     }
 
     // Build table
-    const headers = ["ID", "Prefix", "Nombre", "Último uso", "Estado", "Usos"];
+    const headers = ["ID", "Prefix", "Nombre", "Último uso", "Estado", "Usos", "Contexto", "Routing", "Límites"];
     const rows = keys.map((k) => [
       String(k.id),
       k.key_prefix,
@@ -44,14 +69,20 @@ export async function manageAppKeys(): Promise<void> {
         ? color("✓ Activa", colors.green)
         : color("✗ Revocada", colors.red),
       String(k.usage_count),
+      k.context_strategy === "trim" ? "Recortar" : "Saltar",
+      k.routing_strategy ?? color("default", colors.dim),
+      formatLimits(k),
     ]);
 
-    table(headers, rows, [5, 13, 16, 18, 12, 8]);
+    table(headers, rows, [5, 13, 16, 18, 12, 8, 10, 13, 26]);
 
     console.log();
     console.log("  1. Crear nueva API Key");
     console.log("  2. Revocar API Key");
     console.log("  3. Eliminar API Key");
+    console.log("  4. Estrategia de contexto");
+    console.log("  5. Estrategia de routing");
+    console.log("  6. Límites de uso");
     console.log("  0. Volver");
     console.log();
 
@@ -67,6 +98,15 @@ export async function manageAppKeys(): Promise<void> {
       case 3:
         await deleteKey();
         break;
+      case 4:
+        await changeContextStrategy();
+        break;
+      case 5:
+        await changeRoutingStrategy();
+        break;
+      case 6:
+        await changeLimits();
+        break;
       case 0:
       default:
         return;
@@ -157,3 +197,107 @@ async function deleteKey(): Promise<void> {
 
   await pressEnter();
 }
+
+async function changeContextStrategy(): Promise<void> {
+  console.log();
+  info("Cuando el prompt no cabe en la ventana de contexto de un modelo:");
+  console.log("  1. Saltar a un modelo con más contexto (default)");
+  console.log("  2. Recortar turnos intermedios de la conversación");
+  console.log();
+
+  const id = await askNumber("ID de la API Key: ");
+  if (!id) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const choice = await askNumber("Estrategia (1-2): ");
+  if (choice !== 1 && choice !== 2) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const result = setContextStrategy(id, choice === 2 ? "trim" : "skip");
+
+  if (result) {
+    success(`API Key #${id} actualizada`);
+  } else {
+    error(`API Key #${id} no encontrada`);
+  }
+
+  await pressEnter();
+}
+
+async function changeRoutingStrategy(): Promise<void> {
+  console.log();
+  info("Orden en que se prueban los providers para las requests de la key:");
+  console.log("  0. Default del servidor (ROUTING_STRATEGY)");
+  ROUTING_OPTIONS.forEach(({ label }, i) => console.log(`  ${i + 1}. ${label}`));
+  console.log();
+
+  const id = await askNumber("ID de la API Key: ");
+  if (!id) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const choice = await askNumber(`Estrategia (0-${ROUTING_OPTIONS.length}): `);
+  if (choice === null || choice < 0 || choice > ROUTING_OPTIONS.length) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const result = setRoutingStrategy(id, choice === 0 ? null : ROUTING_OPTIONS[choice - 1]!.strategy);
+
+  if (result) {
+    success(`API Key #${id} actualizada`);
+  } else {
+    error(`API Key #${id} no encontrada`);
+  }
+
+  await pressEnter();
+}
+
+async function changeLimits(): Promise<void> {
+  console.log();
+  info("Límites por key. Enter mantiene el valor actual, 0 lo quita.");
+  console.log();
+
+  const id = await askNumber("ID de la API Key: ");
+  const key = id ? listApiKeys().find((k) => k.id === id) : undefined;
+  if (!key) {
+    if (id) error(`API Key #${id} no encontrada`);
+    else info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const limits: ApiKeyLimits = {};
+  for (const { column, label } of LIMIT_PROMPTS) {
+    const value = await askNumber(`${label} [${key[column] ?? "sin límite"}]: `);
+    if (value === null) continue;
+    if (value < 0) {
+      error("El valor debe ser 0 o mayor");
+      await pressEnter();
+      return;
+    }
+    limits[column] = value === 0 ? null : value;
+  }
+
+  setApiKeyLimits(key.id, limits);
+  success(`API Key #${key.id} actualizada`);
+
+  await pressEnter();
+}
+
+function formatLimits(key: Omit<ApiKey, "key_hash">): string {
+  const parts: string[] = [];
+  if (key.rpm_limit) parts.push(`${key.rpm_limit} rpm`);
+  if (key.daily_token_limit) parts.push(`${key.daily_token_limit} tok/día`);
+  if (key.max_concurrent_streams) parts.push(`${key.max_concurrent_streams} str`);
+  return parts.length > 0 ? parts.join(" · ") : color("sin límite", colors.dim);
+}
@@ -0,0 +1,187 @@
+/**
+ * Custom OpenAI-compatible providers module.
+ * Adds and removes providers declared in providers.json.
+ */
+
+import { ask, askNumber, pressEnter, clearScreen, confirm } from "./utils/prompt.ts";
+import { section, table, success, error, info, colors, color } from "./utils/display.ts";
+import { writeEnvValue } from "./utils/env.ts";
+import { syncProviders } from "../db/provider_settings.ts";
+import { migrate } from "../db/migrate.ts";
+import { getProviderKeys } from "../defaults/providers.ts";
+import { ensureProvider } from "../services/models_config.ts";
+import {
+  getProvidersConfig,
+  addCustomProvider,
+  removeCustomProvider,
+  validateCustomProvider,
+  type CustomProviderConfig,
+} from "../services/providers_config.ts";
+import { listPoolKeyNames } from "../services/key_pool.ts";
+
+export async function manageCustomProviders(): Promise<void> {
+  // Ensure migrations are run
+  await migrate();
+
+  while (true) {
+    clearScreen();
+    section("🧩 Providers OpenAI-compatible");
+
+    const entries = Object.entries(getProvidersConfig());
+
+    if (entries.length === 0) {
+      info("No hay providers personalizados (providers.json).");
+    } else {
+      const headers = ["#", "Clave", "Nombre", "URL base", "API Key"];
+      const rows = entries.map(([key, provider], i) => [
+        String(i + 1),
+        key,
+        provider.name,
+        provider.baseUrl,
+        listPoolKeyNames(provider.apiKeyName, process.env).length > 0
+          ? color("✓ " + provider.apiKeyName, colors.green)
+          : color("✗ " + provider.apiKeyName, colors.red),
+      ]);
+
+      table(headers, rows, [4, 14, 14, 34, 26]);
+    }
+
+    console.log();
+    console.log("  1. Agregar provider");
+    if (entries.length > 0) {
+      console.log("  2. Eliminar provider");
+    }
+    console.log("  0. Volver");
+    console.log();
+
+    const choice = await askNumber("> ");
+
+    switch (choice) {
+      case 1:
+        await addProvider();
+        break;
+      case 2:
+        if (entries.length > 0) {
+          await removeProvider(entries.map(([key]) => key));
+        }
+        break;
+      case 0:
+      default:
+        return;
+    }
+  }
+}
+
+async function addProvider(): Promise<void> {
+  console.log();
+  info("Cualquier servidor con API compatible con OpenAI (DeepSeek, Mistral, Together, LM Studio, llama.cpp...)");
+  console.log();
+
+  const key = (await ask("Clave (ej. deepseek): ")).toLowerCase();
+  if (!key) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+  if (getProviderKeys().includes(key)) {
+    error(`Ya existe un provider "${key}"`);
+    await pressEnter();
+    return;
+  }
+
+  const name = (await ask("Nombre (ej. DeepSeek): ")) || key;
+  const baseUrl = await ask("URL base, sin /chat/completions (ej. https://api.deepseek.com/v1): ");
+
+  const defaultKeyName = `${key.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_API_KEY`;
+  const apiKeyName = (await ask(`Variable de la API Key [${defaultKeyName}]: `)) || defaultKeyName;
+
+  const model = await ask("Modelo por defecto: ");
+  if (!model) {
+    error("El modelo por defecto es obligatorio");
+    await pressEnter();
+    return;
+  }
+
+  const supportsTools = await confirm("¿Soporta tools?", true);
+
+  const headers: Record<string, string> = {};
+  while (true) {
+    const header = await ask("Header extra 'Nombre: valor' (Enter para terminar): ");
+    if (!header) break;
+
+    const separator = header.indexOf(":");
+    if (separator <= 0) {
+      error("Formato inválido, usa 'Nombre: valor'");
+      continue;
+    }
+    headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+  }
+
+  const provider: CustomProviderConfig = { name, baseUrl, apiKeyName, supportsTools };
+  if (Object.keys(headers).length > 0) {
+    provider.headers = headers;
+  }
+
+  try {
+    validateCustomProvider(key, provider);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    await pressEnter();
+    return;
+  }
+
+  console.log();
+  info("Los servidores locales sin autenticación aceptan cualquier valor");
+  const apiKey = await ask(`API Key para ${name} (Enter para configurarla después): `);
+
+  try {
+    await addCustomProvider(key, provider);
+    await ensureProvider(key, model);
+    if (apiKey) {
+      await writeEnvValue(apiKeyName, apiKey);
+    }
+    syncProviders(getProviderKeys());
+
+    console.log();
+    success(`Provider ${name} agregado a providers.json`);
+    info("Los params por defecto (temperature, max_completion_tokens...) se editan en providers.json");
+    if (!apiKey) {
+      info(`Configura ${apiKeyName} para activarlo`);
+    }
+  } catch (err) {
+    error(`Error guardando el provider: ${err}`);
+  }
+
+  await pressEnter();
+}
+
+async function removeProvider(keys: string[]): Promise<void> {
+  console.log();
+  const index = await askNumber("# del provider a eliminar: ");
+  const key = index ? keys[index - 1] : undefined;
+
+  if (!key) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  const confirmed = await confirm(`¿Eliminar el provider "${key}"?`);
+
+  if (!confirmed) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  try {
+    await removeCustomProvider(key);
+    syncProviders(getProviderKeys());
+    success(`Provider "${key}" eliminado`);
+    info("Sus modelos se conservan en models.json");
+  } catch (err) {
+    error(`Error eliminando el provider: ${err}`);
+  }
+
+  await pressEnter();
+}
@@ -13,6 +13,8 @@ import { manageAppKeys } from "./app_keys.ts";
 import { manageProviderToggle } from "./provider_toggle.ts";
 import { manageModels } from "./models.ts";
 import { showStatus } from "./status.ts";
+import { manageCustomProviders } from "./custom_providers.ts";
+import { manageRequestLog } from "./request_log.ts";
 
 async function mainMenu(): Promise<void> {
   while (true) {
@@ -25,6 +27,8 @@ async function mainMenu(): Promise<void> {
     console.log("  4. ⚡ Seleccionar/Deseleccionar Providers");
     console.log("  5. 🎯 Gestionar Modelos de Providers");
     console.log("  6. 📊 Ver estado actual");
+    console.log("  7. 🧩 Providers OpenAI-compatible");
+    console.log("  8. 📜 Registro de requests");
     console.log("  0. ❌ Salir");
     console.log();
 
@@ -49,6 +53,12 @@ async function mainMenu(): Promise<void> {
       case "6":
         await showStatus();
         break;
+      case "7":
+        await manageCustomProviders();
+        break;
+      case "8":
+        await manageRequestLog();
+        break;
       case "0":
       case "q":
       case "exit":
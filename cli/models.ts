@@ -4,7 +4,7 @@
 
 import { ask, askNumber, pressEnter, clearScreen } from "./utils/prompt.ts";
 import { section, table, success, error, info, warning, colors, color, checkbox } from "./utils/display.ts";
-import { providers } from "../defaults/providers.ts";
+import { getProviderDefinitions } from "../defaults/providers.ts";
 import {
   getModelsConfig,
   getProviderConfig,
@@ -14,6 +14,9 @@ import {
   setDefaultModel,
   toggleFallback,
   reorderModels,
+  getModelId,
+  getModelIds,
+  type ModelEntry,
   type ProviderModelConfig,
 } from "../services/models_config.ts";
 
@@ -26,7 +29,7 @@ interface ProviderModelStatus {
 function getProviderModelStatuses(): ProviderModelStatus[] {
   const config = getModelsConfig();
 
-  return Object.entries(providers).map(([key, provider]) => ({
+  return Object.entries(getProviderDefinitions()).map(([key, provider]) => ({
     key,
     name: provider.name,
     config: config[key] ?? null,
@@ -117,18 +120,20 @@ async function manageProviderModels(provider: ProviderModelStatus): Promise<void
     }
 
     // Show current models
-    const headers = ["#", "Modelo", "Default"];
-    const rows = config.models.map((model, i) => {
+    const headers = ["#", "Modelo", "Default", "Capacidades"];
+    const rows = config.models.map((entry, i) => {
+      const model = getModelId(entry);
       const isDefault = model === config.default;
       const modelDisplay = model.length > 40 ? model.substring(0, 37) + "..." : model;
       return [
         String(i + 1),
         modelDisplay,
         isDefault ? color("★ Default", colors.yellow) : "",
+        formatCapabilities(entry),
       ];
     });
 
-    table(headers, rows, [4, 45, 12]);
+    table(headers, rows, [4, 45, 12, 30]);
 
     console.log();
 
@@ -181,6 +186,22 @@ async function manageProviderModels(provider: ProviderModelStatus): Promise<void
   }
 }
 
+/**
+ * Summarize a model's capabilities for the models table.
+ */
+function formatCapabilities(entry: ModelEntry): string {
+  if (typeof entry === "string") {
+    return color("-", colors.dim);
+  }
+
+  const parts: string[] = [];
+  if (entry.contextWindow) parts.push(`${Math.round(entry.contextWindow / 1000)}k ctx`);
+  if (entry.supportsTools) parts.push("tools");
+  if (entry.supportsVision) parts.push("visión");
+  if (entry.supportsReasoning) parts.push("razonamiento");
+  return parts.length > 0 ? parts.join(", ") : color("-", colors.dim);
+}
+
 async function addModelMenu(providerKey: string): Promise<void> {
   console.log();
   info("Ingresa el identificador del modelo (ej: llama-3.3-70b-versatile)");
@@ -205,14 +226,15 @@ async function addModelMenu(providerKey: string): Promise<void> {
 }
 
 async function editModelMenu(providerKey: string, config: ProviderModelConfig): Promise<void> {
+  const models = getModelIds(config);
   console.log();
   const idx = await askNumber("Número del modelo a editar: ");
 
-  if (!idx || idx < 1 || idx > config.models.length) {
+  if (!idx || idx < 1 || idx > models.length) {
     return;
   }
 
-  const oldModel = config.models[idx - 1];
+  const oldModel = models[idx - 1];
   if (!oldModel) return;
 
   console.log();
@@ -238,7 +260,8 @@ async function editModelMenu(providerKey: string, config: ProviderModelConfig):
 }
 
 async function deleteModelMenu(providerKey: string, config: ProviderModelConfig): Promise<void> {
-  if (config.models.length === 1) {
+  const models = getModelIds(config);
+  if (models.length === 1) {
     console.log();
     warning("No puedes eliminar el único modelo del provider.");
     await pressEnter();
@@ -248,11 +271,11 @@ async function deleteModelMenu(providerKey: string, config: ProviderModelConfig)
   console.log();
   const idx = await askNumber("Número del modelo a eliminar: ");
 
-  if (!idx || idx < 1 || idx > config.models.length) {
+  if (!idx || idx < 1 || idx > models.length) {
     return;
   }
 
-  const model = config.models[idx - 1];
+  const model = models[idx - 1];
   if (!model) return;
 
   if (model === config.default) {
@@ -284,11 +307,12 @@ async function deleteModelMenu(providerKey: string, config: ProviderModelConfig)
 }
 
 async function changeDefaultMenu(providerKey: string, config: ProviderModelConfig): Promise<void> {
+  const models = getModelIds(config);
   console.log();
   info("Modelos disponibles:");
   console.log();
 
-  config.models.forEach((model, i) => {
+  models.forEach((model, i) => {
     const isDefault = model === config.default;
     const marker = isDefault ? color(" ★", colors.yellow) : "";
     console.log(`  ${i + 1}. ${model}${marker}`);
@@ -297,11 +321,11 @@ async function changeDefaultMenu(providerKey: string, config: ProviderModelConfi
   console.log();
   const idx = await askNumber("Número del nuevo default: ");
 
-  if (!idx || idx < 1 || idx > config.models.length) {
+  if (!idx || idx < 1 || idx > models.length) {
     return;
   }
 
-  const model = config.models[idx - 1];
+  const model = models[idx - 1];
   if (!model) return;
 
   if (model === config.default) {
@@ -358,7 +382,8 @@ async function toggleFallbackMenu(providerKey: string, config: ProviderModelConf
 }
 
 async function reorderModelsMenu(providerKey: string, config: ProviderModelConfig): Promise<void> {
-  if (config.models.length < 2) {
+  const models = getModelIds(config);
+  if (models.length < 2) {
     console.log();
     warning("Necesitas al menos 2 modelos para reordenar.");
     await pressEnter();
@@ -369,7 +394,7 @@ async function reorderModelsMenu(providerKey: string, config: ProviderModelConfi
   info("Orden actual (para fallback):");
   console.log();
 
-  config.models.forEach((model, i) => {
+  models.forEach((model, i) => {
     const isDefault = model === config.default;
     const marker = isDefault ? color(" ★", colors.yellow) : "";
     console.log(`  ${i + 1}. ${model}${marker}`);
@@ -389,13 +414,13 @@ async function reorderModelsMenu(providerKey: string, config: ProviderModelConfi
   const newOrder = input.split(",").map((s) => parseInt(s.trim(), 10) - 1);
 
   // Validate
-  if (newOrder.length !== config.models.length) {
-    error(`Debes especificar ${config.models.length} posiciones.`);
+  if (newOrder.length !== models.length) {
+    error(`Debes especificar ${models.length} posiciones.`);
     await pressEnter();
     return;
   }
 
-  const hasInvalid = newOrder.some((i) => isNaN(i) || i < 0 || i >= config.models.length);
+  const hasInvalid = newOrder.some((i) => isNaN(i) || i < 0 || i >= models.length);
   if (hasInvalid) {
     error("Posiciones inválidas.");
     await pressEnter();
@@ -410,7 +435,7 @@ async function reorderModelsMenu(providerKey: string, config: ProviderModelConfi
   }
 
   // Apply new order
-  const orderedModels = newOrder.map((i) => config.models[i]!);
+  const orderedModels = newOrder.map((i) => models[i]!);
 
   try {
     await reorderModels(providerKey, orderedModels);
@@ -4,9 +4,15 @@
 
 import { ask, askNumber, pressEnter, clearScreen } from "./utils/prompt.ts";
 import { section, table, success, error, info, warning, colors, color, checkbox } from "./utils/display.ts";
-import { hasEnvValue } from "./utils/env.ts";
-import { getAllProviderSettings, toggleProvider, reorderProviders, syncProviders } from "../db/provider_settings.ts";
-import { providers } from "../defaults/providers.ts";
+import { listPoolKeyNames } from "../services/key_pool.ts";
+import {
+  getAllProviderSettings,
+  toggleProvider,
+  reorderProviders,
+  setProviderWeight,
+  syncProviders,
+} from "../db/provider_settings.ts";
+import { getProviderDefinitions, getProviderKeys } from "../defaults/providers.ts";
 import { migrate } from "../db/migrate.ts";
 
 interface ProviderStatus {
@@ -15,22 +21,24 @@ interface ProviderStatus {
   hasApiKey: boolean;
   isEnabled: boolean;
   priority: number;
+  weight: number;
 }
 
 function getProviderStatuses(): ProviderStatus[] {
   // Sync providers first
-  syncProviders(Object.keys(providers));
+  syncProviders(getProviderKeys());
 
   const settings = getAllProviderSettings();
 
-  return Object.entries(providers).map(([key, provider]) => {
+  return Object.entries(getProviderDefinitions()).map(([key, provider]) => {
     const setting = settings.find((s) => s.provider_key === key);
     return {
       key,
       name: provider.name,
-      hasApiKey: hasEnvValue(provider.apiKeyName),
+      hasApiKey: listPoolKeyNames(provider.apiKeyName, process.env).length > 0,
       isEnabled: setting?.is_enabled === 1,
       priority: setting?.priority ?? 999,
+      weight: setting?.weight ?? 1,
     };
   }).sort((a, b) => a.priority - b.priority);
 }
@@ -46,7 +54,7 @@ export async function manageProviderToggle(): Promise<void> {
     const statuses = getProviderStatuses();
 
     // Build table
-    const headers = ["#", "Provider", "API Key", "Habilitado", "Orden"];
+    const headers = ["#", "Provider", "API Key", "Habilitado", "Orden", "Peso"];
     const rows = statuses.map((p, i) => {
       const apiKeyStatus = p.hasApiKey
         ? color("✓ Config.", colors.green)
@@ -57,6 +65,7 @@ export async function manageProviderToggle(): Promise<void> {
         : color("- N/A", colors.dim);
 
       const order = p.hasApiKey && p.isEnabled ? String(p.priority) : "-";
+      const weight = p.hasApiKey && p.isEnabled ? String(p.weight) : "-";
 
       return [
         String(i + 1),
@@ -64,18 +73,21 @@ export async function manageProviderToggle(): Promise<void> {
         apiKeyStatus,
         enabledStatus,
         order,
+        weight,
       ];
     });
 
-    table(headers, rows, [4, 14, 12, 16, 8]);
+    table(headers, rows, [4, 14, 12, 16, 8, 6]);
 
     console.log();
     info("Providers sin API Key no pueden activarse.");
-    info("El orden determina la rotación round-robin.");
+    info("El orden determina la rotación round-robin y la estrategia de prioridad.");
+    info("El peso reparte el tráfico con la estrategia ponderada.");
     console.log();
 
     console.log("  1. Toggle provider (activar/desactivar)");
     console.log("  2. Cambiar orden de rotación");
+    console.log("  3. Cambiar peso");
     console.log("  0. Volver");
     console.log();
 
@@ -88,6 +100,9 @@ export async function manageProviderToggle(): Promise<void> {
       case 2:
         await changeOrderMenu(statuses);
         break;
+      case 3:
+        await changeWeightMenu(statuses);
+        break;
       case 0:
       default:
         return;
@@ -194,3 +209,32 @@ async function changeOrderMenu(statuses: ProviderStatus[]): Promise<void> {
 
   await pressEnter();
 }
+
+async function changeWeightMenu(statuses: ProviderStatus[]): Promise<void> {
+  console.log();
+  const idx = await askNumber("Número del provider: ");
+
+  if (!idx || idx < 1 || idx > statuses.length) {
+    return;
+  }
+
+  const provider = statuses[idx - 1];
+
+  if (!provider) return;
+
+  info("Con peso 2 recibe el doble de tráfico que uno con peso 1; con 0 solo se usa como último recurso.");
+  const weight = await askNumber(`Peso de ${provider.name} [${provider.weight}]: `);
+
+  if (weight === null || weight < 0) {
+    info("Operación cancelada");
+    await pressEnter();
+    return;
+  }
+
+  setProviderWeight(provider.key, weight);
+
+  console.log();
+  success(`${provider.name} ahora tiene peso ${weight}`);
+
+  await pressEnter();
+}
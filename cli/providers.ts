@@ -1,31 +1,40 @@
 /**
  * Provider API Keys management module.
+ * Each provider has a pool of keys: its env var plus numbered ones
+ * (GROQ_API_KEY, GROQ_API_KEY_1, ...) that the server rotates through.
  */
 
 import { ask, askNumber, pressEnter, clearScreen, confirm } from "./utils/prompt.ts";
 import { section, table, success, error, info, colors, color, maskApiKey } from "./utils/display.ts";
-import { hasEnvValue, getEnvValue, writeEnvValue, removeEnvValue } from "./utils/env.ts";
-import { providers } from "../defaults/providers.ts";
+import { getEnvValue, writeEnvValue, removeEnvValue } from "./utils/env.ts";
+import { getProviderDefinitions } from "../defaults/providers.ts";
+import { listPoolKeyNames, getNextPoolKeyName } from "../services/key_pool.ts";
 
 interface ProviderInfo {
   key: string;
   name: string;
   apiKeyName: string;
-  hasKey: boolean;
-  maskedKey: string;
+  /** Env var names of the keys in the pool. */
+  keyNames: string[];
 }
 
 function getProviderList(): ProviderInfo[] {
-  return Object.entries(providers).map(([key, provider]) => {
-    const apiKeyValue = getEnvValue(provider.apiKeyName);
-    return {
-      key,
-      name: provider.name,
-      apiKeyName: provider.apiKeyName,
-      hasKey: hasEnvValue(provider.apiKeyName),
-      maskedKey: maskApiKey(apiKeyValue),
-    };
-  });
+  return Object.entries(getProviderDefinitions()).map(([key, provider]) => ({
+    key,
+    name: provider.name,
+    apiKeyName: provider.apiKeyName,
+    keyNames: listPoolKeyNames(provider.apiKeyName, process.env),
+  }));
+}
+
+function describePool(provider: ProviderInfo): string {
+  if (provider.keyNames.length === 0) {
+    return color("✗ No configurada", colors.red);
+  }
+  if (provider.keyNames.length === 1) {
+    return color("✓ " + maskApiKey(getEnvValue(provider.keyNames[0]!)), colors.green);
+  }
+  return color(`✓ ${provider.keyNames.length} keys`, colors.green);
 }
 
 export async function manageProviderKeys(): Promise<void> {
@@ -41,15 +50,13 @@ export async function manageProviderKeys(): Promise<void> {
       String(i + 1),
       p.name,
       p.apiKeyName,
-      p.hasKey
-        ? color("✓ " + p.maskedKey, colors.green)
-        : color("✗ No configurada", colors.red),
+      describePool(p),
     ]);
 
     table(headers, rows, [4, 14, 22, 24]);
 
     console.log();
-    info("Selecciona un provider para configurar su API Key");
+    info("Selecciona un provider para configurar sus API Keys");
     console.log();
 
     const choice = await askNumber("Opción (0 para volver): ");
@@ -67,20 +74,33 @@ export async function manageProviderKeys(): Promise<void> {
   }
 }
 
-async function configureProviderKey(provider: ProviderInfo): Promise<void> {
-  clearScreen();
-  section(`🔑 Configurar ${provider.name}`);
+async function configureProviderKey(selected: ProviderInfo): Promise<void> {
+  while (true) {
+    // Re-read the pool, it changes as keys are added or removed
+    const provider = getProviderList().find((p) => p.key === selected.key) ?? selected;
 
-  console.log(`  Variable:  ${provider.apiKeyName}`);
-  console.log(`  Estado:    ${provider.hasKey
-    ? color("✓ Configurada (" + provider.maskedKey + ")", colors.green)
-    : color("✗ No configurada", colors.red)
-  }`);
-  console.log();
+    clearScreen();
+    section(`🔑 Configurar ${provider.name}`);
+
+    console.log(`  Variable:  ${provider.apiKeyName} (pool: ${provider.apiKeyName}_1, ${provider.apiKeyName}_2, ...)`);
+    console.log();
 
-  if (provider.hasKey) {
-    console.log("  1. Actualizar API Key");
-    console.log("  2. Eliminar API Key");
+    if (provider.keyNames.length === 0) {
+      console.log(`  ${color("✗ No configurada", colors.red)}`);
+    } else {
+      table(
+        ["#", "Variable", "API Key"],
+        provider.keyNames.map((name, i) => [String(i + 1), name, maskApiKey(getEnvValue(name))]),
+        [4, 26, 24]
+      );
+    }
+    console.log();
+
+    console.log("  1. Agregar API Key al pool");
+    if (provider.keyNames.length > 0) {
+      console.log("  2. Actualizar API Key");
+      console.log("  3. Eliminar API Key");
+    }
     console.log("  0. Volver");
     console.log();
 
@@ -88,30 +108,36 @@ async function configureProviderKey(provider: ProviderInfo): Promise<void> {
 
     switch (choice) {
       case 1:
-        await updateApiKey(provider);
+        await addApiKey(provider);
         break;
       case 2:
-        await deleteApiKey(provider);
+        if (provider.keyNames.length > 0) await updateApiKey(provider);
+        break;
+      case 3:
+        if (provider.keyNames.length > 0) await deleteApiKey(provider);
         break;
       default:
         return;
     }
-  } else {
-    console.log("  1. Agregar API Key");
-    console.log("  0. Volver");
-    console.log();
+  }
+}
 
-    const choice = await askNumber("> ");
+async function addApiKey(provider: ProviderInfo): Promise<void> {
+  const keyName = getNextPoolKeyName(provider.apiKeyName, process.env);
+  await saveApiKey(provider, keyName);
+}
 
-    if (choice === 1) {
-      await updateApiKey(provider);
-    }
+async function updateApiKey(provider: ProviderInfo): Promise<void> {
+  console.log();
+  const keyName = await selectKey(provider, "# de la API Key a actualizar: ");
+  if (keyName) {
+    await saveApiKey(provider, keyName);
   }
 }
 
-async function updateApiKey(provider: ProviderInfo): Promise<void> {
+async function saveApiKey(provider: ProviderInfo, keyName: string): Promise<void> {
   console.log();
-  info(`Ingresa la API Key para ${provider.name}`);
+  info(`Ingresa la API Key para ${provider.name} (${keyName})`);
   info("(La key se guardará en el archivo .env)");
   console.log();
 
@@ -124,9 +150,9 @@ async function updateApiKey(provider: ProviderInfo): Promise<void> {
   }
 
   try {
-    await writeEnvValue(provider.apiKeyName, newKey.trim());
+    await writeEnvValue(keyName, newKey.trim());
     console.log();
-    success(`${provider.apiKeyName} guardada correctamente`);
+    success(`${keyName} guardada correctamente`);
     success(`Provider ${provider.name} ahora disponible`);
   } catch (err) {
     error(`Error guardando la key: ${err}`);
@@ -137,7 +163,12 @@ async function updateApiKey(provider: ProviderInfo): Promise<void> {
 
 async function deleteApiKey(provider: ProviderInfo): Promise<void> {
   console.log();
-  const confirmed = await confirm(`¿Eliminar API Key de ${provider.name}?`);
+  const keyName = await selectKey(provider, "# de la API Key a eliminar: ");
+  if (!keyName) {
+    return;
+  }
+
+  const confirmed = await confirm(`¿Eliminar ${keyName} de ${provider.name}?`);
 
   if (!confirmed) {
     info("Operación cancelada");
@@ -146,13 +177,30 @@ async function deleteApiKey(provider: ProviderInfo): Promise<void> {
   }
 
   try {
-    await removeEnvValue(provider.apiKeyName);
+    await removeEnvValue(keyName);
     console.log();
-    success(`${provider.apiKeyName} eliminada`);
-    info(`Provider ${provider.name} ya no estará disponible`);
+    success(`${keyName} eliminada`);
+    if (provider.keyNames.length === 1) {
+      info(`Provider ${provider.name} ya no estará disponible`);
+    }
   } catch (err) {
     error(`Error eliminando la key: ${err}`);
   }
 
   await pressEnter();
 }
+
+async function selectKey(provider: ProviderInfo, question: string): Promise<string | null> {
+  if (provider.keyNames.length === 1) {
+    return provider.keyNames[0]!;
+  }
+
+  const index = await askNumber(question);
+  const keyName = index ? provider.keyNames[index - 1] : undefined;
+  if (!keyName) {
+    info("Operación cancelada");
+    await pressEnter();
+    return null;
+  }
+  return keyName;
+}
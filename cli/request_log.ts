@@ -0,0 +1,202 @@
+/**
+ * Request log module - Browse and filter the audit log.
+ */
+
+import { ask, askNumber, pressEnter, clearScreen } from "./utils/prompt.ts";
+import { section, table, error, info, keyValue, colors, color } from "./utils/display.ts";
+import {
+  listRequestLogs,
+  getRequestLog,
+  type RequestLog,
+  type RequestLogFilter,
+  type RequestStatus,
+} from "../db/requests.ts";
+import { migrate } from "../db/migrate.ts";
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<RequestStatus, string> = {
+  success: color("✓ OK", colors.green),
+  error: color("✗ Error", colors.red),
+  cancelled: color("- Cancelada", colors.yellow),
+};
+
+export async function manageRequestLog(): Promise<void> {
+  // Ensure migrations are run
+  await migrate();
+
+  const filter: RequestLogFilter = {};
+  let page = 0;
+
+  while (true) {
+    clearScreen();
+    section("📜 Registro de Requests");
+
+    const logs = listRequestLogs({ ...filter, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+
+    const filters = describeFilter(filter);
+    if (filters) {
+      info(`Filtros: ${filters}`);
+      console.log();
+    }
+
+    if (logs.length === 0) {
+      info(page > 0 ? "No hay más requests." : "No hay requests registradas.");
+    } else {
+      const headers = ["ID", "Fecha (UTC)", "Key", "Ruta", "Provider/Modelo", "Estado", "Latencia", "TTFT", "Tokens"];
+      const rows = logs.map((log) => [
+        String(log.id),
+        log.created_at.slice(5, 16),
+        log.api_key_id !== null ? `#${log.api_key_id}` : "-",
+        log.route,
+        log.provider_key ? `${log.provider_key}/${log.model}`.slice(0, 30) : "-",
+        STATUS_LABELS[log.status],
+        formatMs(log.latency_ms),
+        formatMs(log.ttft_ms),
+        log.input_tokens !== null ? `${log.input_tokens}→${log.output_tokens ?? "?"}` : "-",
+      ]);
+
+      table(headers, rows, [7, 13, 6, 22, 32, 13, 10, 9, 13]);
+      info(`Página ${page + 1}`);
+    }
+
+    console.log();
+    console.log("  1. Ver detalle");
+    console.log("  2. Filtrar por provider");
+    console.log("  3. Filtrar por modelo");
+    console.log("  4. Filtrar por API Key");
+    console.log("  5. Filtrar por estado");
+    console.log("  6. Quitar filtros");
+    console.log("  7. Página siguiente");
+    console.log("  8. Página anterior");
+    console.log("  0. Volver");
+    console.log();
+
+    const choice = await askNumber("> ");
+
+    switch (choice) {
+      case 1:
+        await showDetail();
+        break;
+      case 2:
+        filter.providerKey = (await ask("Provider (Enter para todos): ")) || undefined;
+        page = 0;
+        break;
+      case 3:
+        filter.model = (await ask("Modelo (Enter para todos): ")) || undefined;
+        page = 0;
+        break;
+      case 4:
+        filter.apiKeyId = (await askNumber("ID de la API Key (Enter para todas): ")) ?? undefined;
+        page = 0;
+        break;
+      case 5:
+        filter.status = await askStatus();
+        page = 0;
+        break;
+      case 6:
+        delete filter.providerKey;
+        delete filter.model;
+        delete filter.apiKeyId;
+        delete filter.status;
+        page = 0;
+        break;
+      case 7:
+        if (logs.length === PAGE_SIZE) page++;
+        break;
+      case 8:
+        page = Math.max(0, page - 1);
+        break;
+      case 0:
+      default:
+        return;
+    }
+  }
+}
+
+async function askStatus(): Promise<RequestStatus | undefined> {
+  console.log();
+  console.log("  1. OK");
+  console.log("  2. Error");
+  console.log("  3. Cancelada");
+  console.log();
+
+  const choice = await askNumber("Estado (Enter para todos): ");
+  const statuses: RequestStatus[] = ["success", "error", "cancelled"];
+  return choice ? statuses[choice - 1] : undefined;
+}
+
+async function showDetail(): Promise<void> {
+  console.log();
+  const id = await askNumber("ID de la request: ");
+  if (!id) return;
+
+  const log = getRequestLog(id);
+  if (!log) {
+    error(`Request #${id} no encontrada`);
+    await pressEnter();
+    return;
+  }
+
+  clearScreen();
+  section(`📜 Request #${log.id}`);
+
+  keyValue([
+    { key: "Fecha (UTC)", value: log.created_at },
+    { key: "API Key", value: log.api_key_id !== null ? `#${log.api_key_id}` : "-" },
+    { key: "Ruta", value: log.route },
+    { key: "Modelo pedido", value: log.requested_model ?? "-" },
+    { key: "Estrategia", value: log.strategy ?? "-" },
+    { key: "Servida por", value: log.provider_key ? `${log.provider_key}/${log.model}` : "-" },
+    { key: "Estado", value: STATUS_LABELS[log.status] },
+    { key: "Error", value: log.error ?? "-" },
+    { key: "Latencia", value: formatMs(log.latency_ms) },
+    { key: "TTFT", value: formatMs(log.ttft_ms) },
+    { key: "Tokens", value: `${log.input_tokens ?? "?"} entrada, ${log.output_tokens ?? "?"} salida` },
+  ]);
+
+  console.log();
+  showAttempts(log);
+
+  if (log.request_body || log.response_body) {
+    console.log();
+    info("Request:");
+    console.log(log.request_body ?? "-");
+    console.log();
+    info("Respuesta:");
+    console.log(log.response_body ?? "-");
+  } else {
+    console.log();
+    info("Los bodies no se guardan (AUDIT_LOG_BODIES=true para activarlo).");
+  }
+
+  await pressEnter();
+}
+
+function showAttempts(log: RequestLog): void {
+  if (log.attempts.length === 0) {
+    info("Ningún provider llegó a intentarse.");
+    return;
+  }
+
+  info("Intentos:");
+  log.attempts.forEach((attempt, i) => {
+    const target = `${attempt.provider_key}/${attempt.model}` + (attempt.key_name ? ` (${attempt.key_name})` : "");
+    const outcome = attempt.error ? color(`✗ ${attempt.error}`, colors.red) : color("✓ OK", colors.green);
+    console.log(`  ${i + 1}. ${target} · ${formatMs(attempt.latency_ms)} · ${outcome}`);
+  });
+}
+
+function describeFilter(filter: RequestLogFilter): string {
+  const parts: string[] = [];
+  if (filter.providerKey) parts.push(`provider=${filter.providerKey}`);
+  if (filter.model) parts.push(`modelo=${filter.model}`);
+  if (filter.apiKeyId !== undefined) parts.push(`key=#${filter.apiKeyId}`);
+  if (filter.status) parts.push(`estado=${filter.status}`);
+  return parts.join(", ");
+}
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
@@ -7,7 +7,7 @@ import { section, success, error, step, info } from "./utils/display.ts";
 import { envFileExists, createEnvFromTemplate, getEnvPath } from "./utils/env.ts";
 import { migrate } from "../db/migrate.ts";
 import { syncProviders } from "../db/provider_settings.ts";
-import { providers } from "../defaults/providers.ts";
+import { getProviderKeys } from "../defaults/providers.ts";
 import { join } from "path";
 
 export async function runSetup(): Promise<void> {
@@ -39,7 +39,7 @@ export async function runSetup(): Promise<void> {
 
     // Step 4: Sync providers
     step("Sincronizando providers...");
-    const providerKeys = Object.keys(providers);
+    const providerKeys = getProviderKeys();
     syncProviders(providerKeys);
     step(`${providerKeys.length} providers sincronizados`, true);
 
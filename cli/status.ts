@@ -4,10 +4,11 @@
 
 import { pressEnter, clearScreen } from "./utils/prompt.ts";
 import { section, success, error, info, colors, color, keyValue } from "./utils/display.ts";
-import { envFileExists, hasEnvValue, getEnvValue } from "./utils/env.ts";
+import { envFileExists, getEnvValue } from "./utils/env.ts";
+import { listPoolKeyNames } from "../services/key_pool.ts";
 import { getAllProviderSettings, syncProviders } from "../db/provider_settings.ts";
 import { listApiKeys } from "../db/api_keys.ts";
-import { providers } from "../defaults/providers.ts";
+import { getProviderDefinitions, getProviderKeys } from "../defaults/providers.ts";
 import { migrate } from "../db/migrate.ts";
 import { DB_PATH } from "../db/index.ts";
 import { existsSync } from "fs";
@@ -45,12 +46,12 @@ export async function showStatus(): Promise<void> {
   console.log(color("Providers", colors.bold));
 
   if (dbExists) {
-    syncProviders(Object.keys(providers));
+    syncProviders(getProviderKeys());
     const settings = getAllProviderSettings();
 
-    for (const [key, provider] of Object.entries(providers)) {
+    for (const [key, provider] of Object.entries(getProviderDefinitions())) {
       const setting = settings.find((s) => s.provider_key === key);
-      const hasKey = hasEnvValue(provider.apiKeyName);
+      const hasKey = listPoolKeyNames(provider.apiKeyName, process.env).length > 0;
       const isEnabled = setting?.is_enabled === 1;
 
       let status: string;
@@ -65,8 +66,8 @@ export async function showStatus(): Promise<void> {
       console.log(`  ${provider.name.padEnd(12)} ${status}`);
     }
   } else {
-    for (const [, provider] of Object.entries(providers)) {
-      const hasKey = hasEnvValue(provider.apiKeyName);
+    for (const [, provider] of Object.entries(getProviderDefinitions())) {
+      const hasKey = listPoolKeyNames(provider.apiKeyName, process.env).length > 0;
       const status = hasKey
         ? color("✓ API Key configurada", colors.green)
         : color("✗ Sin API Key", colors.red);
@@ -113,6 +114,12 @@ export async function showStatus(): Promise<void> {
 
   console.log();
 
+  // Circuit breakers and quota (live state from the running server)
+  console.log(color("Circuit Breakers y Cuota", colors.bold));
+  await showProviderHealth(port);
+
+  console.log();
+
   // Quick commands
   console.log(color("Comandos Rápidos", colors.bold));
   console.log("  bun run setup          - Este menú");
@@ -124,3 +131,96 @@ export async function showStatus(): Promise<void> {
 
   await pressEnter();
 }
+
+interface ProviderHealthResponse {
+  status: string;
+  providers: {
+    name: string;
+    models: {
+      model: string;
+      state: string;
+      consecutiveFailures: number;
+      retryInMs: number;
+      lastError: string | null;
+      rateLimited: boolean;
+      rateLimitRetryInMs: number;
+      quota: {
+        requests: { limit: number | null; remaining: number | null };
+        tokens: { limit: number | null; remaining: number | null };
+      };
+    }[];
+    keys: {
+      name: string;
+      authFailed: boolean;
+      retryInMs: number;
+      rateLimitedModels: string[];
+    }[];
+  }[];
+}
+
+/**
+ * Print breaker state and quota per provider/model from the server's /health/providers.
+ */
+async function showProviderHealth(port: string): Promise<void> {
+  let health: ProviderHealthResponse;
+  try {
+    const response = await fetch(`http://localhost:${port}/health/providers`, {
+      signal: AbortSignal.timeout(2000),
+    });
+    health = (await response.json()) as ProviderHealthResponse;
+  } catch {
+    console.log(`  ${color("- Servidor no disponible", colors.dim)}`);
+    return;
+  }
+
+  if (health.providers.length === 0) {
+    console.log(`  ${color("- Sin providers activos", colors.dim)}`);
+    return;
+  }
+
+  for (const provider of health.providers) {
+    for (const model of provider.models) {
+      let state: string;
+      if (model.rateLimited) {
+        state = color(`⏳ Rate limit (reintento en ${Math.ceil(model.rateLimitRetryInMs / 1000)}s)`, colors.yellow);
+      } else if (model.state === "open") {
+        state = color(`✗ Abierto (reintento en ${Math.ceil(model.retryInMs / 1000)}s)`, colors.red);
+      } else if (model.state === "half_open") {
+        state = color("◐ Semiabierto (probando)", colors.yellow);
+      } else if (model.consecutiveFailures > 0) {
+        state = color(`✓ Cerrado (${model.consecutiveFailures} fallos seguidos)`, colors.yellow);
+      } else {
+        state = color("✓ Cerrado", colors.green);
+      }
+
+      console.log(`  ${provider.name.padEnd(12)} ${model.model.padEnd(36)} ${state}`);
+
+      const { requests, tokens } = model.quota;
+      if (requests.remaining !== null || tokens.remaining !== null) {
+        const quota = [
+          requests.remaining !== null ? `peticiones ${requests.remaining}/${requests.limit ?? "?"}` : null,
+          tokens.remaining !== null ? `tokens ${tokens.remaining}/${tokens.limit ?? "?"}` : null,
+        ].filter(Boolean);
+        console.log(`  ${" ".repeat(12)} ${color(`Cuota restante: ${quota.join(", ")}`, colors.dim)}`);
+      }
+      if (model.state !== "closed" && model.lastError) {
+        console.log(`  ${" ".repeat(12)} ${color(model.lastError.slice(0, 80), colors.dim)}`);
+      }
+    }
+
+    // Only worth listing when there is a pool to rotate through
+    if (provider.keys.length > 1) {
+      for (const key of provider.keys) {
+        let state: string;
+        if (key.authFailed) {
+          state = color(`✗ Auth fallida (reintento en ${Math.ceil(key.retryInMs / 1000)}s)`, colors.red);
+        } else if (key.rateLimitedModels.length > 0) {
+          state = color(`⏳ Rate limit en ${key.rateLimitedModels.length} modelo(s)`, colors.yellow);
+        } else {
+          state = color("✓ Disponible", colors.green);
+        }
+        console.log(`  ${" ".repeat(12)} ${color(key.name.padEnd(36), colors.dim)} ${state}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,533 @@
+/**
+ * AICarousel dashboard.
+ * Plain browser script, no build step or external dependencies. Everything
+ * it shows or changes goes through the admin API (/admin/*) with the key
+ * entered at login, kept in sessionStorage for this tab only.
+ */
+
+"use strict";
+
+(() => {
+  const KEY_STORAGE = "aicarousel.adminKey";
+  const REFRESH_MS = 10_000;
+  const SCOPES = ["chat", "messages", "models", "admin"];
+  const DEFAULT_SCOPES = ["chat", "messages", "models"];
+
+  const STATUS_LABELS = {
+    success: ["✓ OK", "ok"],
+    error: ["✗ Error", "bad"],
+    cancelled: ["- Cancelada", "warn"],
+  };
+
+  const BREAKER_LABELS = {
+    closed: ["Cerrado", "ok"],
+    "half-open": ["Semiabierto", "warn"],
+    open: ["Abierto", "bad"],
+  };
+
+  const SERVER_LABELS = {
+    ok: ["Operativo", "ok"],
+    degraded: ["Degradado", "warn"],
+    down: ["Caído", "bad"],
+  };
+
+  const state = {
+    tab: "overview",
+    providers: [],
+    health: null,
+    selectedProvider: null,
+  };
+
+  const $ = (id) => document.getElementById(id);
+
+  // --- DOM helpers ---
+
+  /**
+   * Create an element. Text is always set with textContent, never as HTML.
+   */
+  function h(tag, props = {}, ...children) {
+    const el = document.createElement(tag);
+    for (const [name, value] of Object.entries(props)) {
+      if (value === undefined || value === null || value === false) continue;
+      if (name.startsWith("on")) {
+        el.addEventListener(name.slice(2).toLowerCase(), value);
+      } else if (name === "className" || name === "value" || name === "checked" || name === "defaultChecked" || name === "disabled") {
+        el[name] = value;
+      } else {
+        el.setAttribute(name, value === true ? "" : String(value));
+      }
+    }
+    for (const child of children.flat()) {
+      if (child === null || child === undefined || child === false) continue;
+      el.append(child instanceof Node ? child : document.createTextNode(String(child)));
+    }
+    return el;
+  }
+
+  function label([text, className]) {
+    return h("span", { className: `badge ${className}` }, text);
+  }
+
+  function fillRows(tbodyId, rows, columns, emptyText) {
+    const tbody = $(tbodyId);
+    tbody.replaceChildren(
+      ...(rows.length > 0 ? rows : [h("tr", {}, h("td", { colspan: columns, className: "muted" }, emptyText))])
+    );
+  }
+
+  function showMessage(text, kind = "error") {
+    const message = $("message");
+    message.textContent = text;
+    message.className = kind === "info" ? "info" : "";
+    message.hidden = false;
+    clearTimeout(showMessage.timer);
+    showMessage.timer = setTimeout(() => (message.hidden = true), 6000);
+  }
+
+  // --- Formatting ---
+
+  function formatMs(ms) {
+    if (ms === null || ms === undefined) return "-";
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+  }
+
+  function formatUptime(seconds) {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  }
+
+  function formatNumber(value) {
+    return Number(value).toLocaleString("es");
+  }
+
+  function modelId(entry) {
+    return typeof entry === "string" ? entry : entry.id;
+  }
+
+  // --- Admin API ---
+
+  class AuthError extends Error {}
+
+  async function api(method, path, body) {
+    const response = await fetch(`/admin/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${sessionStorage.getItem(KEY_STORAGE) ?? ""}`,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json().catch(() => null);
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError(data?.error?.message ?? "Acceso denegado");
+    }
+    if (!response.ok) {
+      throw new Error(data?.error?.message ?? `Error ${response.status}`);
+    }
+    return data;
+  }
+
+  /**
+   * Run an action, reporting errors. Auth errors send the user back to login.
+   */
+  async function run(action) {
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        logout(error.message);
+      } else {
+        showMessage(error.message);
+      }
+    }
+  }
+
+  // --- Overview ---
+
+  async function loadOverview() {
+    const [status, health] = await Promise.all([api("GET", "status"), api("GET", "health")]);
+    state.health = health;
+    renderServerStatus();
+
+    const card = (title, value, detail) =>
+      h("div", { className: "card" },
+        h("div", { className: "label" }, title),
+        h("div", { className: "value" }, value),
+        detail ? h("div", { className: "muted" }, detail) : null);
+
+    $("summary").replaceChildren(
+      card("Uptime", formatUptime(status.uptimeSeconds)),
+      card("Estrategia", status.routingStrategy),
+      card("Providers activos", status.providers.active, `${status.providers.enabled} habilitados, ${status.providers.withApiKey} con API key`),
+      card("API Keys", status.keys.active, `${status.keys.revoked} revocadas`)
+    );
+
+    const rows = health.providers.flatMap((provider) =>
+      provider.models.map((model) =>
+        h("tr", {},
+          h("td", {}, provider.name),
+          h("td", { className: "mono" }, model.model),
+          h("td", {},
+            label(BREAKER_LABELS[model.state] ?? [model.state, ""]),
+            model.rateLimited ? h("span", { className: "badge warn" }, "Rate limited") : null,
+            !model.available && model.state !== "open" ? h("span", { className: "badge bad" }, "Sin key") : null),
+          h("td", {}, model.consecutiveFailures),
+          h("td", { className: "muted" }, model.lastError ?? "-"))
+      )
+    );
+    fillRows("health-rows", rows, 5, "No hay providers activos.");
+  }
+
+  function renderServerStatus() {
+    const badge = $("server-status");
+    const [text, className] = SERVER_LABELS[state.health?.status] ?? ["", ""];
+    badge.textContent = text;
+    badge.className = `badge ${className}`;
+  }
+
+  // --- Providers and models ---
+
+  async function loadProviders() {
+    const [{ providers }, health] = await Promise.all([api("GET", "providers"), api("GET", "health")]);
+    state.providers = providers;
+    state.health = health;
+    renderServerStatus();
+    renderProviders();
+    renderModels();
+  }
+
+  function renderProviders() {
+    const providers = state.providers;
+
+    const rows = providers.map((provider, i) => {
+      const health = state.health?.providers.find((p) => p.key === provider.key);
+      const available = health ? health.models.filter((m) => m.available).length : 0;
+
+      return h("tr", {},
+        h("td", {},
+          h("button", { type: "button", className: "small", disabled: i === 0, title: "Subir", onClick: () => moveProvider(i, -1) }, "↑"),
+          " ",
+          h("button", { type: "button", className: "small", disabled: i === providers.length - 1, title: "Bajar", onClick: () => moveProvider(i, 1) }, "↓")),
+        h("td", {}, provider.name, " ", h("span", { className: "muted mono" }, provider.key)),
+        h("td", {}, provider.hasApiKey ? h("span", { className: "ok" }, "✓") : h("span", { className: "muted" }, "✗")),
+        h("td", {},
+          h("input", {
+            type: "checkbox",
+            checked: provider.enabled,
+            onChange: (event) => updateProvider(provider.key, { enabled: event.target.checked }),
+          })),
+        h("td", {},
+          h("input", {
+            type: "number",
+            min: 1,
+            step: 1,
+            value: provider.weight,
+            onChange: (event) => updateProvider(provider.key, { weight: Number(event.target.value) }),
+          })),
+        h("td", {}, health ? `${available}/${health.models.length} disponibles` : h("span", { className: "muted" }, "Inactivo")),
+        h("td", {},
+          h("button", { type: "button", onClick: () => selectProvider(provider.key) },
+            provider.models ? `${provider.models.models.length} modelos` : "Configurar")));
+    });
+
+    fillRows("provider-rows", rows, 7, "No hay providers.");
+  }
+
+  function updateProvider(providerKey, changes) {
+    return run(async () => {
+      await api("PATCH", `providers/${encodeURIComponent(providerKey)}`, changes);
+      await loadProviders();
+    });
+  }
+
+  function moveProvider(index, offset) {
+    const order = state.providers.map((p) => p.key);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+
+    return run(async () => {
+      await api("PUT", "providers/order", { order });
+      await loadProviders();
+    });
+  }
+
+  function selectProvider(providerKey) {
+    state.selectedProvider = providerKey;
+    renderModels();
+    $("models-panel").scrollIntoView({ behavior: "smooth" });
+  }
+
+  function renderModels() {
+    const provider = state.providers.find((p) => p.key === state.selectedProvider);
+    $("models-panel").hidden = !provider;
+    if (!provider) return;
+
+    $("models-title").textContent = `Modelos de ${provider.name}`;
+    const config = provider.models;
+    $("models-fallback").checked = config?.enableFallback ?? false;
+    $("models-fallback").disabled = !config;
+
+    const ids = config ? config.models.map(modelId) : [];
+    const rows = ids.map((id, i) =>
+      h("tr", {},
+        h("td", {},
+          h("button", { type: "button", className: "small", disabled: i === 0, title: "Subir", onClick: () => moveModel(ids, i, -1) }, "↑"),
+          " ",
+          h("button", { type: "button", className: "small", disabled: i === ids.length - 1, title: "Bajar", onClick: () => moveModel(ids, i, 1) }, "↓")),
+        h("td", { className: "mono" }, id),
+        h("td", {},
+          h("input", {
+            type: "radio",
+            name: "default-model",
+            checked: id === config.default,
+            onChange: () => updateModels({ default: id }),
+          })),
+        h("td", {},
+          h("button", { type: "button", className: "small danger", onClick: () => deleteModel(id) }, "Eliminar")))
+    );
+
+    fillRows("model-rows", rows, 4, "Sin modelos configurados. Añade uno para usar este provider.");
+  }
+
+  function updateModels(changes) {
+    return run(async () => {
+      await api("PATCH", `providers/${encodeURIComponent(state.selectedProvider)}/models`, changes);
+      await loadProviders();
+    });
+  }
+
+  function moveModel(ids, index, offset) {
+    const order = [...ids];
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    return updateModels({ order });
+  }
+
+  function deleteModel(id) {
+    if (!confirm(`¿Eliminar el modelo ${id}?`)) return;
+
+    return run(async () => {
+      const provider = encodeURIComponent(state.selectedProvider);
+      await api("DELETE", `providers/${provider}/models/${encodeURIComponent(id)}`);
+      await loadProviders();
+    });
+  }
+
+  function addModel(event) {
+    event.preventDefault();
+    const input = $("model-id");
+
+    return run(async () => {
+      await api("POST", `providers/${encodeURIComponent(state.selectedProvider)}/models`, { model: input.value.trim() });
+      input.value = "";
+      await loadProviders();
+    });
+  }
+
+  // --- Requests ---
+
+  async function loadRequests() {
+    const params = new URLSearchParams({ limit: "100" });
+    const filters = { status: $("filter-status").value, provider: $("filter-provider").value.trim(), key: $("filter-key").value.trim() };
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) params.set(name, value);
+    }
+
+    const { requests } = await api("GET", `requests?${params}`);
+
+    const rows = requests.map((log) =>
+      h("tr", {},
+        h("td", {}, log.id),
+        h("td", { className: "mono" }, log.created_at.slice(5, 19)),
+        h("td", {}, log.api_key_id !== null ? `#${log.api_key_id}` : "-"),
+        h("td", { className: "mono" }, log.route),
+        h("td", { className: "mono" }, log.provider_key ? `${log.provider_key}/${log.model}` : log.requested_model ?? "-"),
+        h("td", { title: log.error ?? "" }, label(STATUS_LABELS[log.status] ?? [log.status, ""])),
+        h("td", {}, formatMs(log.latency_ms)),
+        h("td", {}, formatMs(log.ttft_ms)),
+        h("td", {}, log.input_tokens !== null ? `${log.input_tokens}→${log.output_tokens ?? "?"}` : "-"),
+        h("td", {
+          className: "muted",
+          title: log.attempts.map((a) => `${a.provider_key}/${a.model}: ${a.error ?? "ok"}`).join("\n"),
+        }, log.attempts.length))
+    );
+
+    fillRows("request-rows", rows, 10, "No hay requests registradas.");
+  }
+
+  // --- API keys ---
+
+  async function loadKeys() {
+    const { keys } = await api("GET", "keys");
+
+    const rows = keys.map((key) => {
+      const today = new Date().toISOString().slice(0, 10);
+      const tokensToday = key.tokens_used_date === today ? key.tokens_used_today : 0;
+      const expired = key.expires_at && key.expires_at.replace(" ", "T") + "Z" <= new Date().toISOString();
+
+      return h("tr", {},
+        h("td", {}, key.id),
+        h("td", {}, key.name ?? h("span", { className: "muted" }, "-")),
+        h("td", { className: "mono" }, key.key_prefix),
+        h("td", {}, label(!key.is_active ? ["Revocada", "bad"] : expired ? ["Expirada", "warn"] : ["Activa", "ok"])),
+        h("td", {}, key.scopes ? key.scopes.split(",").join(", ") : h("span", { className: "muted" }, "por defecto")),
+        h("td", {}, key.allowed_models ? key.allowed_models.split(",").join(", ") : h("span", { className: "muted" }, "todos")),
+        h("td", {}, key.expires_at ?? h("span", { className: "muted" }, "nunca")),
+        h("td", {}, formatNumber(key.usage_count), key.rpm_limit ? h("div", { className: "muted" }, `${key.rpm_limit}/min`) : null),
+        h("td", {}, formatNumber(tokensToday), key.daily_token_limit ? h("div", { className: "muted" }, `de ${formatNumber(key.daily_token_limit)}`) : null),
+        h("td", {}, key.active_streams, key.max_concurrent_streams ? h("span", { className: "muted" }, ` / ${key.max_concurrent_streams}`) : null),
+        h("td", { className: "mono" }, key.last_used_at ?? "-"),
+        h("td", {},
+          key.is_active
+            ? h("button", { type: "button", className: "small danger", onClick: () => revokeKey(key) }, "Revocar")
+            : null,
+          " ",
+          h("button", { type: "button", className: "small danger", onClick: () => deleteKey(key) }, "Eliminar")));
+    });
+
+    fillRows("key-rows", rows, 12, "No hay API keys. Crea una abajo.");
+  }
+
+  function revokeKey(key) {
+    if (!confirm(`¿Revocar la key #${key.id} (${key.name ?? key.key_prefix})? Los clientes que la usan dejarán de funcionar.`)) return;
+
+    return run(async () => {
+      await api("POST", `keys/${key.id}/revoke`);
+      await loadKeys();
+    });
+  }
+
+  function deleteKey(key) {
+    if (!confirm(`¿Eliminar la key #${key.id} (${key.name ?? key.key_prefix})?`)) return;
+
+    return run(async () => {
+      await api("DELETE", `keys/${key.id}`);
+      await loadKeys();
+    });
+  }
+
+  function createKey(event) {
+    event.preventDefault();
+
+    const body = {};
+    const name = $("key-name").value.trim();
+    const expires = $("key-expires").value.trim();
+    const providers = $("key-providers").value.split(",").map((p) => p.trim()).filter(Boolean);
+    const scopes = SCOPES.filter((scope) => $(`scope-${scope}`).checked);
+    if (name) body.name = name;
+    if (expires) body.expires = expires;
+    if (providers.length > 0) body.providers = providers;
+    body.scopes = scopes;
+
+    return run(async () => {
+      const { key } = await api("POST", "keys", body);
+      $("key-form").reset();
+      $("new-key-value").textContent = key;
+      $("new-key").hidden = false;
+      await loadKeys();
+    });
+  }
+
+  // --- Navigation, login and refresh ---
+
+  const loaders = {
+    overview: loadOverview,
+    providers: loadProviders,
+    requests: loadRequests,
+    keys: loadKeys,
+  };
+
+  function showTab(tab) {
+    state.tab = tab;
+    for (const button of document.querySelectorAll("nav button")) {
+      button.classList.toggle("active", button.dataset.tab === tab);
+    }
+    for (const section of document.querySelectorAll(".tab")) {
+      section.hidden = section.id !== `tab-${tab}`;
+    }
+    $("new-key").hidden = true;
+    return run(loaders[tab]);
+  }
+
+  function setLoggedIn(loggedIn) {
+    $("login").hidden = loggedIn;
+    $("app").hidden = !loggedIn;
+    for (const id of ["refresh", "logout"]) $(id).hidden = !loggedIn;
+    document.querySelector(".auto-refresh").hidden = !loggedIn;
+    if (!loggedIn) $("server-status").textContent = "";
+  }
+
+  function logout(reason) {
+    sessionStorage.removeItem(KEY_STORAGE);
+    setLoggedIn(false);
+    if (reason) showMessage(reason);
+    $("login-key").focus();
+  }
+
+  async function login(event) {
+    event.preventDefault();
+    sessionStorage.setItem(KEY_STORAGE, $("login-key").value.trim());
+    $("login-key").value = "";
+
+    try {
+      await api("GET", "status");
+    } catch (error) {
+      logout(error.message);
+      return;
+    }
+
+    setLoggedIn(true);
+    await showTab(state.tab);
+  }
+
+  /**
+   * Refresh the current tab, unless the user is typing in it.
+   */
+  function autoRefresh() {
+    if ($("app").hidden || !$("auto-refresh").checked || document.visibilityState !== "visible") return;
+
+    const active = document.activeElement;
+    if (active && $("app").contains(active) && (active.tagName === "INPUT" || active.tagName === "SELECT")) return;
+
+    run(loaders[state.tab]);
+  }
+
+  function init() {
+    const scopes = $("key-scopes");
+    for (const scope of SCOPES) {
+      scopes.append(
+        h("label", {},
+          h("input", { type: "checkbox", id: `scope-${scope}`, defaultChecked: DEFAULT_SCOPES.includes(scope) }),
+          ` ${scope} `)
+      );
+    }
+
+    for (const button of document.querySelectorAll("nav button")) {
+      button.addEventListener("click", () => showTab(button.dataset.tab));
+    }
+    $("login-form").addEventListener("submit", login);
+    $("logout").addEventListener("click", () => logout());
+    $("refresh").addEventListener("click", () => run(loaders[state.tab]));
+    $("model-form").addEventListener("submit", addModel);
+    $("models-fallback").addEventListener("change", (event) => updateModels({ enableFallback: event.target.checked }));
+    $("request-filters").addEventListener("submit", (event) => {
+      event.preventDefault();
+      run(loadRequests);
+    });
+    $("key-form").addEventListener("submit", createKey);
+
+    setInterval(autoRefresh, REFRESH_MS);
+
+    if (sessionStorage.getItem(KEY_STORAGE)) {
+      setLoggedIn(true);
+      showTab(state.tab);
+    } else {
+      setLoggedIn(false);
+    }
+  }
+
+  init();
+})();
@@ -4,6 +4,8 @@
  */
 
 import { db } from "./index.ts";
+import { ValidationError } from "./errors.ts";
+import type { ContextStrategy, RoutingStrategy } from "../defaults/types.ts";
 
 export interface ApiKey {
   id: number;
@@ -14,8 +16,59 @@ export interface ApiKey {
   last_used_at: string | null;
   is_active: number;
   usage_count: number;
+  /** What to do with prompts larger than a model's context window. */
+  context_strategy: ContextStrategy;
+  /** Provider ordering for this key's requests, or null for the server default. */
+  routing_strategy: RoutingStrategy | null;
+  /** Requests per minute, or null for no limit. */
+  rpm_limit: number | null;
+  /** Tokens (input plus output) per UTC day, or null for no limit. */
+  daily_token_limit: number | null;
+  /** Chat responses streaming at once, or null for no limit. */
+  max_concurrent_streams: number | null;
+  /** Tokens used on `tokens_used_date` (UTC). */
+  tokens_used_today: number;
+  tokens_used_date: string | null;
+  /** UTC datetime after which the key is rejected, or null if it never expires. */
+  expires_at: string | null;
+  /** Comma-separated scopes, or null for the default (chat, messages, models). */
+  scopes: string | null;
+  /** Comma-separated providers or provider/model IDs the key may use, or null for all. */
+  allowed_models: string | null;
 }
 
+/**
+ * What a key may call: chat (/v1/chat/completions, /v1/responses, /chat),
+ * messages (/v1/messages), models (/v1/models) and admin (/metrics, /admin/*).
+ */
+export type ApiKeyScope = "chat" | "messages" | "models" | "admin";
+
+/**
+ * Per-key access restrictions. null removes a restriction.
+ */
+export interface ApiKeyAccess {
+  /** UTC datetime, e.g. "2026-12-31 23:59:59". */
+  expires_at?: string | null;
+  scopes?: ApiKeyScope[] | null;
+  /** Provider keys or provider/model IDs. */
+  allowed_models?: string[] | null;
+}
+
+/**
+ * Per-key limits. null removes a limit.
+ */
+export interface ApiKeyLimits {
+  rpm_limit?: number | null;
+  daily_token_limit?: number | null;
+  max_concurrent_streams?: number | null;
+}
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = ["skip", "trim"];
+const ROUTING_STRATEGIES: RoutingStrategy[] = ["round-robin", "weighted", "priority", "latency", "quota"];
+const LIMIT_COLUMNS = ["rpm_limit", "daily_token_limit", "max_concurrent_streams"] as const;
+export const API_KEY_SCOPES: ApiKeyScope[] = ["chat", "messages", "models", "admin"];
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
 /**
  * Generate a secure random API key.
  * Format: sk-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx (40 chars total)
@@ -40,21 +93,32 @@ export async function hashApiKey(key: string): Promise<string> {
 }
 
 /**
- * Create a new API key.
+ * Create a new API key, optionally with access restrictions.
  * Returns the plain key (only shown once) and the database record.
  */
-export async function createApiKey(name?: string): Promise<{ key: string; record: ApiKey }> {
+export async function createApiKey(
+  name?: string,
+  access: ApiKeyAccess = {}
+): Promise<{ key: string; record: ApiKey }> {
+  const values = toAccessColumns(access);
   const key = generateApiKey();
   const keyHash = await hashApiKey(key);
   const keyPrefix = key.slice(0, 7) + "..."; // sk-xxx...
 
   const stmt = db.prepare(`
-    INSERT INTO api_keys (key_hash, key_prefix, name)
-    VALUES (?, ?, ?)
+    INSERT INTO api_keys (key_hash, key_prefix, name, expires_at, scopes, allowed_models)
+    VALUES (?, ?, ?, ?, ?, ?)
     RETURNING *
   `);
 
-  const record = stmt.get(keyHash, keyPrefix, name || null) as ApiKey;
+  const record = stmt.get(
+    keyHash,
+    keyPrefix,
+    name || null,
+    values.expires_at ?? null,
+    values.scopes ?? null,
+    values.allowed_models ?? null
+  ) as ApiKey;
 
   return { key, record };
 }
@@ -94,7 +158,9 @@ export async function validateApiKey(key: string): Promise<ApiKey | null> {
  */
 export function listApiKeys(): Omit<ApiKey, "key_hash">[] {
   const stmt = db.prepare(`
-    SELECT id, key_prefix, name, created_at, last_used_at, is_active, usage_count
+    SELECT id, key_prefix, name, created_at, last_used_at, is_active, usage_count, context_strategy, routing_strategy,
+      rpm_limit, daily_token_limit, max_concurrent_streams, tokens_used_today, tokens_used_date,
+      expires_at, scopes, allowed_models
     FROM api_keys
     ORDER BY created_at DESC
   `);
@@ -113,6 +179,91 @@ export function revokeApiKey(id: number): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Set the context window strategy of an API key.
+ */
+export function setContextStrategy(id: number, strategy: ContextStrategy): boolean {
+  if (!CONTEXT_STRATEGIES.includes(strategy)) {
+    throw new ValidationError(`Invalid context strategy "${strategy}". Use one of: ${CONTEXT_STRATEGIES.join(", ")}`);
+  }
+
+  const result = db.run(`
+    UPDATE api_keys SET context_strategy = ? WHERE id = ?
+  `, [strategy, id]);
+
+  return result.changes > 0;
+}
+
+/**
+ * Set the routing strategy of an API key, or null to use the server default.
+ */
+export function setRoutingStrategy(id: number, strategy: RoutingStrategy | null): boolean {
+  if (strategy !== null && !ROUTING_STRATEGIES.includes(strategy)) {
+    throw new ValidationError(`Invalid routing strategy "${strategy}". Use one of: ${ROUTING_STRATEGIES.join(", ")}`);
+  }
+
+  const result = db.run(`
+    UPDATE api_keys SET routing_strategy = ? WHERE id = ?
+  `, [strategy, id]);
+
+  return result.changes > 0;
+}
+
+/**
+ * Set the rate limits of an API key. Limits left out are not changed.
+ */
+export function setApiKeyLimits(id: number, limits: ApiKeyLimits): boolean {
+  const entries = LIMIT_COLUMNS
+    .filter((column) => limits[column] !== undefined)
+    .map((column) => [column, limits[column] as number | null] as const);
+
+  for (const [name, value] of entries) {
+    if (value !== null && (!Number.isInteger(value) || value <= 0)) {
+      throw new ValidationError(`Invalid ${name} ${value}. Use a whole number > 0, or null for no limit`);
+    }
+  }
+  if (entries.length === 0) {
+    return getApiKeyById(id) !== null;
+  }
+
+  const columns = entries.map(([name]) => `${name} = ?`).join(", ");
+  const result = db.run(`
+    UPDATE api_keys SET ${columns} WHERE id = ?
+  `, [...entries.map(([, value]) => value), id]);
+
+  return result.changes > 0;
+}
+
+/**
+ * Set the expiry, scopes and allowed providers/models of an API key.
+ * Restrictions left out are not changed.
+ */
+export function setApiKeyAccess(id: number, access: ApiKeyAccess): boolean {
+  const entries = Object.entries(toAccessColumns(access));
+  if (entries.length === 0) {
+    return getApiKeyById(id) !== null;
+  }
+
+  const columns = entries.map(([name]) => `${name} = ?`).join(", ");
+  const result = db.run(`
+    UPDATE api_keys SET ${columns} WHERE id = ?
+  `, [...entries.map(([, value]) => value), id]);
+
+  return result.changes > 0;
+}
+
+/**
+ * Add tokens to an API key's usage for the current UTC day.
+ */
+export function addApiKeyTokens(id: number, tokens: number): void {
+  db.run(`
+    UPDATE api_keys
+    SET tokens_used_today = CASE WHEN tokens_used_date = date('now') THEN tokens_used_today + ? ELSE ? END,
+        tokens_used_date = date('now')
+    WHERE id = ?
+  `, [tokens, tokens, id]);
+}
+
 /**
  * Delete an API key by ID.
  */
@@ -131,3 +282,36 @@ export function getApiKeyById(id: number): ApiKey | null {
   const stmt = db.prepare("SELECT * FROM api_keys WHERE id = ?");
   return stmt.get(id) as ApiKey | null;
 }
+
+/**
+ * Validate access restrictions and convert them to column values
+ * (only the restrictions that are set).
+ */
+function toAccessColumns(access: ApiKeyAccess): Partial<Record<keyof ApiKeyAccess, string | null>> {
+  const columns: Partial<Record<keyof ApiKeyAccess, string | null>> = {};
+
+  if (access.expires_at !== undefined) {
+    if (access.expires_at !== null && !DATETIME_PATTERN.test(access.expires_at)) {
+      throw new ValidationError(`Invalid expiry "${access.expires_at}". Use a UTC datetime like "2026-12-31 23:59:59"`);
+    }
+    columns.expires_at = access.expires_at;
+  }
+
+  if (access.scopes !== undefined) {
+    const invalid = access.scopes?.find((scope) => !API_KEY_SCOPES.includes(scope));
+    if (invalid !== undefined || access.scopes?.length === 0) {
+      throw new ValidationError(`Invalid scope "${invalid ?? ""}". Use one or more of: ${API_KEY_SCOPES.join(", ")}`);
+    }
+    columns.scopes = access.scopes ? [...new Set(access.scopes)].join(",") : null;
+  }
+
+  if (access.allowed_models !== undefined) {
+    const models = access.allowed_models?.map((m) => m.trim()).filter(Boolean) ?? null;
+    if (models?.length === 0) {
+      throw new ValidationError("Invalid allowed providers/models: the list is empty. Use null to allow all");
+    }
+    columns.allowed_models = models ? models.join(",") : null;
+  }
+
+  return columns;
+}
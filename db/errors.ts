@@ -0,0 +1,14 @@
+/**
+ * Repository errors.
+ */
+
+/**
+ * A value rejected before it is stored (weight, scopes, expiry, limits...).
+ * Callers report it as a client error rather than a server failure.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Migration: Add context_strategy to api_keys
+ */
+
+import { db } from "../index.ts";
+
+export function up(): void {
+  db.exec(`
+    ALTER TABLE api_keys ADD COLUMN context_strategy TEXT NOT NULL DEFAULT 'skip';
+  `);
+}
+
+export function down(): void {
+  db.exec(`
+    ALTER TABLE api_keys DROP COLUMN context_strategy;
+  `);
+}
@@ -0,0 +1,19 @@
+/**
+ * Migration: Add routing_strategy to api_keys and weight to provider_settings
+ */
+
+import { db } from "../index.ts";
+
+export function up(): void {
+  db.exec(`
+    ALTER TABLE api_keys ADD COLUMN routing_strategy TEXT;
+    ALTER TABLE provider_settings ADD COLUMN weight INTEGER NOT NULL DEFAULT 1;
+  `);
+}
+
+export function down(): void {
+  db.exec(`
+    ALTER TABLE api_keys DROP COLUMN routing_strategy;
+    ALTER TABLE provider_settings DROP COLUMN weight;
+  `);
+}
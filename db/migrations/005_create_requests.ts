@@ -0,0 +1,40 @@
+/**
+ * Migration: Create requests table (audit log)
+ */
+
+import { db } from "../index.ts";
+
+export function up(): void {
+  db.exec(`
+    CREATE TABLE requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      api_key_id INTEGER,
+      route TEXT NOT NULL,
+      requested_model TEXT,
+      strategy TEXT,
+      provider_key TEXT,
+      model TEXT,
+      attempts TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL,
+      error TEXT,
+      latency_ms INTEGER,
+      ttft_ms INTEGER,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      request_body TEXT,
+      response_body TEXT
+    );
+
+    CREATE INDEX idx_requests_created_at ON requests(created_at);
+    CREATE INDEX idx_requests_api_key ON requests(api_key_id);
+  `);
+}
+
+export function down(): void {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_requests_api_key;
+    DROP INDEX IF EXISTS idx_requests_created_at;
+    DROP TABLE IF EXISTS requests;
+  `);
+}
@@ -0,0 +1,25 @@
+/**
+ * Migration: Add per-key rate limits and daily token usage to api_keys
+ */
+
+import { db } from "../index.ts";
+
+export function up(): void {
+  db.exec(`
+    ALTER TABLE api_keys ADD COLUMN rpm_limit INTEGER;
+    ALTER TABLE api_keys ADD COLUMN daily_token_limit INTEGER;
+    ALTER TABLE api_keys ADD COLUMN max_concurrent_streams INTEGER;
+    ALTER TABLE api_keys ADD COLUMN tokens_used_today INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE api_keys ADD COLUMN tokens_used_date TEXT;
+  `);
+}
+
+export function down(): void {
+  db.exec(`
+    ALTER TABLE api_keys DROP COLUMN tokens_used_date;
+    ALTER TABLE api_keys DROP COLUMN tokens_used_today;
+    ALTER TABLE api_keys DROP COLUMN max_concurrent_streams;
+    ALTER TABLE api_keys DROP COLUMN daily_token_limit;
+    ALTER TABLE api_keys DROP COLUMN rpm_limit;
+  `);
+}
@@ -0,0 +1,21 @@
+/**
+ * Migration: Add expiry, scopes and allowed providers/models to api_keys
+ */
+
+import { db } from "../index.ts";
+
+export function up(): void {
+  db.exec(`
+    ALTER TABLE api_keys ADD COLUMN expires_at TEXT;
+    ALTER TABLE api_keys ADD COLUMN scopes TEXT;
+    ALTER TABLE api_keys ADD COLUMN allowed_models TEXT;
+  `);
+}
+
+export function down(): void {
+  db.exec(`
+    ALTER TABLE api_keys DROP COLUMN allowed_models;
+    ALTER TABLE api_keys DROP COLUMN scopes;
+    ALTER TABLE api_keys DROP COLUMN expires_at;
+  `);
+}
@@ -4,12 +4,15 @@
  */
 
 import { db } from "./index.ts";
+import { ValidationError } from "./errors.ts";
 
 export interface ProviderSetting {
   id: number;
   provider_key: string;
   is_enabled: number;
   priority: number;
+  /** Relative share of traffic under the "weighted" routing strategy. */
+  weight: number;
   created_at: string;
   updated_at: string;
 }
@@ -88,6 +91,24 @@ export function updateProviderPriority(providerKey: string, priority: number): b
   return result.changes > 0;
 }
 
+/**
+ * Update a provider's weight for the "weighted" routing strategy.
+ * A weight of 0 keeps the provider as a last resort.
+ */
+export function setProviderWeight(providerKey: string, weight: number): boolean {
+  if (!Number.isInteger(weight) || weight < 0) {
+    throw new ValidationError(`Invalid weight ${weight}. Use a whole number >= 0`);
+  }
+
+  const result = db.run(`
+    UPDATE provider_settings
+    SET weight = ?, updated_at = datetime('now')
+    WHERE provider_key = ?
+  `, [weight, providerKey]);
+
+  return result.changes > 0;
+}
+
 /**
  * Reorder providers by setting new priorities.
  * Accepts an array of provider keys in desired order.
@@ -0,0 +1,152 @@
+/**
+ * Request log repository.
+ * Stores one row per chat request for the audit log (see services/audit_log.ts).
+ */
+
+import { db } from "./index.ts";
+
+export type RequestStatus = "success" | "error" | "cancelled";
+
+/**
+ * A provider/model tried while serving a request.
+ */
+export interface RequestAttempt {
+  provider_key: string;
+  model: string;
+  /** Env var name of the pool key used, if any. */
+  key_name: string | null;
+  /** Time until the first event or the failure. */
+  latency_ms: number;
+  /** Null when the attempt started streaming. */
+  error: string | null;
+}
+
+export interface RequestLog {
+  id: number;
+  created_at: string;
+  api_key_id: number | null;
+  route: string;
+  requested_model: string | null;
+  strategy: string | null;
+  /** Provider and model that served the request (the last one, after a mid-stream recovery). */
+  provider_key: string | null;
+  model: string | null;
+  attempts: RequestAttempt[];
+  status: RequestStatus;
+  error: string | null;
+  latency_ms: number | null;
+  ttft_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  /** Only stored with AUDIT_LOG_BODIES=true. */
+  request_body: string | null;
+  response_body: string | null;
+}
+
+export type NewRequestLog = Omit<RequestLog, "id" | "created_at">;
+
+export interface RequestLogFilter {
+  apiKeyId?: number;
+  providerKey?: string;
+  /** Matches the model that served the request or the requested one. */
+  model?: string;
+  status?: RequestStatus;
+  limit?: number;
+  offset?: number;
+}
+
+type RequestLogRow = Omit<RequestLog, "attempts"> & { attempts: string };
+
+function fromRow(row: RequestLogRow): RequestLog {
+  return { ...row, attempts: JSON.parse(row.attempts) as RequestAttempt[] };
+}
+
+/**
+ * Insert a request log entry.
+ */
+export function insertRequestLog(entry: NewRequestLog): number {
+  const stmt = db.prepare(`
+    INSERT INTO requests (
+      api_key_id, route, requested_model, strategy, provider_key, model, attempts, status, error,
+      latency_ms, ttft_ms, input_tokens, output_tokens, request_body, response_body
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING id
+  `);
+
+  const row = stmt.get(
+    entry.api_key_id,
+    entry.route,
+    entry.requested_model,
+    entry.strategy,
+    entry.provider_key,
+    entry.model,
+    JSON.stringify(entry.attempts),
+    entry.status,
+    entry.error,
+    entry.latency_ms,
+    entry.ttft_ms,
+    entry.input_tokens,
+    entry.output_tokens,
+    entry.request_body,
+    entry.response_body
+  ) as { id: number };
+
+  return row.id;
+}
+
+/**
+ * List request log entries, newest first.
+ */
+export function listRequestLogs(filter: RequestLogFilter = {}): RequestLog[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.apiKeyId !== undefined) {
+    conditions.push("api_key_id = ?");
+    params.push(filter.apiKeyId);
+  }
+  if (filter.providerKey) {
+    conditions.push("provider_key = ?");
+    params.push(filter.providerKey);
+  }
+  if (filter.model) {
+    conditions.push("(model = ? OR requested_model = ?)");
+    params.push(filter.model, filter.model);
+  }
+  if (filter.status) {
+    conditions.push("status = ?");
+    params.push(filter.status);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const stmt = db.prepare(`
+    SELECT * FROM requests
+    ${where}
+    ORDER BY id DESC
+    LIMIT ? OFFSET ?
+  `);
+
+  const rows = stmt.all(...params, filter.limit ?? 50, filter.offset ?? 0) as RequestLogRow[];
+  return rows.map(fromRow);
+}
+
+/**
+ * Get a request log entry by ID.
+ */
+export function getRequestLog(id: number): RequestLog | null {
+  const row = db.prepare("SELECT * FROM requests WHERE id = ?").get(id) as RequestLogRow | null;
+  return row ? fromRow(row) : null;
+}
+
+/**
+ * Delete entries older than `retentionDays`.
+ * Returns the number of deleted entries.
+ */
+export function pruneRequestLogs(retentionDays: number): number {
+  const result = db.run(`
+    DELETE FROM requests WHERE created_at < datetime('now', ?)
+  `, [`-${retentionDays} days`]);
+
+  return result.changes;
+}
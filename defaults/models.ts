@@ -20,6 +20,9 @@ export {
   getProviderModels,
   getDefaultModel,
   isProviderFallbackEnabled,
+  getModelId,
+  getModelIds,
+  getModelCapabilities,
   validateModelsConfig,
   addModel,
   removeModel,
@@ -29,6 +32,9 @@ export {
   updateModel,
   type ModelsConfig,
   type ProviderModelConfig,
+  type ModelEntry,
+  type ModelConfig,
+  type ModelCapabilities,
 } from "../services/models_config";
 
 /**
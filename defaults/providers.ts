@@ -5,7 +5,9 @@
  * Use getProviderParams() to get params with the current default model.
  */
 
-import { getDefaultModel } from "./models";
+import { getDefaultModel, getModelCapabilities } from "./models";
+import { getProvidersConfig, getCustomProvider, ProvidersConfigError } from "../services/providers_config";
+import type { ChatRequestOptions } from "./types";
 
 const defaults = {
   max_completion_tokens: 4096,
@@ -48,54 +50,246 @@ const providerBaseParams = {
 export type ProviderKey = keyof typeof providerBaseParams;
 
 /**
- * Provider definitions.
+ * Sampling params each provider accepts from client requests.
+ * Values outside a range are clamped; unsupported params are dropped.
  */
-export const providers: Record<ProviderKey, {
+interface SamplingSupport {
+  temperature: [number, number];
+  topK: boolean;
+  penalties: boolean;
+  /** Max stop sequences accepted (0 = not supported). */
+  maxStop: number;
+  /** Provider-wide ceiling for max output tokens. */
+  maxOutputTokens?: number;
+}
+
+const samplingSupport: Record<ProviderKey, SamplingSupport> = {
+  cerebras: {
+    temperature: [0, 1.5],
+    topK: false,
+    penalties: false,
+    maxStop: 4,
+    maxOutputTokens: 8192,
+  },
+  groq: {
+    temperature: [0, 2],
+    topK: false,
+    penalties: false,
+    maxStop: 4,
+    maxOutputTokens: 16384,
+  },
+  openrouter: {
+    temperature: [0, 2],
+    topK: false,
+    penalties: true,
+    maxStop: 4,
+    maxOutputTokens: 16384,
+  },
+  gemini: {
+    temperature: [0, 2],
+    topK: true,
+    penalties: false,
+    maxStop: 5,
+    maxOutputTokens: 65536,
+  },
+  ollama: {
+    temperature: [0, 2],
+    topK: false,
+    penalties: true,
+    maxStop: 4,
+  },
+};
+
+/**
+ * Sampling support assumed for custom OpenAI-compatible providers.
+ */
+const customSamplingSupport: SamplingSupport = {
+  temperature: [0, 2],
+  topK: false,
+  penalties: true,
+  maxStop: 4,
+};
+
+export interface ProviderDefinition {
   name: string;
   apiKeyName: string;
-}> = {
+  supportsTools: boolean;
+}
+
+/**
+ * Built-in provider definitions.
+ */
+export const providers: Record<ProviderKey, ProviderDefinition> = {
   cerebras: {
     name: "Cerebras",
     apiKeyName: "CEREBRAS_API_KEY",
+    supportsTools: true,
   },
   groq: {
     name: "Groq",
     apiKeyName: "GROQ_API_KEY",
+    supportsTools: true,
   },
   openrouter: {
     name: "OpenRouter",
     apiKeyName: "OPENROUTER_API_KEY",
+    supportsTools: true,
   },
   gemini: {
     name: "Gemini",
     apiKeyName: "GEMINI_API_KEY",
+    supportsTools: true,
   },
   ollama: {
     name: "Ollama",
     apiKeyName: "OLLAMA_ENABLED",
+    supportsTools: true,
   },
 };
 
+function isBuiltInProvider(providerKey: string): providerKey is ProviderKey {
+  return Object.hasOwn(providers, providerKey);
+}
+
+/**
+ * Get built-in and custom (providers.json) provider definitions.
+ * Throws ProvidersConfigError if a custom provider reuses a built-in key.
+ */
+export function getProviderDefinitions(): Record<string, ProviderDefinition> {
+  const definitions: Record<string, ProviderDefinition> = { ...providers };
+
+  for (const [key, custom] of Object.entries(getProvidersConfig())) {
+    if (isBuiltInProvider(key)) {
+      throw new ProvidersConfigError(`Provider "${key}" is built in and can't be redefined in providers.json`);
+    }
+    definitions[key] = {
+      name: custom.name,
+      apiKeyName: custom.apiKeyName,
+      supportsTools: custom.supportsTools ?? true,
+    };
+  }
+
+  return definitions;
+}
+
+/**
+ * Get a provider definition, built-in or custom, or null if unknown.
+ */
+export function getProviderDefinition(providerKey: string): ProviderDefinition | null {
+  return getProviderDefinitions()[providerKey] ?? null;
+}
+
+/**
+ * Get the base params of a provider. Custom providers get the common
+ * defaults overridden by their `params` from providers.json.
+ */
+function getBaseParams(providerKey: string): Record<string, any> {
+  if (isBuiltInProvider(providerKey)) {
+    return providerBaseParams[providerKey];
+  }
+
+  const custom = getCustomProvider(providerKey);
+  if (!custom) {
+    throw new Error(`Unknown provider: ${providerKey}`);
+  }
+  return { ...defaults, ...custom.params };
+}
+
 /**
  * Get provider params with the specified model (or default model from config).
+ * Client sampling params override the defaults; tool definitions are added when present.
+ * Max output tokens are capped at the model's `maxOutput` from models.json.
  */
-export function getProviderParams(providerKey: ProviderKey, model?: string): Record<string, any> {
-  const baseParams = providerBaseParams[providerKey];
+export function getProviderParams(
+  providerKey: string,
+  model?: string,
+  options: ChatRequestOptions = {}
+): Record<string, any> {
+  const baseParams = getBaseParams(providerKey);
   const modelToUse = model ?? getDefaultModel(providerKey);
 
   if (!modelToUse) {
     throw new Error(`No model configured for provider: ${providerKey}`);
   }
 
-  return {
+  const params: Record<string, any> = {
     model: modelToUse,
     ...baseParams,
+    ...getSamplingParams(providerKey, options),
   };
+
+  // Never ask a model for more output than it can produce
+  const { maxOutput } = getModelCapabilities(providerKey, modelToUse);
+  if (maxOutput && params.max_completion_tokens > maxOutput) {
+    params.max_completion_tokens = maxOutput;
+  }
+
+  if (options.tools && options.tools.length > 0) {
+    params.tools = options.tools;
+    if (options.tool_choice) {
+      params.tool_choice = options.tool_choice;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Translate client sampling params to what the provider supports.
+ * Max tokens is always sent as max_completion_tokens; client adapters rename it.
+ */
+export function getSamplingParams(
+  providerKey: string,
+  options: ChatRequestOptions = {}
+): Record<string, any> {
+  const support = isBuiltInProvider(providerKey) ? samplingSupport[providerKey] : customSamplingSupport;
+  const params: Record<string, any> = {};
+
+  if (options.temperature !== undefined) {
+    params.temperature = clamp(options.temperature, ...support.temperature);
+  }
+  if (options.top_p !== undefined) {
+    params.top_p = clamp(options.top_p, 0, 1);
+  }
+  if (options.top_k !== undefined && support.topK) {
+    params.top_k = Math.max(1, Math.round(options.top_k));
+  }
+  if (options.max_tokens !== undefined) {
+    params.max_completion_tokens = clamp(
+      Math.round(options.max_tokens),
+      1,
+      support.maxOutputTokens ?? Number.MAX_SAFE_INTEGER
+    );
+  }
+  if (options.stop && options.stop.length > 0 && support.maxStop > 0) {
+    params.stop = options.stop.slice(0, support.maxStop);
+  }
+  if (support.penalties) {
+    if (options.frequency_penalty !== undefined) {
+      params.frequency_penalty = clamp(options.frequency_penalty, -2, 2);
+    }
+    if (options.presence_penalty !== undefined) {
+      params.presence_penalty = clamp(options.presence_penalty, -2, 2);
+    }
+  }
+
+  return params;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Check if a request with these options needs a tool-capable model.
+ */
+export function requiresTools(options: ChatRequestOptions = {}): boolean {
+  return !!options.tools && options.tools.length > 0 && options.tool_choice !== "none";
 }
 
 /**
- * Get all provider keys.
+ * Get all provider keys, built-in and custom.
  */
-export function getProviderKeys(): ProviderKey[] {
-  return Object.keys(providers) as ProviderKey[];
+export function getProviderKeys(): string[] {
+  return Object.keys(getProviderDefinitions());
 }
@@ -1,11 +1,181 @@
+/**
+ * A tool call requested by the assistant (OpenAI format).
+ */
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A tool the model may call (OpenAI function tool format).
+ */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+}
+
+export type ToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+/**
+ * Text part of a multimodal message.
+ */
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Image part of a multimodal message (OpenAI format).
+ * `url` is either an http(s) URL or a base64 data URL.
+ */
+export interface ImagePart {
+  type: "image_url";
+  image_url: {
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+export type ContentPart = TextPart | ImagePart;
+
+/**
+ * Message content: plain text, or parts when the message carries images.
+ */
+export type MessageContent = string | ContentPart[];
+
 export interface ChatMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: MessageContent;
+  /** Tool calls made by the assistant in this turn. */
+  tool_calls?: ToolCall[];
+  /** For role "tool": the id of the call this message answers. */
+  tool_call_id?: string;
+  /** For role "tool": the name of the function that produced the result. */
+  name?: string;
+}
+
+/**
+ * Text generated by the model.
+ */
+export interface TextDelta {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Incremental piece of a tool call emitted while streaming.
+ * The first delta for an index carries id and name; later ones append arguments.
+ */
+export interface ToolCallDelta {
+  type: "tool_call";
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+/**
+ * Token usage reported by the provider, usually at the end of a stream.
+ */
+export interface UsageEvent {
+  type: "usage";
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Why the model stopped generating.
+ */
+export type FinishReason = "stop" | "length" | "tool_calls" | "stop_sequence" | "content_filter";
+
+/**
+ * End of generation. `stopSequence` is the matched stop sequence, when the
+ * provider reports it.
+ */
+export interface FinishEvent {
+  type: "finish";
+  reason: FinishReason;
+  stopSequence?: string;
+}
+
+/**
+ * The stream failed after it started and could not be recovered.
+ * Always the last event of a stream.
+ */
+export interface ErrorEvent {
+  type: "error";
+  message: string;
+}
+
+/**
+ * A single event of the internal chat stream.
+ */
+export type ChatStreamEvent = TextDelta | ToolCallDelta | UsageEvent | FinishEvent | ErrorEvent;
+
+/**
+ * What to do when the prompt does not fit a model's context window:
+ * skip to a model with a larger window, or drop middle turns to fit.
+ */
+export type ContextStrategy = "skip" | "trim";
+
+/**
+ * How the rotation orders providers for a request (see services/routing.ts).
+ */
+export type RoutingStrategy = "round-robin" | "weighted" | "priority" | "latency" | "quota";
+
+/**
+ * Where a request came from, for the audit log (see services/audit_log.ts).
+ */
+export interface RequestOrigin {
+  /** Endpoint path, e.g. "/v1/chat/completions". */
+  route: string;
+  apiKeyId?: number;
+}
+
+/**
+ * Options from the client request that are forwarded to the provider.
+ * Sampling params are translated per provider; unsupported ones are dropped.
+ */
+export interface ChatRequestOptions {
+  /** Requested model name, used for routing only (see services/model_router.ts). */
+  model?: string;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  max_tokens?: number;
+  stop?: string[];
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  /** Aborts the upstream call when the client disconnects. Not sent to providers. */
+  signal?: AbortSignal;
+  /** Per-API-key context window strategy (default "skip"). Not sent to providers. */
+  contextStrategy?: ContextStrategy;
+  /** Provider ordering for the rotation (default from ROUTING_STRATEGY). Not sent to providers. */
+  routingStrategy?: RoutingStrategy;
+  /** Logs the request to the audit log when set. Not sent to providers. */
+  origin?: RequestOrigin;
+  /** Providers or provider/model IDs the API key may use (default all). Not sent to providers. */
+  allowedModels?: string[];
 }
 
 export interface AIService {
   name: string;
-  chat(messages: ChatMessage[]): AsyncIterable<string>;
+  /** `signal` aborts the upstream call (e.g. when the client disconnects). */
+  chat(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<ChatStreamEvent>;
 }
 
 /**
@@ -15,6 +185,8 @@ export interface AIService {
 export interface AIServiceWithModel extends AIService {
   providerKey: string;
   model: string;
+  /** Env var name of the pool key the service calls with, if any. */
+  keyName?: string;
 }
 
 /**
@@ -27,4 +199,6 @@ export interface ActiveProvider {
   defaultModel: string;
   enableFallback: boolean;
   priority: number;
+  /** Relative share of traffic under the "weighted" strategy (default 1). */
+  weight?: number;
 }
@@ -3,11 +3,19 @@
  * Transforms internal chat stream to Anthropic streaming format.
  */
 
+import type { ChatStreamEvent, FinishEvent, ToolCallDelta } from "@defaults/types";
+import { collectToolCalls, parseToolArguments } from "./tool_calls.ts";
+import { UsageTracker, type UsageContext } from "./usage.ts";
+
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, any> };
+
 export interface AnthropicMessage {
   id: string;
   type: "message";
   role: "assistant";
-  content: { type: "text"; text: string }[];
+  content: AnthropicContentBlock[];
   model: string;
   stop_reason: string | null;
   stop_sequence: string | null;
@@ -22,13 +30,22 @@ function generateMessageId(): string {
 }
 
 /**
- * Formats an async stream of text chunks into Anthropic SSE format.
+ * Formats the internal event stream into Anthropic SSE format.
+ *
+ * Text is emitted as a text content block. Each tool call opens its own
+ * tool_use block whose arguments are streamed as input_json_delta events.
+ * A stream error ends it with an in-band error event instead of message_stop.
+ *
+ * message_start carries the estimated input tokens; message_delta carries the
+ * final usage, as reported by the provider when available.
  */
 export async function* formatAnthropicStream(
-  stream: AsyncIterable<string>,
-  model: string = "aicarousel"
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {}
 ): AsyncGenerator<string> {
   const msgId = generateMessageId();
+  const tracker = new UsageTracker(usageContext);
 
   // message_start event
   yield formatSSE("message_start", {
@@ -42,56 +59,124 @@ export async function* formatAnthropicStream(
       stop_reason: null,
       stop_sequence: null,
       usage: {
-        input_tokens: 0,
+        input_tokens: tracker.usage.inputTokens,
         output_tokens: 0,
       },
     },
   });
 
-  // content_block_start event
-  yield formatSSE("content_block_start", {
-    type: "content_block_start",
-    index: 0,
-    content_block: {
-      type: "text",
-      text: "",
-    },
-  });
+  // Currently open content block, and the tool call index it belongs to
+  let blockIndex = -1;
+  let openBlock: "text" | "tool_use" | null = null;
+  let openToolIndex: number | null = null;
+  let hasToolUse = false;
+  let finish: FinishEvent | null = null;
+
+  try {
+    for await (const event of stream) {
+      if (event.type === "usage") {
+        tracker.report(event);
+        continue;
+      }
+      if (event.type === "finish") {
+        finish = event;
+        continue;
+      }
+      if (event.type === "error") {
+        yield formatSSE("error", formatAnthropicError(event.message, "api_error"));
+        return;
+      }
+
+      if (event.type === "text") {
+        if (!event.text) continue;
+        if (openBlock !== "text") {
+          if (openBlock) yield formatBlockStop(blockIndex);
+          blockIndex++;
+          openBlock = "text";
+          openToolIndex = null;
+          yield formatSSE("content_block_start", {
+            type: "content_block_start",
+            index: blockIndex,
+            content_block: {
+              type: "text",
+              text: "",
+            },
+          });
+        }
+
+        tracker.addOutput(event.text);
+
+        yield formatSSE("content_block_delta", {
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: {
+            type: "text_delta",
+            text: event.text,
+          },
+        });
+        continue;
+      }
+
+      if (openBlock !== "tool_use" || openToolIndex !== event.index) {
+        if (openBlock) yield formatBlockStop(blockIndex);
+        blockIndex++;
+        openBlock = "tool_use";
+        openToolIndex = event.index;
+        hasToolUse = true;
+        yield formatSSE("content_block_start", {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: {
+            type: "tool_use",
+            id: event.id ?? generateToolUseId(),
+            name: event.name ?? "",
+            input: {},
+          },
+        });
+      }
 
-  let outputTokens = 0;
-
-  // Stream content deltas
-  for await (const content of stream) {
-    if (content) {
-      // Rough token estimation
-      outputTokens += Math.ceil(content.length / 4);
-
-      yield formatSSE("content_block_delta", {
-        type: "content_block_delta",
-        index: 0,
-        delta: {
-          type: "text_delta",
-          text: content,
-        },
-      });
+      if (event.arguments) {
+        tracker.addOutput(event.arguments);
+
+        yield formatSSE("content_block_delta", {
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: {
+            type: "input_json_delta",
+            partial_json: event.arguments,
+          },
+        });
+      }
     }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Stream interrupted";
+    yield formatSSE("error", formatAnthropicError(message, "api_error"));
+    return;
+  }
+
+  // An empty response still carries one (empty) text block
+  if (!openBlock) {
+    blockIndex++;
+    yield formatSSE("content_block_start", {
+      type: "content_block_start",
+      index: blockIndex,
+      content_block: {
+        type: "text",
+        text: "",
+      },
+    });
   }
 
   // content_block_stop event
-  yield formatSSE("content_block_stop", {
-    type: "content_block_stop",
-    index: 0,
-  });
+  yield formatBlockStop(blockIndex);
 
   // message_delta event (final usage and stop reason)
   yield formatSSE("message_delta", {
     type: "message_delta",
-    delta: {
-      stop_reason: "end_turn",
-      stop_sequence: null,
-    },
+    delta: toAnthropicStop(finish, hasToolUse),
     usage: {
-      output_tokens: outputTokens,
+      input_tokens: tracker.usage.inputTokens,
+      output_tokens: tracker.usage.outputTokens,
     },
   });
 
@@ -103,40 +188,108 @@ export async function* formatAnthropicStream(
 
 /**
  * Collects stream and formats as non-streaming Anthropic response.
+ * A stream error is thrown, since the response has not been sent yet.
  */
 export async function formatAnthropicComplete(
-  stream: AsyncIterable<string>,
-  model: string = "aicarousel"
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {}
 ): Promise<AnthropicMessage> {
   const msgId = generateMessageId();
+  const tracker = new UsageTracker(usageContext);
 
   let content = "";
-  for await (const chunk of stream) {
-    content += chunk;
+  const toolCallDeltas: ToolCallDelta[] = [];
+  let finish: FinishEvent | null = null;
+  for await (const event of stream) {
+    switch (event.type) {
+      case "text":
+        content += event.text;
+        break;
+      case "tool_call":
+        toolCallDeltas.push(event);
+        break;
+      case "usage":
+        tracker.report(event);
+        break;
+      case "finish":
+        finish = event;
+        break;
+      case "error":
+        throw new Error(event.message);
+    }
   }
 
-  const outputTokens = Math.ceil(content.length / 4);
+  const toolCalls = collectToolCalls(toolCallDeltas);
+  tracker.addOutput(content);
+  for (const call of toolCalls) {
+    tracker.addOutput(call.function.arguments);
+  }
+
+  const blocks: AnthropicContentBlock[] = [];
+  if (content || toolCalls.length === 0) {
+    blocks.push({
+      type: "text",
+      text: content,
+    });
+  }
+  for (const call of toolCalls) {
+    blocks.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function.name,
+      input: parseToolArguments(call.function.arguments),
+    });
+  }
 
   return {
     id: msgId,
     type: "message",
     role: "assistant",
-    content: [
-      {
-        type: "text",
-        text: content,
-      },
-    ],
+    content: blocks,
     model,
-    stop_reason: "end_turn",
-    stop_sequence: null,
+    ...toAnthropicStop(finish, toolCalls.length > 0),
     usage: {
-      input_tokens: 0,
-      output_tokens: outputTokens,
+      input_tokens: tracker.usage.inputTokens,
+      output_tokens: tracker.usage.outputTokens,
     },
   };
 }
 
+/**
+ * Map the internal finish reason to Anthropic's stop_reason and stop_sequence.
+ * Emitted tool calls win over whatever the provider said.
+ */
+function toAnthropicStop(
+  finish: FinishEvent | null,
+  hasToolUse: boolean
+): { stop_reason: string; stop_sequence: string | null } {
+  if (hasToolUse) {
+    return { stop_reason: "tool_use", stop_sequence: null };
+  }
+  switch (finish?.reason) {
+    case "length":
+      return { stop_reason: "max_tokens", stop_sequence: null };
+    case "stop_sequence":
+      return { stop_reason: "stop_sequence", stop_sequence: finish.stopSequence ?? null };
+    case "content_filter":
+      return { stop_reason: "refusal", stop_sequence: null };
+    default:
+      return { stop_reason: "end_turn", stop_sequence: null };
+  }
+}
+
+function generateToolUseId(): string {
+  return `toolu_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+function formatBlockStop(index: number): string {
+  return formatSSE("content_block_stop", {
+    type: "content_block_stop",
+    index,
+  });
+}
+
 /**
  * Format a single SSE event with event type and data.
  */
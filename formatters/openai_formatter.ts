@@ -3,6 +3,20 @@
  * Transforms internal chat stream to OpenAI chat/completions streaming format.
  */
 
+import type { ChatStreamEvent, FinishEvent, ToolCall, ToolCallDelta } from "@defaults/types";
+import { collectToolCalls } from "./tool_calls.ts";
+import { UsageTracker, type UsageContext } from "./usage.ts";
+
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface OpenAIChatCompletionChunk {
   id: string;
   object: "chat.completion.chunk";
@@ -13,9 +27,18 @@ export interface OpenAIChatCompletionChunk {
     delta: {
       role?: "assistant";
       content?: string;
+      tool_calls?: OpenAIToolCallDelta[];
     };
     finish_reason: string | null;
   }[];
+  /** Only on the extra last chunk sent for stream_options.include_usage. */
+  usage?: OpenAIUsage;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 }
 
 export interface OpenAIChatCompletion {
@@ -27,15 +50,12 @@ export interface OpenAIChatCompletion {
     index: number;
     message: {
       role: "assistant";
-      content: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
     };
     finish_reason: string;
   }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: OpenAIUsage;
 }
 
 function generateId(): string {
@@ -43,20 +63,52 @@ function generateId(): string {
 }
 
 /**
- * Formats an async stream of text chunks into OpenAI SSE format.
+ * Formats the internal event stream into OpenAI SSE format.
+ * A stream error ends it with an in-band error event instead of [DONE].
+ *
+ * With `includeUsage` (stream_options.include_usage) an extra chunk with
+ * empty choices and the usage is sent before [DONE], as OpenAI does.
  */
 export async function* formatOpenAIStream(
-  stream: AsyncIterable<string>,
-  model: string = "aicarousel"
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {},
+  includeUsage: boolean = false
 ): AsyncGenerator<string> {
   const id = generateId();
   const created = Math.floor(Date.now() / 1000);
+  const tracker = new UsageTracker(usageContext);
 
   // First chunk includes role
   let isFirst = true;
+  let hasToolCalls = false;
+  let finish: FinishEvent | null = null;
+
+  try {
+    for await (const event of stream) {
+      let delta: OpenAIChatCompletionChunk["choices"][number]["delta"];
+      switch (event.type) {
+        case "text":
+          if (!event.text) continue;
+          tracker.addOutput(event.text);
+          delta = { content: event.text };
+          break;
+        case "tool_call":
+          hasToolCalls = true;
+          tracker.addOutput(event.arguments ?? "");
+          delta = { tool_calls: [formatToolCallDelta(event)] };
+          break;
+        case "usage":
+          tracker.report(event);
+          continue;
+        case "finish":
+          finish = event;
+          continue;
+        case "error":
+          yield formatOpenAIStreamError(event.message);
+          return;
+      }
 
-  for await (const content of stream) {
-    if (content) {
       const chunk: OpenAIChatCompletionChunk = {
         id,
         object: "chat.completion.chunk",
@@ -65,9 +117,7 @@ export async function* formatOpenAIStream(
         choices: [
           {
             index: 0,
-            delta: isFirst
-              ? { role: "assistant", content }
-              : { content },
+            delta: isFirst ? { role: "assistant", ...delta } : delta,
             finish_reason: null,
           },
         ],
@@ -75,6 +125,9 @@ export async function* formatOpenAIStream(
       isFirst = false;
       yield `data: ${JSON.stringify(chunk)}\n\n`;
     }
+  } catch (error) {
+    yield formatOpenAIStreamError(error instanceof Error ? error.message : "Stream interrupted");
+    return;
   }
 
   // Final chunk with finish_reason
@@ -87,31 +140,115 @@ export async function* formatOpenAIStream(
       {
         index: 0,
         delta: {},
-        finish_reason: "stop",
+        finish_reason: toOpenAIFinishReason(finish, hasToolCalls),
       },
     ],
   };
   yield `data: ${JSON.stringify(finalChunk)}\n\n`;
+
+  if (includeUsage) {
+    const usageChunk: OpenAIChatCompletionChunk = {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [],
+      usage: formatUsage(tracker),
+    };
+    yield `data: ${JSON.stringify(usageChunk)}\n\n`;
+  }
   yield "data: [DONE]\n\n";
 }
 
+/**
+ * Map the internal finish reason to OpenAI's. A stop sequence is just "stop";
+ * emitted tool calls win over whatever the provider said.
+ */
+function toOpenAIFinishReason(finish: FinishEvent | null, hasToolCalls: boolean): string {
+  if (hasToolCalls) return "tool_calls";
+  switch (finish?.reason) {
+    case "length":
+      return "length";
+    case "content_filter":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+function formatUsage(tracker: UsageTracker): OpenAIUsage {
+  const { inputTokens, outputTokens } = tracker.usage;
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Format a stream failure as an in-band OpenAI error event.
+ */
+function formatOpenAIStreamError(message: string): string {
+  return `data: ${JSON.stringify(formatOpenAIError(message, "server_error", "stream_interrupted"))}\n\n`;
+}
+
+/**
+ * Convert an internal tool call delta to the OpenAI delta shape.
+ * Only the first delta of a call carries id, type and name.
+ */
+function formatToolCallDelta(call: ToolCallDelta): OpenAIToolCallDelta {
+  const delta: OpenAIToolCallDelta = { index: call.index };
+  if (call.id) {
+    delta.id = call.id;
+    delta.type = "function";
+  }
+  delta.function = { arguments: call.arguments ?? "" };
+  if (call.name) {
+    delta.function.name = call.name;
+  }
+  return delta;
+}
+
 /**
  * Collects stream and formats as non-streaming OpenAI response.
+ * A stream error is thrown, since the response has not been sent yet.
  */
 export async function formatOpenAIComplete(
-  stream: AsyncIterable<string>,
-  model: string = "aicarousel"
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {}
 ): Promise<OpenAIChatCompletion> {
   const id = generateId();
   const created = Math.floor(Date.now() / 1000);
+  const tracker = new UsageTracker(usageContext);
 
   let content = "";
-  for await (const chunk of stream) {
-    content += chunk;
+  const toolCallDeltas: ToolCallDelta[] = [];
+  let finish: FinishEvent | null = null;
+  for await (const event of stream) {
+    switch (event.type) {
+      case "text":
+        content += event.text;
+        break;
+      case "tool_call":
+        toolCallDeltas.push(event);
+        break;
+      case "usage":
+        tracker.report(event);
+        break;
+      case "finish":
+        finish = event;
+        break;
+      case "error":
+        throw new Error(event.message);
+    }
   }
 
-  // Rough token estimation (chars / 4)
-  const completionTokens = Math.ceil(content.length / 4);
+  const toolCalls = collectToolCalls(toolCallDeltas);
+  tracker.addOutput(content);
+  for (const call of toolCalls) {
+    tracker.addOutput(call.function.arguments);
+  }
 
   return {
     id,
@@ -121,18 +258,13 @@ export async function formatOpenAIComplete(
     choices: [
       {
         index: 0,
-        message: {
-          role: "assistant",
-          content,
-        },
-        finish_reason: "stop",
+        message: toolCalls.length > 0
+          ? { role: "assistant", content: content || null, tool_calls: toolCalls }
+          : { role: "assistant", content },
+        finish_reason: toOpenAIFinishReason(finish, toolCalls.length > 0),
       },
     ],
-    usage: {
-      prompt_tokens: 0, // We don't have this info
-      completion_tokens: completionTokens,
-      total_tokens: completionTokens,
-    },
+    usage: formatUsage(tracker),
   };
 }
 
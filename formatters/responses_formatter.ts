@@ -0,0 +1,332 @@
+/**
+ * OpenAI Responses API formatter.
+ * Transforms internal chat stream to the /v1/responses object and its typed SSE events.
+ */
+
+import type { ChatStreamEvent, FinishEvent, ToolCallDelta } from "@defaults/types";
+import { collectToolCalls } from "./tool_calls.ts";
+import { UsageTracker, type UsageContext } from "./usage.ts";
+
+export interface ResponsesOutputText {
+  type: "output_text";
+  text: string;
+  annotations: never[];
+}
+
+export type ResponsesOutputItem =
+  | {
+      type: "message";
+      id: string;
+      status: "in_progress" | "completed" | "incomplete";
+      role: "assistant";
+      content: ResponsesOutputText[];
+    }
+  | {
+      type: "function_call";
+      id: string;
+      call_id: string;
+      name: string;
+      arguments: string;
+      status: "in_progress" | "completed" | "incomplete";
+    };
+
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  output: ResponsesOutputItem[];
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    input_tokens_details: { cached_tokens: number };
+    output_tokens_details: { reasoning_tokens: number };
+  } | null;
+  incomplete_details: { reason: "max_output_tokens" | "content_filter" } | null;
+  error: { code: string; message: string } | null;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Build a response object. Items still streaming are left out of `output`.
+ */
+function createResponse(id: string, createdAt: number, model: string): ResponsesResponse {
+  return {
+    id,
+    object: "response",
+    created_at: createdAt,
+    status: "in_progress",
+    model,
+    output: [],
+    usage: null,
+    incomplete_details: null,
+    error: null,
+  };
+}
+
+/**
+ * Set the final status, output and usage of a response.
+ */
+function completeResponse(
+  response: ResponsesResponse,
+  output: ResponsesOutputItem[],
+  finish: FinishEvent | null,
+  tracker: UsageTracker
+): ResponsesResponse {
+  const { inputTokens, outputTokens } = tracker.usage;
+  const incomplete =
+    finish?.reason === "length" ? "max_output_tokens" : finish?.reason === "content_filter" ? "content_filter" : null;
+
+  return {
+    ...response,
+    status: incomplete ? "incomplete" : "completed",
+    output,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens_details: { reasoning_tokens: 0 },
+    },
+    incomplete_details: incomplete ? { reason: incomplete } : null,
+  };
+}
+
+/**
+ * Formats the internal event stream into Responses API SSE events.
+ *
+ * Text goes into one message item; each tool call becomes a function_call
+ * item whose arguments are streamed as function_call_arguments deltas.
+ * The stream ends with response.completed (or response.incomplete when the
+ * output was cut off); a stream error ends it with response.failed.
+ */
+export async function* formatResponsesStream(
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {}
+): AsyncGenerator<string> {
+  const tracker = new UsageTracker(usageContext);
+  const response = createResponse(generateId("resp"), Math.floor(Date.now() / 1000), model);
+  const output: ResponsesOutputItem[] = [];
+  let sequence = 0;
+  const event = (type: string, data: object) =>
+    formatSSE(type, { type, sequence_number: sequence++, ...data });
+
+  // Currently open output item, and the tool call index it belongs to
+  let openItem: ResponsesOutputItem | null = null;
+  let openToolIndex: number | null = null;
+  let finish: FinishEvent | null = null;
+
+  function* closeItem(): Generator<string> {
+    if (!openItem) return;
+    const outputIndex = output.length;
+    openItem.status = "completed";
+
+    if (openItem.type === "message") {
+      const part = openItem.content[0]!;
+      yield event("response.output_text.done", {
+        item_id: openItem.id,
+        output_index: outputIndex,
+        content_index: 0,
+        text: part.text,
+      });
+      yield event("response.content_part.done", {
+        item_id: openItem.id,
+        output_index: outputIndex,
+        content_index: 0,
+        part,
+      });
+    } else {
+      yield event("response.function_call_arguments.done", {
+        item_id: openItem.id,
+        output_index: outputIndex,
+        arguments: openItem.arguments,
+      });
+    }
+
+    yield event("response.output_item.done", { output_index: outputIndex, item: openItem });
+    output.push(openItem);
+    openItem = null;
+    openToolIndex = null;
+  }
+
+  yield event("response.created", { response });
+  yield event("response.in_progress", { response });
+
+  try {
+    for await (const chunk of stream) {
+      switch (chunk.type) {
+        case "usage":
+          tracker.report(chunk);
+          continue;
+        case "finish":
+          finish = chunk;
+          continue;
+        case "error":
+          yield* closeItem();
+          yield formatResponsesFailed(event, response, output, chunk.message);
+          return;
+        case "text":
+          if (!chunk.text) continue;
+          if (openItem?.type !== "message") {
+            yield* closeItem();
+            openItem = {
+              type: "message",
+              id: generateId("msg"),
+              status: "in_progress",
+              role: "assistant",
+              content: [],
+            };
+            yield event("response.output_item.added", { output_index: output.length, item: openItem });
+            const part: ResponsesOutputText = { type: "output_text", text: "", annotations: [] };
+            yield event("response.content_part.added", {
+              item_id: openItem.id,
+              output_index: output.length,
+              content_index: 0,
+              part,
+            });
+            openItem.content.push(part);
+          }
+
+          tracker.addOutput(chunk.text);
+          openItem.content[0]!.text += chunk.text;
+          yield event("response.output_text.delta", {
+            item_id: openItem.id,
+            output_index: output.length,
+            content_index: 0,
+            delta: chunk.text,
+          });
+          continue;
+        case "tool_call":
+          if (openItem?.type !== "function_call" || openToolIndex !== chunk.index) {
+            yield* closeItem();
+            openItem = {
+              type: "function_call",
+              id: generateId("fc"),
+              call_id: chunk.id ?? generateId("call"),
+              name: chunk.name ?? "",
+              arguments: "",
+              status: "in_progress",
+            };
+            openToolIndex = chunk.index;
+            yield event("response.output_item.added", { output_index: output.length, item: openItem });
+          }
+
+          if (chunk.arguments) {
+            tracker.addOutput(chunk.arguments);
+            openItem.arguments += chunk.arguments;
+            yield event("response.function_call_arguments.delta", {
+              item_id: openItem.id,
+              output_index: output.length,
+              delta: chunk.arguments,
+            });
+          }
+          continue;
+      }
+    }
+  } catch (error) {
+    yield* closeItem();
+    const message = error instanceof Error ? error.message : "Stream interrupted";
+    yield formatResponsesFailed(event, response, output, message);
+    return;
+  }
+
+  yield* closeItem();
+
+  const completed = completeResponse(response, output, finish, tracker);
+  const type = completed.status === "incomplete" ? "response.incomplete" : "response.completed";
+  yield event(type, { response: completed });
+}
+
+/**
+ * Format the response.failed event that ends a broken stream.
+ */
+function formatResponsesFailed(
+  event: (type: string, data: object) => string,
+  response: ResponsesResponse,
+  output: ResponsesOutputItem[],
+  message: string
+): string {
+  return event("response.failed", {
+    response: {
+      ...response,
+      status: "failed",
+      output,
+      error: { code: "server_error", message },
+    },
+  });
+}
+
+/**
+ * Collects stream and formats as non-streaming Responses API object.
+ * A stream error is thrown, since the response has not been sent yet.
+ */
+export async function formatResponsesComplete(
+  stream: AsyncIterable<ChatStreamEvent>,
+  model: string = "aicarousel",
+  usageContext: UsageContext = {}
+): Promise<ResponsesResponse> {
+  const tracker = new UsageTracker(usageContext);
+  const response = createResponse(generateId("resp"), Math.floor(Date.now() / 1000), model);
+
+  let content = "";
+  const toolCallDeltas: ToolCallDelta[] = [];
+  let finish: FinishEvent | null = null;
+  for await (const event of stream) {
+    switch (event.type) {
+      case "text":
+        content += event.text;
+        break;
+      case "tool_call":
+        toolCallDeltas.push(event);
+        break;
+      case "usage":
+        tracker.report(event);
+        break;
+      case "finish":
+        finish = event;
+        break;
+      case "error":
+        throw new Error(event.message);
+    }
+  }
+
+  const toolCalls = collectToolCalls(toolCallDeltas);
+  tracker.addOutput(content);
+
+  const output: ResponsesOutputItem[] = [];
+  if (content) {
+    output.push({
+      type: "message",
+      id: generateId("msg"),
+      status: "completed",
+      role: "assistant",
+      content: [{ type: "output_text", text: content, annotations: [] }],
+    });
+  }
+  for (const call of toolCalls) {
+    tracker.addOutput(call.function.arguments);
+    output.push({
+      type: "function_call",
+      id: generateId("fc"),
+      call_id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+      status: "completed",
+    });
+  }
+
+  return completeResponse(response, output, finish, tracker);
+}
+
+/**
+ * Format a single SSE event with event type and data.
+ */
+function formatSSE(event: string, data: object): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
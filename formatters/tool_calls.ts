@@ -0,0 +1,44 @@
+/**
+ * Tool call helpers shared by the response formatters.
+ */
+
+import type { ToolCall, ToolCallDelta } from "@defaults/types";
+
+/**
+ * Merge streamed tool call deltas into complete tool calls, ordered by index.
+ */
+export function collectToolCalls(deltas: ToolCallDelta[]): ToolCall[] {
+  const calls = new Map<number, ToolCall>();
+
+  for (const delta of deltas) {
+    let call = calls.get(delta.index);
+    if (!call) {
+      call = {
+        id: delta.id ?? `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+        type: "function",
+        function: { name: "", arguments: "" },
+      };
+      calls.set(delta.index, call);
+    }
+    if (delta.id) call.id = delta.id;
+    if (delta.name) call.function.name += delta.name;
+    if (delta.arguments) call.function.arguments += delta.arguments;
+  }
+
+  return [...calls.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, call]) => call);
+}
+
+/**
+ * Parse tool call arguments into an object.
+ * Malformed JSON from the model yields an empty object.
+ */
+export function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = args ? JSON.parse(args) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Token usage helpers shared by the response formatters.
+ */
+
+import type { UsageEvent } from "@defaults/types";
+import { countTokens } from "@services/tokenizer.ts";
+
+/**
+ * What the route knows about usage before the response starts.
+ */
+export interface UsageContext {
+  /** Estimated prompt tokens (see services/tokenizer.ts). */
+  inputTokens?: number;
+  /** Upstream model, used to pick the tokenizer for output estimates. */
+  model?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Tracks the usage of one response: estimated from the streamed output
+ * until the provider reports real usage, which then wins.
+ */
+export class UsageTracker {
+  private context: UsageContext;
+  private estimatedOutput = 0;
+  private reported: UsageEvent | null = null;
+
+  constructor(context: UsageContext = {}) {
+    this.context = context;
+  }
+
+  /** Count streamed text or tool call arguments. */
+  addOutput(text: string): void {
+    this.estimatedOutput += countTokens(text, this.context.model);
+  }
+
+  /** Record usage reported by the provider. */
+  report(usage: UsageEvent): void {
+    this.reported = usage;
+  }
+
+  get usage(): TokenUsage {
+    return {
+      inputTokens: this.reported?.inputTokens ?? this.context.inputTokens ?? 0,
+      outputTokens: this.reported?.outputTokens ?? this.estimatedOutput,
+    };
+  }
+}
@@ -1,26 +1,64 @@
 import { handleChat } from "@services/chat_handler.ts";
+import { RequestCancelledError } from "@services/cancellation.ts";
+import { STRATEGY_HEADER, UnknownStrategyError, resolveRoutingStrategy } from "@services/routing.ts";
+import { ImageFetchError } from "@services/content.ts";
+import { ContextLengthExceededError } from "@services/context_window.ts";
+import { ModelNotFoundError } from "@services/model_router.ts";
 import { handleChatCompletions, handleModels, handleModelInfo } from "./routes/openai.ts";
-import { handleMessages, handleCountTokens } from "./routes/anthropic.ts";
-import { authenticate, createAuthErrorResponse, requiresAuth } from "./auth/middleware.ts";
+import {
+  handleMessages,
+  handleCountTokens,
+  handleAnthropicModels,
+  handleAnthropicModelInfo,
+} from "./routes/anthropic.ts";
+import { handleResponses } from "./routes/responses.ts";
+import { handleProvidersHealth } from "./routes/health.ts";
+import { handleMetrics } from "./routes/metrics.ts";
+import { handleAdmin } from "./routes/admin.ts";
+import { handleDashboard, isDashboardPath } from "./routes/dashboard.ts";
+import { createStreamResponse, releaseWhenDone } from "./routes/stream_response.ts";
+import { formatOpenAIError } from "./formatters/openai_formatter.ts";
+import { formatAnthropicError } from "./formatters/anthropic_formatter.ts";
+import {
+  authenticate,
+  authenticateAdmin,
+  checkRateLimits,
+  countsTowardLimits,
+  createAuthErrorResponse,
+  createRateLimitResponse,
+  requiresAuth,
+} from "./auth/middleware.ts";
+import { canReadMetrics } from "./auth/admin.ts";
+import { getAllowedModels } from "./auth/key_policy.ts";
+import { recordHttpResponse } from "@services/metrics.ts";
+import { RATE_LIMIT_HEADERS, setKeyTokenStore } from "@services/key_limits.ts";
 import { migrate } from "./db/migrate.ts";
-import type { ChatMessage } from "@defaults/types";
+import { syncProviders } from "./db/provider_settings.ts";
+import { getProviderKeys } from "@defaults/providers";
+import { addApiKeyTokens, type ApiKey } from "./db/api_keys.ts";
+import type { ChatMessage, ChatStreamEvent } from "@defaults/types";
 
 const PORT = process.env.PORT ?? 7123;
 
 // Run migrations on startup
 await migrate();
+// Pick up providers added to providers.json since the last run
+syncProviders(getProviderKeys());
+// Persist per-key token usage for the daily quotas
+setKeyTokenStore(addApiKeyTokens);
 
 Bun.serve({
   port: PORT,
-  async fetch(req) {
+  async fetch(req, server) {
     const url = new URL(req.url);
     const { pathname } = url;
 
     // CORS headers for browser-based clients
     const corsHeaders = {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, anthropic-version, anthropic-beta",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": `Content-Type, Authorization, x-api-key, anthropic-version, anthropic-beta, ${STRATEGY_HEADER}`,
+      "Access-Control-Expose-Headers": `${STRATEGY_HEADER}, Retry-After, ${RATE_LIMIT_HEADERS.join(", ")}`,
     };
 
     // Handle CORS preflight
@@ -28,108 +66,220 @@ Bun.serve({
       return new Response(null, { headers: corsHeaders });
     }
 
-    // Add CORS headers helper
+    // Add CORS headers helper (and count the response for /metrics)
     const addCorsHeaders = (response: Response): Response => {
       for (const [key, value] of Object.entries(corsHeaders)) {
         response.headers.set(key, value);
       }
+      recordHttpResponse(routeLabel(pathname), response.status);
       return response;
     };
 
+    // Stream slot taken by the limit check, held until the response body ends
+    let releaseStream: (() => void) | undefined;
+
     try {
-      // Authentication check for protected endpoints
+      // Authentication and per-key rate limits for protected endpoints
+      let apiKey: ApiKey | undefined;
+      let rateLimitHeaders: Record<string, string> = {};
       if (requiresAuth(pathname)) {
         const authResult = await authenticate(req);
         if (!authResult.authenticated) {
-          return addCorsHeaders(createAuthErrorResponse(authResult.error!, pathname));
+          return addCorsHeaders(createAuthErrorResponse(authResult.error!, pathname, authResult.status));
         }
+        apiKey = authResult.apiKey!;
+      }
+
+      if (apiKey && countsTowardLimits(pathname)) {
+        const limits = checkRateLimits(apiKey);
+        if (!limits.allowed) {
+          return addCorsHeaders(createRateLimitResponse(limits, pathname));
+        }
+        rateLimitHeaders = limits.headers;
+        releaseStream = limits.release;
       }
 
       let response: Response;
 
       // OpenAI-compatible endpoints (Cline, Codex, etc.)
       if (pathname === "/v1/chat/completions" && req.method === "POST") {
-        response = await handleChatCompletions(req);
+        response = await handleChatCompletions(req, apiKey);
+      }
+      else if (pathname === "/v1/responses" && req.method === "POST") {
+        response = await handleResponses(req, apiKey);
       }
+      // Models list (Anthropic shape when the client sends anthropic-version)
       else if (pathname === "/v1/models" && req.method === "GET") {
-        response = handleModels();
+        const allowedModels = getAllowedModels(apiKey);
+        response = req.headers.has("anthropic-version")
+          ? handleAnthropicModels(allowedModels)
+          : handleModels(allowedModels);
       }
       else if (pathname.startsWith("/v1/models/") && req.method === "GET") {
-        const modelId = pathname.replace("/v1/models/", "");
-        response = handleModelInfo(modelId);
+        const modelId = decodePathSegment(pathname.replace("/v1/models/", ""));
+        const allowedModels = getAllowedModels(apiKey);
+        const anthropic = req.headers.has("anthropic-version");
+        if (modelId === null) {
+          const message = "Invalid model ID: malformed percent-encoding";
+          response = Response.json(
+            anthropic ? formatAnthropicError(message, "invalid_request_error") : formatOpenAIError(message, "invalid_request_error"),
+            { status: 400 }
+          );
+        } else {
+          response = anthropic
+            ? handleAnthropicModelInfo(modelId, allowedModels)
+            : handleModelInfo(modelId, allowedModels);
+        }
       }
       // Anthropic-compatible endpoints (Claude Code)
       else if (pathname === "/v1/messages" && req.method === "POST") {
-        response = await handleMessages(req);
+        response = await handleMessages(req, apiKey);
       }
       else if (pathname === "/v1/messages/count_tokens" && req.method === "POST") {
         response = await handleCountTokens(req);
       }
       // Legacy endpoint (backward compatibility)
       else if (pathname === "/chat" && req.method === "POST") {
-        response = await handleLegacyChat(req);
+        response = await handleLegacyChat(req, apiKey);
       }
       // Health check
       else if (pathname === "/health" && req.method === "GET") {
         response = Response.json({ status: "ok", service: "aicarousel" });
       }
+      else if (pathname === "/health/providers" && req.method === "GET") {
+        response = handleProvidersHealth();
+      }
+      // Prometheus metrics (admin key, API key with the admin scope or allowlisted IP)
+      else if (pathname === "/metrics" && req.method === "GET") {
+        const allowed = canReadMetrics(req, server.requestIP(req)?.address) || (await authenticate(req)).authenticated;
+        response = allowed
+          ? handleMetrics()
+          : Response.json(
+            { error: "Forbidden: use ADMIN_API_KEY, an API key with the admin scope or an IP in METRICS_ALLOWED_IPS" },
+            { status: 403 }
+          );
+      }
+      // Admin API (ADMIN_API_KEY or an API key with the admin scope)
+      else if (pathname.startsWith("/admin/")) {
+        const authResult = await authenticateAdmin(req);
+        response = authResult.authenticated
+          ? await handleAdmin(req, pathname)
+          : createAuthErrorResponse(authResult.error!, pathname, authResult.status);
+      }
+      // Web dashboard (static; its data comes from the admin API)
+      else if (isDashboardPath(pathname) && req.method === "GET") {
+        response = await handleDashboard(pathname);
+      }
       else {
         response = new Response("Not found", { status: 404 });
       }
 
+      if (releaseStream) {
+        response = releaseWhenDone(response, releaseStream);
+      }
+      for (const [key, value] of Object.entries(rateLimitHeaders)) {
+        response.headers.set(key, value);
+      }
       return addCorsHeaders(response);
     } catch (error) {
+      releaseStream?.();
       console.error("Unhandled error:", error);
       return addCorsHeaders(new Response("Internal server error", { status: 500 }));
     }
   },
 });
 
+// Fixed routes, used as metric labels so raw URLs do not create new series
+const ROUTE_LABELS = new Set([
+  "/v1/chat/completions",
+  "/v1/responses",
+  "/v1/models",
+  "/v1/messages",
+  "/v1/messages/count_tokens",
+  "/chat",
+  "/health",
+  "/health/providers",
+  "/metrics",
+]);
+
+/**
+ * Map a request path to its route label for metrics.
+ */
+function routeLabel(pathname: string): string {
+  if (ROUTE_LABELS.has(pathname)) return pathname;
+  if (pathname.startsWith("/v1/models/")) return "/v1/models/:id";
+  if (pathname.startsWith("/admin/")) return "/admin/*";
+  if (pathname === "/dashboard" || pathname.startsWith("/dashboard/")) return "/dashboard";
+  return "other";
+}
+
+/**
+ * Decode a percent-encoded path segment, or null if the encoding is malformed.
+ */
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Legacy /chat endpoint handler for backward compatibility.
  */
-async function handleLegacyChat(req: Request): Promise<Response> {
+async function handleLegacyChat(req: Request, apiKey?: ApiKey): Promise<Response> {
   try {
     const messages = (await req.json()) as ChatMessage[];
-    const result = await handleChat(messages);
-
-    return new Response(
-      new ReadableStream({
-        async start(controller) {
-          const encoder = new TextEncoder();
-          try {
-            for await (const chunk of result.stream) {
-              controller.enqueue(encoder.encode(chunk));
-            }
-          } catch (error) {
-            console.error("Legacy stream error:", error);
-          } finally {
-            controller.close();
-          }
-        },
-      }),
-      {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
-        },
-      }
-    );
+    const result = await handleChat(messages, {
+      signal: req.signal,
+      contextStrategy: apiKey?.context_strategy,
+      routingStrategy: resolveRoutingStrategy(req.headers.get(STRATEGY_HEADER), apiKey?.routing_strategy),
+      allowedModels: getAllowedModels(apiKey),
+      origin: { route: "/chat", apiKeyId: apiKey?.id },
+    });
+
+    return createStreamResponse(legacyText(result.stream), result.cancel, { [STRATEGY_HEADER]: result.strategy });
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return new Response(null, { status: 499 });
+    }
+    if (error instanceof UnknownStrategyError || error instanceof ImageFetchError) {
+      return new Response(error.message, { status: 400 });
+    }
+    if (error instanceof ContextLengthExceededError) {
+      return new Response(error.message, { status: 400 });
+    }
+    if (error instanceof ModelNotFoundError) {
+      // The key's allowlist leaves no provider to use
+      return new Response(error.message, { status: 404 });
+    }
     console.error("Legacy chat error:", error);
     return new Response("All AI services failed", { status: 503 });
   }
 }
 
+/**
+ * The legacy endpoint only carries plain text.
+ */
+async function* legacyText(stream: AsyncIterable<ChatStreamEvent>): AsyncIterable<string> {
+  for await (const event of stream) {
+    if (event.type === "text") {
+      yield event.text;
+    }
+  }
+}
+
 console.log(`🚀 AICarousel running on http://localhost:${PORT}`);
 console.log(`
 Available endpoints:
   POST /v1/chat/completions  - OpenAI compatible (Cline, Codex) [requires API key]
-  GET  /v1/models            - OpenAI models list [public]
+  POST /v1/responses         - OpenAI Responses API (Codex) [requires API key]
+  GET  /v1/models            - OpenAI models list [requires API key, models scope]
   POST /v1/messages          - Anthropic compatible (Claude Code) [requires API key]
   POST /chat                 - Legacy endpoint [requires API key]
   GET  /health               - Health check [public]
+  GET  /health/providers     - Circuit breaker state per provider/model [public]
+  GET  /dashboard            - Web dashboard [admin key]
 
 Generate an API key:
   bun run scripts/api_key.ts create "my-key-name"
@@ -0,0 +1,389 @@
+/**
+ * Admin routes.
+ * JSON API under /admin/* mirroring the `bun run setup` menus: providers,
+ * models, app API keys, status and health. Changes are written to the
+ * database and models.json, which are read on every request, so they apply
+ * without a restart. Access is checked by the caller (see auth/middleware.ts).
+ */
+
+import { getActiveProviders } from "@services/ai_controller.ts";
+import { getDefaultRoutingStrategy } from "@services/routing.ts";
+import { listPoolKeyNames } from "@services/key_pool.ts";
+import { getActiveStreams } from "@services/key_limits.ts";
+import {
+  ModelsConfigError,
+  addModel,
+  ensureProvider,
+  getProviderConfig,
+  removeModel,
+  reorderModels,
+  setDefaultModel,
+  toggleFallback,
+} from "@services/models_config.ts";
+import { getProviderDefinitions } from "@defaults/providers";
+import {
+  getAllProviderSettings,
+  getProviderSetting,
+  reorderProviders,
+  setProviderWeight,
+  toggleProvider,
+} from "../db/provider_settings.ts";
+import {
+  createApiKey,
+  deleteApiKey,
+  getApiKeyById,
+  listApiKeys,
+  revokeApiKey,
+  type ApiKeyScope,
+} from "../db/api_keys.ts";
+import { listRequestLogs, type RequestLogFilter, type RequestStatus } from "../db/requests.ts";
+import { ValidationError } from "../db/errors.ts";
+import { parseExpiry, validateAllowedModels } from "../auth/key_policy.ts";
+import { formatOpenAIError } from "../formatters/openai_formatter.ts";
+import { handleProvidersHealth } from "./health.ts";
+
+const startedAt = Date.now();
+const REQUEST_STATUSES: RequestStatus[] = ["success", "error", "cancelled"];
+const MAX_REQUESTS_PAGE = 200;
+
+/**
+ * A request the admin API rejects, with its HTTP status.
+ */
+class AdminRequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "AdminRequestError";
+  }
+}
+
+/**
+ * Route an /admin/* request.
+ *
+ *   GET    /admin/status                       server, provider and key counts
+ *   GET    /admin/health                       same as /health/providers
+ *   GET    /admin/providers                    providers with settings and models
+ *   PATCH  /admin/providers/{key}              { enabled?, weight? }
+ *   PUT    /admin/providers/order              { order: [key, ...] }
+ *   GET    /admin/providers/{key}/models       models.json entry
+ *   POST   /admin/providers/{key}/models       { model } (creates the entry if missing)
+ *   PATCH  /admin/providers/{key}/models       { default?, order?, enableFallback? }
+ *   DELETE /admin/providers/{key}/models/{id}  model IDs URL-encoded
+ *   GET    /admin/keys                         app API keys (no hashes) with streams in flight
+ *   POST   /admin/keys                         { name?, expires?, scopes?, providers? }
+ *   POST   /admin/keys/{id}/revoke
+ *   DELETE /admin/keys/{id}
+ *   GET    /admin/requests                     audit log, newest first (?limit, offset,
+ *                                              key, provider, model, status; no bodies)
+ */
+export async function handleAdmin(req: Request, pathname: string): Promise<Response> {
+  try {
+    const segments = pathname.slice("/admin/".length).split("/").map(decodeSegment);
+    const route = `${req.method} ${segments.map((s, i) => (isParam(segments, i) ? ":" : s)).join("/")}`;
+
+    switch (route) {
+      case "GET status":
+        return getStatus();
+      case "GET health":
+        return handleProvidersHealth();
+      case "GET providers":
+        return Response.json({ providers: listProviders() });
+      case "PUT providers/order":
+        return setProviderOrder(await readBody(req));
+      case "PATCH providers/:":
+        return updateProvider(segments[1]!, await readBody(req));
+      case "GET providers/:/models":
+        return Response.json(getModels(segments[1]!));
+      case "POST providers/:/models":
+        return await createModel(segments[1]!, await readBody(req));
+      case "PATCH providers/:/models":
+        return await updateModels(segments[1]!, await readBody(req));
+      case "DELETE providers/:/models/:":
+        await removeModel(segments[1]!, segments[3]!);
+        return Response.json(getModels(segments[1]!));
+      case "GET keys":
+        return Response.json({ keys: listKeys() });
+      case "POST keys":
+        return await createKey(await readBody(req));
+      case "POST keys/:/revoke":
+        return revokeKey(segments[1]!);
+      case "DELETE keys/:":
+        return deleteKey(segments[1]!);
+      case "GET requests":
+        return Response.json({ requests: listRequests(new URL(req.url).searchParams) });
+      default:
+        return adminError("Not found", 404);
+    }
+  } catch (error) {
+    if (error instanceof AdminRequestError) {
+      return adminError(error.message, error.status);
+    }
+    if (error instanceof ModelsConfigError) {
+      return adminError(error.message, error.message.includes("not found") ? 404 : 400);
+    }
+    // Rejected values from the repositories and key policy (weight, scopes, expiry...)
+    if (error instanceof ValidationError) {
+      return adminError(error.message, 400);
+    }
+    console.error("Admin API error:", error);
+    return Response.json(formatOpenAIError("Internal server error"), { status: 500 });
+  }
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new AdminRequestError(`Invalid path segment "${segment}": malformed percent-encoding`);
+  }
+}
+
+/**
+ * Check if a path segment is a parameter (provider key, model ID or key ID)
+ * rather than a fixed part of the route.
+ */
+function isParam(segments: string[], index: number): boolean {
+  const [resource] = segments;
+  if (resource === "providers") {
+    return (index === 1 && segments[1] !== "order") || index === 3;
+  }
+  if (resource === "keys") {
+    return index === 1;
+  }
+  return false;
+}
+
+function getStatus(): Response {
+  const providers = listProviders();
+  const keys = listApiKeys();
+
+  return Response.json({
+    status: "ok",
+    uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+    routingStrategy: getDefaultRoutingStrategy(),
+    providers: {
+      total: providers.length,
+      withApiKey: providers.filter((p) => p.hasApiKey).length,
+      enabled: providers.filter((p) => p.enabled).length,
+      active: getActiveProviders({ includeUnavailable: true }).length,
+    },
+    keys: {
+      total: keys.length,
+      active: keys.filter((k) => k.is_active).length,
+      revoked: keys.filter((k) => !k.is_active).length,
+    },
+  });
+}
+
+function listProviders() {
+  const settings = getAllProviderSettings();
+
+  return Object.entries(getProviderDefinitions())
+    .map(([key, provider]) => {
+      const setting = settings.find((s) => s.provider_key === key);
+      return {
+        key,
+        name: provider.name,
+        hasApiKey: listPoolKeyNames(provider.apiKeyName, process.env).length > 0,
+        enabled: setting?.is_enabled === 1,
+        priority: setting?.priority ?? 999,
+        weight: setting?.weight ?? 1,
+        models: getProviderConfig(key),
+      };
+    })
+    .sort((a, b) => a.priority - b.priority);
+}
+
+function updateProvider(providerKey: string, body: Record<string, unknown>): Response {
+  if (!getProviderSetting(providerKey)) {
+    throw new AdminRequestError(`Provider "${providerKey}" not found`, 404);
+  }
+
+  // Both fields are checked before either is applied
+  const { enabled, weight } = body;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new AdminRequestError("enabled must be a boolean");
+  }
+  if (weight !== undefined && (typeof weight !== "number" || !Number.isInteger(weight) || weight < 0)) {
+    throw new AdminRequestError("weight must be a whole number >= 0");
+  }
+
+  if (enabled !== undefined) {
+    toggleProvider(providerKey, enabled);
+  }
+  if (weight !== undefined) {
+    setProviderWeight(providerKey, weight);
+  }
+
+  return Response.json(listProviders().find((p) => p.key === providerKey));
+}
+
+function setProviderOrder(body: Record<string, unknown>): Response {
+  const order = readStringArray(body, "order");
+  const known = getAllProviderSettings().map((s) => s.provider_key);
+
+  const unknown = order.find((key) => !known.includes(key));
+  if (unknown !== undefined) {
+    throw new AdminRequestError(`Provider "${unknown}" not found`, 404);
+  }
+  if (new Set(order).size !== known.length || order.length !== known.length) {
+    throw new AdminRequestError(`order must list every provider once: ${known.join(", ")}`);
+  }
+
+  reorderProviders(order);
+  return Response.json({ providers: listProviders() });
+}
+
+function getModels(providerKey: string) {
+  const config = getProviderConfig(providerKey);
+  if (!config) {
+    throw new AdminRequestError(`Provider "${providerKey}" not found`, 404);
+  }
+  return config;
+}
+
+async function createModel(providerKey: string, body: Record<string, unknown>): Promise<Response> {
+  if (typeof body.model !== "string" || !body.model.trim()) {
+    throw new AdminRequestError("model is required");
+  }
+
+  const model = body.model.trim();
+  if (!getProviderConfig(providerKey) && getProviderDefinitions()[providerKey]) {
+    // First model of a provider without a models.json entry becomes its default
+    await ensureProvider(providerKey, model);
+  } else {
+    await addModel(providerKey, model);
+  }
+  return Response.json(getModels(providerKey), { status: 201 });
+}
+
+async function updateModels(providerKey: string, body: Record<string, unknown>): Promise<Response> {
+  getModels(providerKey);
+
+  if (body.order !== undefined) {
+    await reorderModels(providerKey, readStringArray(body, "order"));
+  }
+  if (body.default !== undefined) {
+    if (typeof body.default !== "string") throw new AdminRequestError("default must be a model ID");
+    await setDefaultModel(providerKey, body.default);
+  }
+  if (body.enableFallback !== undefined) {
+    if (typeof body.enableFallback !== "boolean") throw new AdminRequestError("enableFallback must be a boolean");
+    await toggleFallback(providerKey, body.enableFallback);
+  }
+
+  return Response.json(getModels(providerKey));
+}
+
+function listKeys() {
+  return listApiKeys().map((key) => ({ ...key, active_streams: getActiveStreams(key.id) }));
+}
+
+async function createKey(body: Record<string, unknown>): Promise<Response> {
+  const { name, expires } = body;
+  if (name !== undefined && typeof name !== "string") {
+    throw new AdminRequestError("name must be a string");
+  }
+  if (expires !== undefined && typeof expires !== "string") {
+    throw new AdminRequestError("expires must be a duration (30d) or a date (2026-12-31)");
+  }
+
+  const providers = body.providers !== undefined ? readStringArray(body, "providers") : undefined;
+  if (providers) {
+    validateAllowedModels(providers);
+  }
+
+  const { key, record } = await createApiKey(name, {
+    expires_at: expires ? parseExpiry(expires) : undefined,
+    scopes: body.scopes !== undefined ? (readStringArray(body, "scopes") as ApiKeyScope[]) : undefined,
+    allowed_models: providers,
+  });
+
+  // The plain key is only returned here
+  const { key_hash, ...safeRecord } = record;
+  return Response.json({ key, record: safeRecord }, { status: 201 });
+}
+
+function revokeKey(id: string): Response {
+  const keyId = readKeyId(id);
+  if (!revokeApiKey(keyId)) {
+    throw new AdminRequestError(`API key ${keyId} not found`, 404);
+  }
+
+  const { key_hash, ...record } = getApiKeyById(keyId)!;
+  return Response.json(record);
+}
+
+function deleteKey(id: string): Response {
+  const keyId = readKeyId(id);
+  if (!deleteApiKey(keyId)) {
+    throw new AdminRequestError(`API key ${keyId} not found`, 404);
+  }
+  return Response.json({ deleted: true, id: keyId });
+}
+
+function listRequests(params: URLSearchParams) {
+  const filter: RequestLogFilter = {
+    limit: Math.min(readWholeNumber(params, "limit") ?? 50, MAX_REQUESTS_PAGE),
+    offset: readWholeNumber(params, "offset"),
+    apiKeyId: readWholeNumber(params, "key"),
+    providerKey: params.get("provider") || undefined,
+    model: params.get("model") || undefined,
+  };
+
+  const status = params.get("status");
+  if (status) {
+    if (!REQUEST_STATUSES.includes(status as RequestStatus)) {
+      throw new AdminRequestError(`status must be one of: ${REQUEST_STATUSES.join(", ")}`);
+    }
+    filter.status = status as RequestStatus;
+  }
+
+  // Bodies can hold prompts; the CLI log browser is the place to read them
+  return listRequestLogs(filter).map(({ request_body, response_body, ...log }) => log);
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new AdminRequestError("Request body must be JSON");
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new AdminRequestError("Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function readStringArray(body: Record<string, unknown>, field: string): string[] {
+  const value = body[field];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new AdminRequestError(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+function readWholeNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new AdminRequestError(`${name} must be a whole number`);
+  }
+  return number;
+}
+
+function readKeyId(id: string): number {
+  const keyId = Number(id);
+  if (!Number.isInteger(keyId) || keyId <= 0) {
+    throw new AdminRequestError(`Invalid API key ID "${id}"`);
+  }
+  return keyId;
+}
+
+function adminError(message: string, status: number): Response {
+  const type = status === 404 ? "not_found_error" : "invalid_request_error";
+  return Response.json(formatOpenAIError(message, type), { status });
+}
@@ -4,20 +4,62 @@
  */
 
 import { handleChat } from "@services/chat_handler.ts";
+import { ModelNotFoundError, getRoutableModels, type RoutableModel } from "@services/model_router.ts";
+import { getActiveProviders } from "@services/ai_controller.ts";
+import { RequestCancelledError } from "@services/cancellation.ts";
+import { ContextLengthExceededError } from "@services/context_window.ts";
+import { STRATEGY_HEADER, UnknownStrategyError, resolveRoutingStrategy } from "@services/routing.ts";
+import { countRequestTokens } from "@services/tokenizer.ts";
+import { createStreamResponse } from "./stream_response.ts";
 import {
   formatAnthropicStream,
   formatAnthropicComplete,
   formatAnthropicError,
 } from "../formatters/anthropic_formatter.ts";
-import type { ChatMessage } from "@defaults/types";
+import { ImageFetchError, toDataUrl, toMessageContent } from "@services/content.ts";
+import type { ApiKey } from "../db/api_keys.ts";
+import { getAllowedModels } from "../auth/key_policy.ts";
+import type { ChatMessage, ChatRequestOptions, ContentPart, ToolChoice, ToolDefinition } from "@defaults/types";
+
+export type AnthropicTextBlock = { type: "text"; text: string };
+
+export type AnthropicImageBlock = {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+};
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | { type: "tool_use"; id: string; name: string; input: Record<string, any> }
+  | {
+      type: "tool_result";
+      tool_use_id: string;
+      content?: string | (AnthropicTextBlock | AnthropicImageBlock)[];
+      is_error?: boolean;
+    };
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, any>;
+}
+
+export type AnthropicToolChoice =
+  | { type: "auto" }
+  | { type: "any" }
+  | { type: "none" }
+  | { type: "tool"; name: string };
 
 export interface AnthropicMessageRequest {
   model: string;
   messages: {
     role: "user" | "assistant";
-    content: string | { type: "text"; text: string }[];
+    content: string | AnthropicContentBlock[];
   }[];
-  system?: string | { type: "text"; text: string }[];
+  system?: string | AnthropicTextBlock[];
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
   max_tokens: number;
   stream?: boolean;
   temperature?: number;
@@ -34,21 +76,139 @@ export interface AnthropicMessageRequest {
  * Content can be a string or array of content blocks.
  */
 function extractContent(
-  content: string | { type: "text"; text: string }[]
+  content: string | AnthropicContentBlock[] | undefined
 ): string {
+  if (content === undefined) {
+    return "";
+  }
   if (typeof content === "string") {
     return content;
   }
   return content
-    .filter((block) => block.type === "text")
+    .filter((block): block is AnthropicTextBlock => block.type === "text")
     .map((block) => block.text)
     .join("\n");
 }
 
+/**
+ * Convert an Anthropic image block to an OpenAI image part.
+ */
+function convertImage(block: AnthropicImageBlock): ContentPart {
+  const url =
+    block.source.type === "base64"
+      ? toDataUrl({ mediaType: block.source.media_type, data: block.source.data })
+      : block.source.url;
+  return { type: "image_url", image_url: { url } };
+}
+
+/**
+ * Get the image blocks of Anthropic content.
+ */
+function extractImages(content: string | AnthropicContentBlock[] | undefined): AnthropicImageBlock[] {
+  if (content === undefined || typeof content === "string") {
+    return [];
+  }
+  return content.filter((block): block is AnthropicImageBlock => block.type === "image");
+}
+
+/**
+ * Convert one Anthropic message into internal messages.
+ * tool_use blocks become assistant tool calls; each tool_result block becomes
+ * a "tool" message placed before any remaining user text. Tool messages cannot
+ * carry images, so images from tool results (e.g. screenshots) move to that
+ * user message.
+ */
+function convertMessage(msg: AnthropicMessageRequest["messages"][number]): ChatMessage[] {
+  if (typeof msg.content === "string") {
+    return [{ role: msg.role, content: msg.content }];
+  }
+
+  if (msg.role === "assistant") {
+    const toolCalls = msg.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id,
+        type: "function" as const,
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+
+    const message: ChatMessage = { role: "assistant", content: extractContent(msg.content) };
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    return [message];
+  }
+
+  const parts: ContentPart[] = [];
+  const messages: ChatMessage[] = [];
+
+  for (const block of msg.content) {
+    if (block.type === "tool_result") {
+      const result = extractContent(block.content);
+      messages.push({
+        role: "tool",
+        tool_call_id: block.tool_use_id,
+        content: block.is_error ? `Error: ${result}` : result,
+      });
+      parts.push(...extractImages(block.content).map(convertImage));
+    } else if (block.type === "text") {
+      parts.push(block);
+    } else if (block.type === "image") {
+      parts.push(convertImage(block));
+    }
+  }
+
+  const content = toMessageContent(parts);
+  if (content || messages.length === 0) {
+    messages.push({ role: "user", content });
+  }
+
+  return messages;
+}
+
+/**
+ * Convert Anthropic tool definitions and tool_choice to the internal format.
+ */
+function convertToolOptions(body: AnthropicMessageRequest): ChatRequestOptions {
+  if (!body.tools || body.tools.length === 0) {
+    return {};
+  }
+
+  const tools: ToolDefinition[] = body.tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+
+  let toolChoice: ToolChoice | undefined;
+  switch (body.tool_choice?.type) {
+    case "auto":
+      toolChoice = "auto";
+      break;
+    case "any":
+      toolChoice = "required";
+      break;
+    case "none":
+      toolChoice = "none";
+      break;
+    case "tool":
+      toolChoice = { type: "function", function: { name: body.tool_choice.name } };
+      break;
+  }
+
+  return { tools, tool_choice: toolChoice };
+}
+
 /**
  * Convert Anthropic messages to internal ChatMessage format.
  */
-function convertMessages(body: AnthropicMessageRequest): ChatMessage[] {
+export function convertMessages(body: AnthropicMessageRequest): ChatMessage[] {
   const messages: ChatMessage[] = [];
 
   // Add system message if present
@@ -65,10 +225,7 @@ function convertMessages(body: AnthropicMessageRequest): ChatMessage[] {
 
   // Add conversation messages
   for (const msg of body.messages) {
-    messages.push({
-      role: msg.role,
-      content: extractContent(msg.content),
-    });
+    messages.push(...convertMessage(msg));
   }
 
   return messages;
@@ -77,8 +234,9 @@ function convertMessages(body: AnthropicMessageRequest): ChatMessage[] {
 /**
  * POST /v1/messages
  * Anthropic-compatible messages endpoint.
+ * `apiKey` is the authenticated key, whose settings apply to the request.
  */
-export async function handleMessages(req: Request): Promise<Response> {
+export async function handleMessages(req: Request, apiKey?: ApiKey): Promise<Response> {
   try {
     const body = (await req.json()) as AnthropicMessageRequest;
 
@@ -102,43 +260,67 @@ export async function handleMessages(req: Request): Promise<Response> {
     const shouldStream = body.stream === true; // Default to non-streaming for Anthropic
     const model = body.model || "aicarousel";
 
+    const options: ChatRequestOptions = {
+      ...convertToolOptions(body),
+      model: body.model,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      top_k: body.top_k,
+      max_tokens: body.max_tokens,
+      stop: body.stop_sequences,
+      signal: req.signal,
+      contextStrategy: apiKey?.context_strategy,
+      routingStrategy: resolveRoutingStrategy(req.headers.get(STRATEGY_HEADER), apiKey?.routing_strategy),
+      allowedModels: getAllowedModels(apiKey),
+      origin: { route: "/v1/messages", apiKeyId: apiKey?.id },
+    };
+
     // Get chat stream with retry logic
-    const result = await handleChat(messages);
+    const result = await handleChat(messages, options);
+    const usageContext = {
+      inputTokens: countRequestTokens(messages, options.tools, result.model),
+      model: result.model,
+    };
 
     if (shouldStream) {
       // Streaming response
-      const sseStream = formatAnthropicStream(result.stream, model);
-
-      return new Response(
-        new ReadableStream({
-          async start(controller) {
-            const encoder = new TextEncoder();
-            try {
-              for await (const chunk of sseStream) {
-                controller.enqueue(encoder.encode(chunk));
-              }
-            } catch (error) {
-              console.error("Stream error:", error);
-            } finally {
-              controller.close();
-            }
-          },
-        }),
-        {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-            "X-Accel-Buffering": "no",
-          },
-        }
-      );
+      const sseStream = formatAnthropicStream(result.stream, model, usageContext);
+
+      return createStreamResponse(sseStream, result.cancel, {
+        "X-Accel-Buffering": "no",
+        [STRATEGY_HEADER]: result.strategy,
+      });
     } else {
       // Non-streaming response
-      const message = await formatAnthropicComplete(result.stream, model);
-      return Response.json(message);
+      const message = await formatAnthropicComplete(result.stream, model, usageContext);
+      return Response.json(message, { headers: { [STRATEGY_HEADER]: result.strategy } });
     }
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return new Response(null, { status: 499 });
+    }
+    if (error instanceof ContextLengthExceededError) {
+      // Claude Code compacts the conversation when it sees "prompt is too long"
+      return Response.json(
+        formatAnthropicError(
+          `prompt is too long: ${error.requiredTokens} tokens > ${error.maxContextTokens} maximum`,
+          "invalid_request_error"
+        ),
+        { status: 400 }
+      );
+    }
+    if (error instanceof ModelNotFoundError) {
+      return Response.json(
+        formatAnthropicError(error.message, "not_found_error"),
+        { status: 404 }
+      );
+    }
+    if (error instanceof UnknownStrategyError || error instanceof ImageFetchError) {
+      return Response.json(
+        formatAnthropicError(error.message, "invalid_request_error"),
+        { status: 400 }
+      );
+    }
     console.error("Messages error:", error);
     const message = error instanceof Error ? error.message : "Internal server error";
     return Response.json(
@@ -150,28 +332,14 @@ export async function handleMessages(req: Request): Promise<Response> {
 
 /**
  * POST /v1/messages/count_tokens
- * Token counting endpoint (stub implementation).
+ * Counts system prompt, messages (with tool calls and results) and tools
+ * with the tokenizer for the requested model (see services/tokenizer.ts).
  */
 export async function handleCountTokens(req: Request): Promise<Response> {
   try {
     const body = (await req.json()) as AnthropicMessageRequest;
-
-    // Rough estimation: 4 chars per token
-    let totalChars = 0;
-
-    if (body.system) {
-      const systemContent =
-        typeof body.system === "string"
-          ? body.system
-          : extractContent(body.system);
-      totalChars += systemContent.length;
-    }
-
-    for (const msg of body.messages) {
-      totalChars += extractContent(msg.content).length;
-    }
-
-    const inputTokens = Math.ceil(totalChars / 4);
+    const { tools } = convertToolOptions(body);
+    const inputTokens = countRequestTokens(convertMessages(body), tools, body.model);
 
     return Response.json({
       input_tokens: inputTokens,
@@ -184,3 +352,48 @@ export async function handleCountTokens(req: Request): Promise<Response> {
     );
   }
 }
+
+// Models are listed with the server start time as their creation date
+const MODELS_CREATED_AT = new Date().toISOString();
+
+function formatModel(model: RoutableModel) {
+  return {
+    type: "model",
+    id: model.id,
+    display_name: model.displayName,
+    created_at: MODELS_CREATED_AT,
+  };
+}
+
+/**
+ * GET /v1/models (with anthropic-version header)
+ * Anthropic-style models list.
+ */
+export function handleAnthropicModels(allowedModels?: string[]): Response {
+  const models = getRoutableModels(getActiveProviders({ includeUnavailable: true }), allowedModels).map(formatModel);
+
+  return Response.json({
+    data: models,
+    has_more: false,
+    first_id: models[0]?.id ?? null,
+    last_id: models[models.length - 1]?.id ?? null,
+  });
+}
+
+/**
+ * GET /v1/models/:model (with anthropic-version header)
+ * Anthropic-style model info, or 404 for unknown IDs.
+ */
+export function handleAnthropicModelInfo(modelId: string, allowedModels?: string[]): Response {
+  const providers = getActiveProviders({ includeUnavailable: true });
+  const model = getRoutableModels(providers, allowedModels).find((m) => m.id === modelId);
+
+  if (!model) {
+    return Response.json(
+      formatAnthropicError(`model: ${modelId}`, "not_found_error"),
+      { status: 404 }
+    );
+  }
+
+  return Response.json(formatModel(model));
+}
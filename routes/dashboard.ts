@@ -0,0 +1,57 @@
+/**
+ * Dashboard routes.
+ * Serves the static web dashboard in dashboard/ at /dashboard. The page
+ * holds no data: it asks for an admin credential and reads and changes
+ * everything through the admin API (routes/admin.ts), which checks it.
+ */
+
+import { join } from "path";
+
+const DASHBOARD_DIR = join(import.meta.dir, "..", "dashboard");
+
+/** Files served under /dashboard/, with their content types. Nothing else is. */
+const DASHBOARD_FILES: Record<string, string> = {
+  "index.html": "text/html; charset=utf-8",
+  "app.js": "text/javascript; charset=utf-8",
+  "style.css": "text/css; charset=utf-8",
+};
+
+// Only this server's own scripts, styles and API; no CDNs, no framing
+const CONTENT_SECURITY_POLICY =
+  "default-src 'none'; script-src 'self'; style-src 'self'; connect-src 'self'; img-src 'self' data:; " +
+  "base-uri 'none'; form-action 'none'; frame-ancestors 'none'";
+
+/**
+ * Check if a path belongs to the dashboard.
+ */
+export function isDashboardPath(pathname: string): boolean {
+  return pathname === "/dashboard" || pathname.startsWith("/dashboard/");
+}
+
+/**
+ * GET /dashboard and /dashboard/{file}
+ */
+export async function handleDashboard(pathname: string): Promise<Response> {
+  // Relative asset URLs in index.html resolve against /dashboard/
+  if (pathname === "/dashboard") {
+    return Response.redirect("/dashboard/", 301);
+  }
+
+  const name = pathname.slice("/dashboard/".length) || "index.html";
+  const contentType = DASHBOARD_FILES[name];
+  const file = contentType ? Bun.file(join(DASHBOARD_DIR, name)) : null;
+
+  if (!file || !(await file.exists())) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new Response(file, {
+    headers: {
+      "Content-Type": contentType!,
+      "Content-Security-Policy": CONTENT_SECURITY_POLICY,
+      "Cache-Control": "no-cache",
+      "X-Content-Type-Options": "nosniff",
+      "Referrer-Policy": "no-referrer",
+    },
+  });
+}
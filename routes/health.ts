@@ -0,0 +1,54 @@
+/**
+ * Health routes.
+ * Provides /health/providers with circuit breaker and quota state per provider/model.
+ */
+
+import { getActiveProviders } from "@services/ai_controller.ts";
+import { getHealthSnapshot } from "@services/health.ts";
+import { getQuotaSnapshot } from "@services/rate_limits.ts";
+import { getApiKeys, getKeyPoolSnapshot, hasUsableKey } from "@services/key_pool.ts";
+
+/**
+ * GET /health/providers
+ * Reports the breaker state and remaining quota of every active provider/model.
+ * status is "ok" when all are closed, "down" when none can take requests.
+ * Quota values are estimates from the providers' last x-ratelimit-* headers.
+ * `keys` lists each provider's key pool by env var name, never the key values.
+ */
+export function handleProvidersHealth(): Response {
+  const providers = getActiveProviders({ includeUnavailable: true });
+  const quotas = getQuotaSnapshot(providers, (key) => getApiKeys(key).map(({ name }) => name));
+
+  // Both snapshots list the same provider/models in the same order
+  const models = getHealthSnapshot(providers).map((health, i) => {
+    const quota = quotas[i]!;
+    return {
+      ...health,
+      available: health.state !== "open" && hasUsableKey(health.providerKey, health.model),
+      rateLimited: quota.rateLimited,
+      rateLimitRetryInMs: quota.retryInMs,
+      quota: { requests: quota.requests, tokens: quota.tokens, updatedAt: quota.updatedAt },
+    };
+  });
+
+  let status = "ok";
+  if (!models.some((m) => m.available)) {
+    status = "down";
+  } else if (models.some((m) => !m.available || m.state !== "closed")) {
+    status = "degraded";
+  }
+
+  return Response.json({
+    status,
+    providers: providers.map((provider) => {
+      const providerModels = models.filter((m) => m.providerKey === provider.key);
+      return {
+        key: provider.key,
+        name: provider.name,
+        available: providerModels.some((m) => m.available),
+        models: providerModels.map(({ providerKey, ...model }) => model),
+        keys: getKeyPoolSnapshot(provider.key, provider.models),
+      };
+    }),
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Metrics route.
+ * Provides /metrics in the Prometheus text format.
+ */
+
+import { getActiveProviders } from "@services/ai_controller.ts";
+import { getHealthSnapshot } from "@services/health.ts";
+import { getQuotaSnapshot } from "@services/rate_limits.ts";
+import { getApiKeys } from "@services/key_pool.ts";
+import { renderMetrics } from "@services/metrics.ts";
+
+/**
+ * GET /metrics
+ * Request counters and latency histograms since the server started, plus the
+ * current breaker and rate-limit state of every active provider/model.
+ * Access is checked by the caller (see auth/admin.ts).
+ */
+export function handleMetrics(): Response {
+  const providers = getActiveProviders({ includeUnavailable: true });
+  const health = getHealthSnapshot(providers);
+  const quotas = getQuotaSnapshot(providers, (key) => getApiKeys(key).map(({ name }) => name));
+
+  return new Response(renderMetrics(providers, health, quotas), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
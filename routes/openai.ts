@@ -4,33 +4,101 @@
  */
 
 import { handleChat } from "@services/chat_handler.ts";
+import { ModelNotFoundError, getRoutableModels, type RoutableModel } from "@services/model_router.ts";
+import { getActiveProviders } from "@services/ai_controller.ts";
+import { RequestCancelledError } from "@services/cancellation.ts";
+import { ContextLengthExceededError } from "@services/context_window.ts";
+import { STRATEGY_HEADER, UnknownStrategyError, resolveRoutingStrategy } from "@services/routing.ts";
+import { countRequestTokens } from "@services/tokenizer.ts";
+import { createStreamResponse } from "./stream_response.ts";
 import {
   formatOpenAIStream,
   formatOpenAIComplete,
   formatOpenAIError,
 } from "../formatters/openai_formatter.ts";
-import type { ChatMessage } from "@defaults/types";
+import { ImageFetchError, toMessageContent } from "@services/content.ts";
+import type { ApiKey } from "../db/api_keys.ts";
+import { getAllowedModels } from "../auth/key_policy.ts";
+import type {
+  ChatMessage,
+  ChatRequestOptions,
+  ContentPart,
+  MessageContent,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from "@defaults/types";
+
+export interface OpenAIChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null | ContentPart[];
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
 
 export interface OpenAIChatRequest {
   model?: string;
-  messages: {
-    role: "system" | "user" | "assistant";
-    content: string;
-  }[];
+  messages: OpenAIChatMessage[];
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   temperature?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
   stop?: string | string[];
 }
 
+/**
+ * Convert OpenAI message content to the internal format.
+ * Content can be a string, null (assistant tool calls) or an array of parts;
+ * image parts are kept for user messages only.
+ */
+function convertContent(content: OpenAIChatMessage["content"], role: OpenAIChatMessage["role"]): MessageContent {
+  if (content === null || content === undefined) {
+    return "";
+  }
+  if (typeof content === "string") {
+    return content;
+  }
+  return toMessageContent(
+    content.filter((part) => part.type === "text" || (role === "user" && part.type === "image_url"))
+  );
+}
+
+/**
+ * Convert OpenAI messages to internal ChatMessage format.
+ * Tool calls and tool results are carried over for the next turn.
+ */
+function convertMessages(body: OpenAIChatRequest): ChatMessage[] {
+  return body.messages.map((m) => {
+    const message: ChatMessage = {
+      role: m.role,
+      content: convertContent(m.content, m.role),
+    };
+    if (m.tool_calls && m.tool_calls.length > 0) {
+      message.tool_calls = m.tool_calls;
+    }
+    if (m.tool_call_id) {
+      message.tool_call_id = m.tool_call_id;
+    }
+    if (m.role === "tool" && m.name) {
+      message.name = m.name;
+    }
+    return message;
+  });
+}
+
 /**
  * POST /v1/chat/completions
  * OpenAI-compatible chat completions endpoint.
+ * `apiKey` is the authenticated key, whose settings apply to the request.
  */
-export async function handleChatCompletions(req: Request): Promise<Response> {
+export async function handleChatCompletions(req: Request, apiKey?: ApiKey): Promise<Response> {
   try {
     const body = (await req.json()) as OpenAIChatRequest;
 
@@ -43,51 +111,76 @@ export async function handleChatCompletions(req: Request): Promise<Response> {
     }
 
     // Convert to internal format
-    const messages: ChatMessage[] = body.messages.map((m) => ({
-      role: m.role,
-      content: m.content,
-    }));
+    const messages = convertMessages(body);
+    const options: ChatRequestOptions = {
+      model: body.model,
+      tools: body.tools,
+      tool_choice: body.tool_choice,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      max_tokens: body.max_completion_tokens ?? body.max_tokens,
+      stop: typeof body.stop === "string" ? [body.stop] : body.stop,
+      frequency_penalty: body.frequency_penalty,
+      presence_penalty: body.presence_penalty,
+      signal: req.signal,
+      contextStrategy: apiKey?.context_strategy,
+      routingStrategy: resolveRoutingStrategy(req.headers.get(STRATEGY_HEADER), apiKey?.routing_strategy),
+      allowedModels: getAllowedModels(apiKey),
+      origin: { route: "/v1/chat/completions", apiKeyId: apiKey?.id },
+    };
 
     const shouldStream = body.stream !== false; // Default to streaming
     const model = body.model || "aicarousel";
 
     // Get chat stream with retry logic
-    const result = await handleChat(messages);
+    const result = await handleChat(messages, options);
+    const usageContext = {
+      inputTokens: countRequestTokens(messages, options.tools, result.model),
+      model: result.model,
+    };
 
     if (shouldStream) {
       // Streaming response
-      const sseStream = formatOpenAIStream(result.stream, model);
-
-      return new Response(
-        new ReadableStream({
-          async start(controller) {
-            const encoder = new TextEncoder();
-            try {
-              for await (const chunk of sseStream) {
-                controller.enqueue(encoder.encode(chunk));
-              }
-            } catch (error) {
-              console.error("Stream error:", error);
-            } finally {
-              controller.close();
-            }
-          },
-        }),
-        {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-            "X-Accel-Buffering": "no", // Disable nginx buffering
-          },
-        }
-      );
+      const includeUsage = body.stream_options?.include_usage === true;
+      const sseStream = formatOpenAIStream(result.stream, model, usageContext, includeUsage);
+
+      return createStreamResponse(sseStream, result.cancel, {
+        "X-Accel-Buffering": "no", // Disable nginx buffering
+        [STRATEGY_HEADER]: result.strategy,
+      });
     } else {
       // Non-streaming response
-      const completion = await formatOpenAIComplete(result.stream, model);
-      return Response.json(completion);
+      const completion = await formatOpenAIComplete(result.stream, model, usageContext);
+      return Response.json(completion, { headers: { [STRATEGY_HEADER]: result.strategy } });
     }
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return new Response(null, { status: 499 });
+    }
+    if (error instanceof ContextLengthExceededError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "context_length_exceeded"),
+        { status: 400 }
+      );
+    }
+    if (error instanceof ModelNotFoundError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "model_not_found"),
+        { status: 404 }
+      );
+    }
+    if (error instanceof UnknownStrategyError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "unknown_routing_strategy"),
+        { status: 400 }
+      );
+    }
+    if (error instanceof ImageFetchError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "invalid_image_url"),
+        { status: 400 }
+      );
+    }
     console.error("Chat completions error:", error);
     const message = error instanceof Error ? error.message : "Internal server error";
     return Response.json(
@@ -97,68 +190,49 @@ export async function handleChatCompletions(req: Request): Promise<Response> {
   }
 }
 
+// Models are listed with the server start time as their creation date
+const MODELS_CREATED = Math.floor(Date.now() / 1000);
+
+function formatModel(model: RoutableModel) {
+  return {
+    id: model.id,
+    object: "model",
+    created: MODELS_CREATED,
+    owned_by: model.ownedBy,
+    permission: [],
+    root: model.id,
+    parent: null,
+  };
+}
+
 /**
  * GET /v1/models
- * Returns available models list.
+ * Returns every routable model ID for the active providers
+ * (only those in `allowedModels` when the API key has an allowlist).
  */
-export function handleModels(): Response {
-  const models = [
-    {
-      id: "aicarousel",
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: "aicarousel",
-      permission: [],
-      root: "aicarousel",
-      parent: null,
-    },
-    {
-      id: "gpt-4",
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: "aicarousel",
-      permission: [],
-      root: "gpt-4",
-      parent: null,
-    },
-    {
-      id: "gpt-3.5-turbo",
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: "aicarousel",
-      permission: [],
-      root: "gpt-3.5-turbo",
-      parent: null,
-    },
-    {
-      id: "claude-3-5-sonnet-20241022",
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: "aicarousel",
-      permission: [],
-      root: "claude-3-5-sonnet-20241022",
-      parent: null,
-    },
-  ];
+export function handleModels(allowedModels?: string[]): Response {
+  const models = getRoutableModels(getActiveProviders({ includeUnavailable: true }), allowedModels);
 
   return Response.json({
     object: "list",
-    data: models,
+    data: models.map(formatModel),
   });
 }
 
 /**
  * GET /v1/models/:model
- * Returns a specific model info.
+ * Returns a specific model info, or 404 for unknown IDs.
  */
-export function handleModelInfo(modelId: string): Response {
-  return Response.json({
-    id: modelId,
-    object: "model",
-    created: Math.floor(Date.now() / 1000),
-    owned_by: "aicarousel",
-    permission: [],
-    root: modelId,
-    parent: null,
-  });
+export function handleModelInfo(modelId: string, allowedModels?: string[]): Response {
+  const providers = getActiveProviders({ includeUnavailable: true });
+  const model = getRoutableModels(providers, allowedModels).find((m) => m.id === modelId);
+
+  if (!model) {
+    return Response.json(
+      formatOpenAIError(`The model '${modelId}' does not exist`, "invalid_request_error", "model_not_found"),
+      { status: 404 }
+    );
+  }
+
+  return Response.json(formatModel(model));
 }
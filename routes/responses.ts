@@ -0,0 +1,254 @@
+/**
+ * OpenAI Responses API route.
+ * Provides /v1/responses for Codex CLI builds that no longer use chat completions.
+ */
+
+import { handleChat } from "@services/chat_handler.ts";
+import { ModelNotFoundError } from "@services/model_router.ts";
+import { RequestCancelledError } from "@services/cancellation.ts";
+import { ContextLengthExceededError } from "@services/context_window.ts";
+import { STRATEGY_HEADER, UnknownStrategyError, resolveRoutingStrategy } from "@services/routing.ts";
+import { countRequestTokens } from "@services/tokenizer.ts";
+import { createStreamResponse } from "./stream_response.ts";
+import { formatResponsesStream, formatResponsesComplete } from "../formatters/responses_formatter.ts";
+import { formatOpenAIError } from "../formatters/openai_formatter.ts";
+import { ImageFetchError, toMessageContent } from "@services/content.ts";
+import type { ApiKey } from "../db/api_keys.ts";
+import { getAllowedModels } from "../auth/key_policy.ts";
+import type {
+  ChatMessage,
+  ChatRequestOptions,
+  ContentPart,
+  MessageContent,
+  ToolChoice,
+  ToolDefinition,
+} from "@defaults/types";
+
+type ResponsesContent =
+  | string
+  | { type: string; text?: string; image_url?: string; detail?: "auto" | "low" | "high" }[];
+
+export type ResponsesInputItem =
+  | { type?: "message"; role: "user" | "assistant" | "system" | "developer"; content: ResponsesContent }
+  | { type: "function_call"; call_id: string; name: string; arguments: string }
+  | { type: "function_call_output"; call_id: string; output: ResponsesContent }
+  | { type: string; [key: string]: unknown };
+
+export interface ResponsesTool {
+  type: string;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+export interface ResponsesRequest {
+  model?: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  tools?: ResponsesTool[];
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string };
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+}
+
+/**
+ * Extract text from Responses content (input_text, output_text and text parts).
+ */
+function extractContent(content: ResponsesContent | undefined): string {
+  if (content === undefined || content === null) {
+    return "";
+  }
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part) => typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Convert user message content, keeping input_image parts given by URL or
+ * data URL. Images uploaded through the Files API (file_id) are not supported.
+ */
+function convertUserContent(content: ResponsesContent): MessageContent {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  const parts: ContentPart[] = [];
+  for (const part of content) {
+    if (typeof part.text === "string") {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.type === "input_image" && part.image_url) {
+      parts.push({ type: "image_url", image_url: { url: part.image_url, detail: part.detail } });
+    }
+  }
+  return toMessageContent(parts);
+}
+
+/**
+ * Convert `instructions` and `input` items to internal ChatMessage format.
+ * Consecutive function_call items become the tool calls of one assistant
+ * turn; reasoning and other unknown items are skipped.
+ */
+export function convertInput(body: ResponsesRequest): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  if (body.instructions) {
+    messages.push({ role: "system", content: body.instructions });
+  }
+
+  if (typeof body.input === "string") {
+    messages.push({ role: "user", content: body.input });
+    return messages;
+  }
+
+  for (const item of body.input) {
+    if (item.type === "function_call") {
+      const call = item as Extract<ResponsesInputItem, { type: "function_call" }>;
+      const toolCall = {
+        id: call.call_id,
+        type: "function" as const,
+        function: { name: call.name, arguments: call.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls ?? []), toolCall];
+      } else {
+        messages.push({ role: "assistant", content: "", tool_calls: [toolCall] });
+      }
+    } else if (item.type === "function_call_output") {
+      const output = item as Extract<ResponsesInputItem, { type: "function_call_output" }>;
+      messages.push({ role: "tool", content: extractContent(output.output), tool_call_id: output.call_id });
+    } else if (item.type === undefined || item.type === "message") {
+      const message = item as Extract<ResponsesInputItem, { role: string }>;
+      messages.push({
+        role: message.role === "developer" ? "system" : message.role,
+        content: message.role === "user" ? convertUserContent(message.content) : extractContent(message.content),
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Convert Responses function tools and tool_choice to the internal format.
+ * Built-in tools (web_search, file_search, ...) are not supported and dropped.
+ */
+export function convertToolOptions(body: ResponsesRequest): ChatRequestOptions {
+  const tools: ToolDefinition[] = (body.tools ?? [])
+    .filter((tool) => tool.type === "function" && tool.name)
+    .map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name!,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+  if (tools.length === 0) {
+    return {};
+  }
+
+  let toolChoice: ToolChoice | undefined;
+  if (typeof body.tool_choice === "string") {
+    toolChoice = body.tool_choice;
+  } else if (body.tool_choice?.type === "function") {
+    toolChoice = { type: "function", function: { name: body.tool_choice.name } };
+  }
+
+  return { tools, tool_choice: toolChoice };
+}
+
+/**
+ * POST /v1/responses
+ * OpenAI Responses API endpoint, served by the same rotation as chat completions.
+ * `apiKey` is the authenticated key, whose settings apply to the request.
+ */
+export async function handleResponses(req: Request, apiKey?: ApiKey): Promise<Response> {
+  try {
+    const body = (await req.json()) as ResponsesRequest;
+
+    if (typeof body.input !== "string" && !Array.isArray(body.input)) {
+      return Response.json(
+        formatOpenAIError("input is required and must be a string or an array", "invalid_request_error"),
+        { status: 400 }
+      );
+    }
+
+    const messages = convertInput(body);
+    const options: ChatRequestOptions = {
+      ...convertToolOptions(body),
+      model: body.model,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      max_tokens: body.max_output_tokens,
+      signal: req.signal,
+      contextStrategy: apiKey?.context_strategy,
+      routingStrategy: resolveRoutingStrategy(req.headers.get(STRATEGY_HEADER), apiKey?.routing_strategy),
+      allowedModels: getAllowedModels(apiKey),
+      origin: { route: "/v1/responses", apiKeyId: apiKey?.id },
+    };
+
+    const shouldStream = body.stream === true; // Default to non-streaming, like OpenAI
+    const model = body.model || "aicarousel";
+
+    // Get chat stream with retry logic
+    const result = await handleChat(messages, options);
+    const usageContext = {
+      inputTokens: countRequestTokens(messages, options.tools, result.model),
+      model: result.model,
+    };
+
+    if (shouldStream) {
+      const sseStream = formatResponsesStream(result.stream, model, usageContext);
+
+      return createStreamResponse(sseStream, result.cancel, {
+        "X-Accel-Buffering": "no",
+        [STRATEGY_HEADER]: result.strategy,
+      });
+    } else {
+      const response = await formatResponsesComplete(result.stream, model, usageContext);
+      return Response.json(response, { headers: { [STRATEGY_HEADER]: result.strategy } });
+    }
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return new Response(null, { status: 499 });
+    }
+    if (error instanceof ContextLengthExceededError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "context_length_exceeded"),
+        { status: 400 }
+      );
+    }
+    if (error instanceof ModelNotFoundError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "model_not_found"),
+        { status: 404 }
+      );
+    }
+    if (error instanceof UnknownStrategyError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "unknown_routing_strategy"),
+        { status: 400 }
+      );
+    }
+    if (error instanceof ImageFetchError) {
+      return Response.json(
+        formatOpenAIError(error.message, "invalid_request_error", "invalid_image_url"),
+        { status: 400 }
+      );
+    }
+    console.error("Responses error:", error);
+    const message = error instanceof Error ? error.message : "Internal server error";
+    return Response.json(
+      formatOpenAIError(message, "server_error"),
+      { status: 503 }
+    );
+  }
+}
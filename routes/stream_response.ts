@@ -0,0 +1,88 @@
+/**
+ * Streaming response helpers shared by the chat routes.
+ */
+
+import { isCancellation } from "@services/cancellation.ts";
+
+const STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+/**
+ * Stream text chunks to the client.
+ * Chunks are pulled on demand, so a client that disconnects stops the read
+ * loop and `onCancel` aborts the upstream call.
+ */
+export function createStreamResponse(
+  chunks: AsyncIterable<string>,
+  onCancel: () => void,
+  headers: Record<string, string> = {}
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (cancelled) return;
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        if (cancelled) return;
+        if (!isCancellation(error)) {
+          console.error("Stream error:", error);
+        }
+        controller.close();
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      onCancel();
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, { headers: { ...STREAM_HEADERS, ...headers } });
+}
+
+/**
+ * Call `release` once the response body has been sent, fails or is
+ * cancelled by the client (right away for responses without a body).
+ */
+export function releaseWhenDone(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      release();
+      await reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -3,10 +3,17 @@
  * API Key Management CLI
  *
  * Usage:
- *   bun run scripts/api_key.ts create [name]   - Create a new API key
+ *   bun run scripts/api_key.ts create [name] [--expires 30d] [--scope chat] [--providers groq,ollama]
+ *                                              - Create a new API key
  *   bun run scripts/api_key.ts list            - List all API keys
  *   bun run scripts/api_key.ts revoke <id>     - Revoke an API key
  *   bun run scripts/api_key.ts delete <id>     - Delete an API key
+ *   bun run scripts/api_key.ts context <id> <skip|trim> - Set the context window strategy
+ *   bun run scripts/api_key.ts strategy <id> <name|default> - Set the routing strategy
+ *   bun run scripts/api_key.ts limits <id> [--rpm N] [--tokens-per-day N] [--streams N]
+ *                                              - Set rate limits ("none" removes one)
+ *   bun run scripts/api_key.ts access <id> [--expires 30d|never] [--scope chat|default] [--providers groq|all]
+ *                                              - Change expiry, scopes and allowed providers/models
  */
 
 import { migrate } from "../db/migrate.ts";
@@ -15,18 +22,84 @@ import {
   listApiKeys,
   revokeApiKey,
   deleteApiKey,
+  setContextStrategy,
+  setRoutingStrategy,
+  setApiKeyLimits,
+  setApiKeyAccess,
+  type ApiKeyAccess,
+  type ApiKeyLimits,
+  type ApiKeyScope,
 } from "../db/api_keys.ts";
+import { DEFAULT_SCOPES, parseExpiry, validateAllowedModels } from "../auth/key_policy.ts";
+import type { ContextStrategy, RoutingStrategy } from "../defaults/types.ts";
 
 const [command, ...args] = process.argv.slice(2);
 
+/** Flags of the limits command and the limit each one sets. */
+const LIMIT_FLAGS: Record<string, keyof ApiKeyLimits> = {
+  "--rpm": "rpm_limit",
+  "--tokens-per-day": "daily_token_limit",
+  "--streams": "max_concurrent_streams",
+};
+
+/**
+ * Parse --expires, --scope (repeatable, comma-separated) and --providers.
+ * The reset values ("never", "default", "all") clear a restriction.
+ * Other arguments are returned as positional.
+ */
+function parseAccessFlags(args: string[]): { positional: string[]; access: ApiKeyAccess } {
+  const positional: string[] = [];
+  const access: ApiKeyAccess = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    switch (arg) {
+      case "--expires":
+        access.expires_at = value === "never" ? null : parseExpiry(value);
+        break;
+      case "--scope": {
+        const scopes = value.split(",").map((s) => s.trim()) as ApiKeyScope[];
+        access.scopes = value === "default" ? null : [...(access.scopes ?? []), ...scopes];
+        break;
+      }
+      case "--providers": {
+        const models = value.split(",").map((m) => m.trim()).filter(Boolean);
+        if (value !== "all") validateAllowedModels(models);
+        access.allowed_models = value === "all" ? null : models;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option ${arg}. Use --expires, --scope or --providers`);
+    }
+  }
+
+  return { positional, access };
+}
+
+function describeAccess(record: { expires_at: string | null; scopes: string | null; allowed_models: string | null }): void {
+  console.log(`  Expires:   ${record.expires_at ? `${record.expires_at} UTC` : "never"}`);
+  console.log(`  Scopes:    ${record.scopes ?? `${DEFAULT_SCOPES.join(",")} (default)`}`);
+  console.log(`  Providers: ${record.allowed_models ?? "all"}`);
+}
+
 // Ensure migrations are run
 await migrate();
 
 async function main() {
   switch (command) {
     case "create": {
-      const name = args[0];
-      const { key, record } = await createApiKey(name);
+      const { positional, access } = parseAccessFlags(args);
+      const { key, record } = await createApiKey(positional[0], access);
 
       console.log("\n╔════════════════════════════════════════════════════════════════════╗");
       console.log("║                    🔑 NEW API KEY CREATED                          ║");
@@ -43,6 +116,7 @@ async function main() {
       console.log(`  Name:    ${record.name || "(none)"}`);
       console.log(`  Prefix:  ${record.key_prefix}`);
       console.log(`  Created: ${record.created_at}`);
+      describeAccess(record);
       console.log();
       console.log("Usage:");
       console.log(`  curl -H "Authorization: Bearer ${key}" http://localhost:7123/v1/chat/completions ...`);
@@ -113,21 +187,134 @@ async function main() {
       break;
     }
 
+    case "context": {
+      const id = parseInt(args[0] ?? "");
+      const strategy = args[1] as ContextStrategy;
+      if (isNaN(id) || !strategy) {
+        console.error("Error: Please provide a valid API key ID and a strategy (skip or trim)");
+        process.exit(1);
+      }
+
+      const success = setContextStrategy(id, strategy);
+      if (success) {
+        console.log(`\n✓ API key ${id} now uses the "${strategy}" context strategy\n`);
+      } else {
+        console.error(`\n✗ API key ${id} not found\n`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "strategy": {
+      const id = parseInt(args[0] ?? "");
+      const strategy = args[1];
+      if (isNaN(id) || !strategy) {
+        console.error("Error: Please provide a valid API key ID and a strategy (or \"default\")");
+        process.exit(1);
+      }
+
+      const routingStrategy = strategy === "default" ? null : (strategy as RoutingStrategy);
+      const success = setRoutingStrategy(id, routingStrategy);
+      if (success) {
+        console.log(routingStrategy
+          ? `\n✓ API key ${id} now uses the "${routingStrategy}" routing strategy\n`
+          : `\n✓ API key ${id} now uses the server's default routing strategy\n`);
+      } else {
+        console.error(`\n✗ API key ${id} not found\n`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "limits": {
+      const id = parseInt(args[0] ?? "");
+      if (isNaN(id)) {
+        console.error("Error: Please provide a valid API key ID");
+        process.exit(1);
+      }
+
+      const limits: ApiKeyLimits = {};
+      for (let i = 1; i < args.length; i += 2) {
+        const column = LIMIT_FLAGS[args[i]!];
+        const value = args[i + 1];
+        if (!column || value === undefined) {
+          console.error("Error: Use --rpm, --tokens-per-day or --streams followed by a number (or \"none\")");
+          process.exit(1);
+        }
+        limits[column] = value === "none" ? null : Number(value);
+      }
+
+      if (!setApiKeyLimits(id, limits)) {
+        console.error(`\n✗ API key ${id} not found\n`);
+        process.exit(1);
+      }
+
+      const key = listApiKeys().find((k) => k.id === id)!;
+      console.log(`\n✓ API key ${id} limits:`);
+      console.log(`  Requests per minute: ${key.rpm_limit ?? "unlimited"}`);
+      console.log(`  Tokens per day:      ${key.daily_token_limit ?? "unlimited"}`);
+      console.log(`  Concurrent streams:  ${key.max_concurrent_streams ?? "unlimited"}\n`);
+      break;
+    }
+
+    case "access": {
+      const { positional, access } = parseAccessFlags(args);
+      const id = parseInt(positional[0] ?? "");
+      if (isNaN(id)) {
+        console.error("Error: Please provide a valid API key ID");
+        process.exit(1);
+      }
+
+      if (!setApiKeyAccess(id, access)) {
+        console.error(`\n✗ API key ${id} not found\n`);
+        process.exit(1);
+      }
+
+      const key = listApiKeys().find((k) => k.id === id)!;
+      console.log(`\n✓ API key ${id} access:`);
+      describeAccess(key);
+      console.log();
+      break;
+    }
+
     default: {
       console.log(`
 API Key Management CLI
 
 Usage:
-  bun run scripts/api_key.ts create [name]   Create a new API key
+  bun run scripts/api_key.ts create [name] [options]
+                                             Create a new API key
   bun run scripts/api_key.ts list            List all API keys
   bun run scripts/api_key.ts revoke <id>     Revoke an API key (disable)
   bun run scripts/api_key.ts delete <id>     Delete an API key permanently
+  bun run scripts/api_key.ts context <id> <skip|trim>
+                                             Prompts too large for a model: skip to a
+                                             larger model (default) or trim middle turns
+  bun run scripts/api_key.ts strategy <id> <round-robin|weighted|priority|latency|quota|default>
+                                             Provider order for the key's requests
+                                             ("default" uses ROUTING_STRATEGY)
+  bun run scripts/api_key.ts limits <id> [--rpm N] [--tokens-per-day N] [--streams N]
+                                             Requests per minute, tokens per UTC day and
+                                             concurrent streams ("none" removes a limit;
+                                             no flags shows the current limits)
+  bun run scripts/api_key.ts access <id> [options]
+                                             Change a key's expiry, scopes and providers
+                                             (no options shows them)
+
+Access options (create and access):
+  --expires <30d|12h|2w|2026-12-31|never>    Reject the key after this time (default never)
+  --scope <chat|messages|models|admin>       Endpoints the key may call; repeat or use commas
+                                             (default chat,messages,models; "default" resets)
+  --providers <groq,ollama/llama3.2|all>     Providers or provider/model IDs the key may use
+                                             (default all)
 
 Examples:
   bun run scripts/api_key.ts create "Production"
   bun run scripts/api_key.ts create "Development"
+  bun run scripts/api_key.ts create "Intern" --expires 30d --scope chat --providers groq,ollama
   bun run scripts/api_key.ts list
   bun run scripts/api_key.ts revoke 1
+  bun run scripts/api_key.ts limits 1 --rpm 60 --tokens-per-day 200000 --streams 2
 `);
       break;
     }
@@ -1,5 +1,14 @@
-import type { AIService, AIServiceWithModel, ActiveProvider, ChatMessage } from "@defaults/types";
-import { providers, getProviderParams, type ProviderKey } from "@defaults/providers";
+import type {
+  AIService,
+  AIServiceWithModel,
+  ActiveProvider,
+  ChatMessage,
+  ChatRequestOptions,
+  ChatStreamEvent,
+  FinishEvent,
+  UsageEvent,
+} from "@defaults/types";
+import { getProviderDefinitions, getProviderDefinition, getProviderParams } from "@defaults/providers";
 import {
   getProviderModels,
   getDefaultModel,
@@ -10,31 +19,179 @@ import { Groq } from "groq-sdk";
 import { OpenRouterClient } from "./openrouter_client";
 import { GeminiClient } from "./gemini_client";
 import { OllamaClient } from "./ollama_client";
+import { OpenAICompatibleClient } from "./openai_compatible_client";
+import { getCustomProvider } from "./providers_config";
+import { pickApiKey, getApiKeys, type PoolKey } from "./key_pool";
+import { filterAvailableProviders } from "./health";
+import { recordRateLimitHeaders } from "./rate_limits";
+import { getStreamTimeouts, withTimeout, StreamTimeoutError } from "./timeouts";
+import { linkAbortSignal, RequestCancelledError } from "./cancellation";
 
 export class StandardAIController implements AIServiceWithModel {
   name: string;
   providerKey: string;
   model: string;
+  keyName?: string;
   private client: any;
   private params: any;
 
-  constructor(name: string, providerKey: string, client: any, params: any) {
+  constructor(name: string, providerKey: string, client: any, params: any, keyName?: string) {
     this.name = name;
     this.providerKey = providerKey;
     this.client = client;
     this.params = params;
     this.model = params.model;
+    this.keyName = keyName;
   }
 
-  async *chat(messages: ChatMessage[]) {
-    const stream = await this.client.chat.completions.create({
-      messages: messages as any,
-      ...this.params,
+  /**
+   * Stream the completion as internal chunks.
+   *
+   * The first-token and chunk timeouts (see timeouts.ts) abort the upstream
+   * call through a single AbortSignal, which is also aborted if the consumer
+   * stops reading early or the caller's `signal` fires.
+   */
+  async *chat(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<ChatStreamEvent> {
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(signal, controller);
+    const timeouts = getStreamTimeouts();
+    const firstTokenDeadline = Date.now() + timeouts.firstTokenMs;
+    let receivedToken = false;
+    let completed = false;
+
+    // Until real output arrives the first-token deadline applies (role-only chunks don't count)
+    const nextTimeout = () =>
+      receivedToken ? timeouts.chunkMs : timeouts.firstTokenMs && Math.max(1, firstTokenDeadline - Date.now());
+    const guard = <T>(promise: Promise<T>) => {
+      const phase = receivedToken ? "chunk" : "first_token";
+      return withTimeout(promise, nextTimeout(), () => {
+        const error = new StreamTimeoutError(phase, phase === "chunk" ? timeouts.chunkMs : timeouts.firstTokenMs);
+        controller.abort(error);
+        return error;
+      });
+    };
+    // Settle pending reads right away on cancellation, whatever the adapter does with the signal
+    const cancelled = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => {
+        if (signal?.aborted) reject(new RequestCancelledError());
+      });
     });
-    for await (const chunk of stream as any) {
-      yield chunk.choices[0]?.delta?.content || "";
+    cancelled.catch(() => {}); // only observed through the race below
+    const next = <T>(promise: Promise<T>) => guard(Promise.race([promise, cancelled]));
+
+    try {
+      const stream = await next(this.createCompletion(messages, controller.signal));
+      const iterator = (stream as AsyncIterable<any>)[Symbol.asyncIterator]();
+
+      while (true) {
+        const { done, value: chunk } = await next(iterator.next());
+        if (done) break;
+
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content || delta?.tool_calls?.length) {
+          receivedToken = true;
+        }
+        yield* this.toEvents(chunk);
+      }
+      completed = true;
+    } catch (error) {
+      throw signal?.aborted ? new RequestCancelledError() : error;
+    } finally {
+      unlink();
+      if (!completed) {
+        controller.abort();
+      }
+    }
+  }
+
+  /**
+   * Convert one provider chunk to internal events.
+   * Role-only chunks yield nothing; usage and finish_reason usually arrive last.
+   */
+  private *toEvents(chunk: any): Iterable<ChatStreamEvent> {
+    const usage = readUsage(chunk);
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+
+    if (delta?.content) {
+      yield { type: "text", text: delta.content };
+    }
+    for (const call of delta?.tool_calls ?? []) {
+      yield {
+        type: "tool_call",
+        index: call.index ?? 0,
+        id: call.id,
+        name: call.function?.name,
+        arguments: call.function?.arguments,
+      };
+    }
+    if (usage) {
+      yield usage;
+    }
+    if (choice?.finish_reason) {
+      yield toFinishEvent(choice.finish_reason, choice.stop_reason, this.params.stop);
     }
   }
+
+  /**
+   * Start the completion request.
+   * Stainless SDKs (Groq, Cerebras) expose the response headers through
+   * withResponse(), which carry the provider's rate-limit quota.
+   */
+  private async createCompletion(messages: ChatMessage[], signal: AbortSignal): Promise<any> {
+    const request = this.client.chat.completions.create(
+      {
+        messages: messages as any,
+        ...this.params,
+      },
+      { signal }
+    );
+
+    if (typeof request.withResponse !== "function") {
+      return request;
+    }
+
+    const { data, response } = await request.withResponse();
+    recordRateLimitHeaders(this.providerKey, this.model, response.headers, this.keyName);
+    return data;
+  }
+}
+
+/**
+ * Read the usage a provider reports in a stream chunk.
+ * Groq puts it in x_groq.usage, the others in usage.
+ */
+function readUsage(chunk: any): UsageEvent | null {
+  const usage = chunk.usage ?? chunk.x_groq?.usage;
+  if (typeof usage?.prompt_tokens !== "number" || typeof usage?.completion_tokens !== "number") {
+    return null;
+  }
+  return { type: "usage", inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+}
+
+/**
+ * Map a provider finish_reason to a FinishEvent.
+ * OpenAI-compatible servers built on vLLM report the matched stop sequence in
+ * `stop_reason`; it only counts if it was one of the requested sequences.
+ */
+function toFinishEvent(finishReason: string, stopReason: unknown, stop: unknown): FinishEvent {
+  const stopSequences: string[] = Array.isArray(stop) ? stop : typeof stop === "string" ? [stop] : [];
+  if (typeof stopReason === "string" && stopSequences.includes(stopReason)) {
+    return { type: "finish", reason: "stop_sequence", stopSequence: stopReason };
+  }
+
+  switch (finishReason) {
+    case "length":
+    case "max_tokens":
+      return { type: "finish", reason: "length" };
+    case "tool_calls":
+    case "function_call":
+      return { type: "finish", reason: "tool_calls" };
+    case "content_filter":
+      return { type: "finish", reason: "content_filter" };
+    default:
+      return { type: "finish", reason: "stop" };
+  }
 }
 
 const ClientMap: Record<string, any> = {
@@ -45,10 +202,34 @@ const ClientMap: Record<string, any> = {
   ollama: OllamaClient,
 };
 
+/**
+ * Create the client for a provider: its SDK or adapter class, or the
+ * generic OpenAI-compatible client for providers from providers.json.
+ * Without a pool `key` the client falls back to the provider's env var.
+ */
+function createClient(providerKey: string, key: PoolKey | null): any {
+  const Client = ClientMap[providerKey];
+  if (Client) {
+    return new Client({ apiKey: key?.value, keyName: key?.name });
+  }
+
+  const custom = getCustomProvider(providerKey);
+  if (!custom) {
+    throw new Error(`Client class not found for provider key: ${providerKey}`);
+  }
+  return new OpenAICompatibleClient({
+    name: custom.name,
+    baseUrl: custom.baseUrl,
+    apiKey: key?.value ?? process.env[custom.apiKeyName],
+    headers: custom.headers,
+  });
+}
+
 interface ProviderSetting {
   provider_key: string;
   is_enabled: number;
   priority: number;
+  weight: number;
 }
 
 /**
@@ -60,7 +241,7 @@ function tryGetProviderSettings(): ProviderSetting[] | null {
     // Dynamic import to avoid circular dependencies
     const { db } = require("../db/index.ts");
     const stmt = db.prepare(`
-      SELECT provider_key, is_enabled, priority
+      SELECT provider_key, is_enabled, priority, weight
       FROM provider_settings
       ORDER BY priority ASC
     `);
@@ -72,15 +253,10 @@ function tryGetProviderSettings(): ProviderSetting[] | null {
 }
 
 /**
- * Check if a provider has its API key configured.
+ * Check if a provider has at least one API key configured.
  */
 function hasApiKey(providerKey: string): boolean {
-  const provider = providers[providerKey as keyof typeof providers];
-  if (!provider) return false;
-
-  const apiKeyName = provider.apiKeyName;
-  const value = process.env[apiKeyName];
-  return !!value && value.trim() !== "";
+  return getApiKeys(providerKey).length > 0;
 }
 
 /**
@@ -93,11 +269,11 @@ function buildActiveServices(): AIService[] {
   const settings = tryGetProviderSettings();
 
   // Get provider entries with their settings
-  const providerEntries = Object.entries(providers)
+  const providerEntries = Object.entries(getProviderDefinitions())
     .map(([key, provider]) => {
       const setting = settings?.find((s) => s.provider_key === key);
       return {
-        key: key as ProviderKey,
+        key,
         provider,
         hasKey: hasApiKey(key),
         isEnabled: setting ? setting.is_enabled === 1 : true, // Default enabled if no settings
@@ -111,13 +287,10 @@ function buildActiveServices(): AIService[] {
 
   // Build services
   return providerEntries.map(({ key, provider }) => {
-    const Client = ClientMap[key];
-    if (!Client) {
-      throw new Error(`Client class not found for provider key: ${key}`);
-    }
     // Get params dynamically with the default model from models.json
     const params = getProviderParams(key);
-    return new StandardAIController(provider.name, key, new Client(), params);
+    const apiKey = pickApiKey(key, params.model) ?? getApiKeys(key)[0] ?? null;
+    return new StandardAIController(provider.name, key, createClient(key, apiKey), params, apiKey?.name);
   });
 }
 
@@ -131,28 +304,36 @@ export function getActiveServices(): AIService[] {
 
 /**
  * Create a service for a specific provider with a specific model.
- * Used for fallback logic.
+ * Used for fallback logic. Each service takes the next usable key from the
+ * provider's pool (see key_pool.ts).
  */
-export function createServiceWithModel(providerKey: ProviderKey, model: string): AIServiceWithModel {
-  const provider = providers[providerKey];
-  const Client = ClientMap[providerKey];
-
-  if (!Client) {
-    throw new Error(`Client class not found for provider key: ${providerKey}`);
+export function createServiceWithModel(
+  providerKey: string,
+  model: string,
+  options: ChatRequestOptions = {}
+): AIServiceWithModel {
+  const provider = getProviderDefinition(providerKey);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${providerKey}`);
   }
 
-  const params = getProviderParams(providerKey, model);
-  return new StandardAIController(provider.name, providerKey, new Client(), params);
+  const params = getProviderParams(providerKey, model, options);
+  // With every key blocked, tryModel skips the service before it is called
+  const apiKey = pickApiKey(providerKey, model) ?? getApiKeys(providerKey)[0] ?? null;
+  return new StandardAIController(provider.name, providerKey, createClient(providerKey, apiKey), params, apiKey?.name);
 }
 
 /**
  * Get active providers with their full configuration.
  * Includes models list, default model, and fallback settings.
+ *
+ * Models with an open circuit breaker are left out (see health.ts) unless
+ * `includeUnavailable` is set, e.g. for listings and model routing.
  */
-export function getActiveProviders(): ActiveProvider[] {
+export function getActiveProviders(options: { includeUnavailable?: boolean } = {}): ActiveProvider[] {
   const settings = tryGetProviderSettings();
 
-  return Object.entries(providers)
+  const active: ActiveProvider[] = Object.entries(getProviderDefinitions())
     .map(([key, provider]) => {
       const setting = settings?.find((s) => s.provider_key === key);
       const models = getProviderModels(key);
@@ -165,18 +346,22 @@ export function getActiveProviders(): ActiveProvider[] {
         defaultModel: defaultModel ?? models[0] ?? "",
         enableFallback: isProviderFallbackEnabled(key),
         priority: setting?.priority ?? 999,
+        weight: setting?.weight ?? 1,
         hasKey: hasApiKey(key),
         isEnabled: setting ? setting.is_enabled === 1 : true,
       };
     })
     .filter((p) => p.hasKey && p.isEnabled && p.models.length > 0)
     .sort((a, b) => a.priority - b.priority)
-    .map(({ key, name, models, defaultModel, enableFallback, priority }) => ({
+    .map(({ key, name, models, defaultModel, enableFallback, priority, weight }) => ({
       key,
       name,
       models,
       defaultModel,
       enableFallback,
       priority,
+      weight,
     }));
+
+  return options.includeUnavailable ? active : filterAvailableProviders(active);
 }
@@ -0,0 +1,210 @@
+/**
+ * Request audit log.
+ *
+ * Chat requests with an origin (route and API key) are stored in the
+ * `requests` table: the provider/model chain tried with each attempt's
+ * error, who served the request, latency, time to first token, token counts
+ * and status. Request and response bodies are only kept with
+ * AUDIT_LOG_BODIES=true. Entries older than AUDIT_LOG_RETENTION_DAYS
+ * (default 30, 0 keeps them forever) are pruned; AUDIT_LOG=off disables it.
+ */
+
+import type {
+  AIServiceWithModel,
+  ChatMessage,
+  ChatRequestOptions,
+  ChatStreamEvent,
+  RequestOrigin,
+  RoutingStrategy,
+} from "@defaults/types";
+import type { NewRequestLog, RequestAttempt, RequestStatus } from "../db/requests.ts";
+import { RequestCancelledError } from "./cancellation.ts";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+
+let lastPruneAt = 0;
+
+/**
+ * Check if requests are logged (AUDIT_LOG, default on).
+ */
+export function isAuditLogEnabled(): boolean {
+  return process.env.AUDIT_LOG?.trim().toLowerCase() !== "off";
+}
+
+/**
+ * Check if request and response bodies are logged (AUDIT_LOG_BODIES, default off).
+ */
+export function shouldLogBodies(): boolean {
+  return process.env.AUDIT_LOG_BODIES?.trim().toLowerCase() === "true";
+}
+
+/**
+ * Days to keep log entries (AUDIT_LOG_RETENTION_DAYS, default 30). 0 keeps them forever.
+ */
+export function getRetentionDays(): number {
+  const value = process.env.AUDIT_LOG_RETENTION_DAYS?.trim();
+  if (!value) return DEFAULT_RETENTION_DAYS;
+
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Collects what happens to one request and writes it to the log when the
+ * request ends: after its stream is consumed, or when routing fails.
+ */
+export class RequestAudit {
+  private startedAt = performance.now();
+  private attempts: RequestAttempt[] = [];
+  private served: { providerKey: string; model: string } | null = null;
+  private ttftMs: number | null = null;
+  private finished = false;
+
+  constructor(
+    private origin: RequestOrigin,
+    private messages: ChatMessage[],
+    private options: ChatRequestOptions,
+    private strategy: RoutingStrategy | null,
+    private write: (entry: NewRequestLog) => void = writeRequestLog
+  ) {}
+
+  /**
+   * Record a provider/model attempt. Without `error` the attempt started
+   * streaming and now serves the request.
+   */
+  recordAttempt(service: AIServiceWithModel, latencyMs: number, error?: unknown): void {
+    this.attempts.push({
+      provider_key: service.providerKey,
+      model: service.model,
+      key_name: service.keyName ?? null,
+      latency_ms: Math.round(latencyMs),
+      error: error === undefined ? null : errorMessage(error),
+    });
+
+    if (error === undefined) {
+      this.served = { providerKey: service.providerKey, model: service.model };
+      this.ttftMs ??= Math.round(performance.now() - this.startedAt);
+    }
+  }
+
+  /**
+   * Record a request that failed before any provider started streaming.
+   */
+  fail(error: unknown): void {
+    const status: RequestStatus = error instanceof RequestCancelledError ? "cancelled" : "error";
+    this.finish(status, errorMessage(error));
+  }
+
+  /**
+   * Pass a result stream through, logging the request once it ends.
+   * A stream the client stops reading early is logged as cancelled.
+   */
+  async *track(stream: AsyncIterable<ChatStreamEvent>): AsyncIterable<ChatStreamEvent> {
+    let text = "";
+    const toolCalls = new Map<number, { id?: string; name?: string; arguments: string }>();
+    let usage: { inputTokens: number; outputTokens: number } | null = null;
+    let status: RequestStatus = "cancelled";
+    let error: string | null = null;
+
+    try {
+      for await (const event of stream) {
+        switch (event.type) {
+          case "text":
+            text += event.text;
+            break;
+          case "tool_call": {
+            const call = toolCalls.get(event.index) ?? { arguments: "" };
+            call.id ??= event.id;
+            call.name ??= event.name;
+            call.arguments += event.arguments ?? "";
+            toolCalls.set(event.index, call);
+            break;
+          }
+          case "usage":
+            usage = { inputTokens: event.inputTokens, outputTokens: event.outputTokens };
+            break;
+          case "error":
+            error = event.message;
+            break;
+        }
+        yield event;
+      }
+      status = error ? "error" : "success";
+    } catch (err) {
+      status = err instanceof RequestCancelledError ? "cancelled" : "error";
+      error = errorMessage(err);
+      throw err;
+    } finally {
+      const response = toolCalls.size > 0 ? { text, tool_calls: [...toolCalls.values()] } : { text };
+      this.finish(status, error, usage, JSON.stringify(response));
+    }
+  }
+
+  private finish(
+    status: RequestStatus,
+    error: string | null,
+    usage: { inputTokens: number; outputTokens: number } | null = null,
+    responseBody: string | null = null
+  ): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    const logBodies = shouldLogBodies();
+    const { signal, origin, allowedModels, ...requestOptions } = this.options;
+
+    this.write({
+      api_key_id: this.origin.apiKeyId ?? null,
+      route: this.origin.route,
+      requested_model: this.options.model ?? null,
+      strategy: this.strategy,
+      provider_key: this.served?.providerKey ?? null,
+      model: this.served?.model ?? null,
+      attempts: this.attempts,
+      status,
+      error,
+      latency_ms: Math.round(performance.now() - this.startedAt),
+      ttft_ms: this.ttftMs,
+      input_tokens: usage?.inputTokens ?? null,
+      output_tokens: usage?.outputTokens ?? null,
+      request_body: logBodies ? JSON.stringify({ ...requestOptions, messages: this.messages }) : null,
+      response_body: logBodies ? responseBody : null,
+    });
+  }
+}
+
+/**
+ * Start auditing a request, or return null if it has no origin or the log is off.
+ */
+export function startRequestAudit(
+  messages: ChatMessage[],
+  options: ChatRequestOptions,
+  strategy: RoutingStrategy | null
+): RequestAudit | null {
+  if (!options.origin || !isAuditLogEnabled()) return null;
+  return new RequestAudit(options.origin, messages, options, strategy);
+}
+
+/**
+ * Insert a log entry and prune old ones at most once an hour.
+ * Logging never fails a request: database errors are only reported.
+ */
+function writeRequestLog(entry: NewRequestLog): void {
+  try {
+    // Loaded lazily so routing works without a database
+    const { insertRequestLog, pruneRequestLogs } = require("../db/requests.ts") as typeof import("../db/requests.ts");
+    insertRequestLog(entry);
+
+    const retentionDays = getRetentionDays();
+    if (retentionDays > 0 && Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+      lastPruneAt = Date.now();
+      pruneRequestLogs(retentionDays);
+    }
+  } catch (error) {
+    console.error("Failed to write the audit log:", error);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,39 @@
+/**
+ * Client cancellation.
+ * When the client disconnects, the request's AbortSignal fires and the
+ * upstream provider call is aborted. Cancellations are not provider failures:
+ * they never trip the circuit breaker or trigger failover.
+ */
+
+/**
+ * Error raised when the client cancelled the request.
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("Request cancelled by the client");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Check if an error (or the request's signal) means the client went away.
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof RequestCancelledError || !!signal?.aborted;
+}
+
+/**
+ * Abort `controller` when `signal` aborts. Returns a function that unlinks them.
+ */
+export function linkAbortSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) return () => {};
+
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+    return () => {};
+  }
+
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
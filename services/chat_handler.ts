@@ -1,17 +1,85 @@
 import { getActiveProviders, createServiceWithModel } from "./ai_controller.ts";
-import type { ChatMessage, AIServiceWithModel, ActiveProvider } from "@defaults/types";
-import type { ProviderKey } from "@defaults/providers";
+import type {
+  ChatMessage,
+  ChatRequestOptions,
+  ChatStreamEvent,
+  AIServiceWithModel,
+  ActiveProvider,
+  RoutingStrategy,
+} from "@defaults/types";
+import { getProviderDefinition, requiresTools } from "@defaults/providers";
+import {
+  resolveModelRoute,
+  applyModelRoute,
+  applyModelAllowlist,
+  ModelNotFoundError,
+  ROTATION_MODEL,
+} from "./model_router.ts";
+import { getModelCapabilities } from "./models_config.ts";
+import { hasImages, ImageFetchError } from "./content.ts";
+import {
+  ContextLengthExceededError,
+  createContextFitter,
+  getContextWindow,
+  type ContextFitter,
+} from "./context_window.ts";
+import {
+  acquireAttempt,
+  filterAvailableProviders,
+  recordCancelled,
+  recordFailure,
+  recordSuccess,
+  releaseAttempt,
+} from "./health.ts";
+import { classifyProviderError } from "./provider_errors.ts";
+import { recordRateLimited } from "./rate_limits.ts";
+import { hasUsableKey, isKeyUsable, recordKeyAuthFailure } from "./key_pool.ts";
+import {
+  buildContinuationMessages,
+  withErrorEvent,
+  withStreamRecovery,
+  type ResumedStream,
+} from "./stream_recovery.ts";
+import { isCancellation, linkAbortSignal, RequestCancelledError } from "./cancellation.ts";
+import {
+  advanceRoundRobin,
+  getDefaultRoutingStrategy,
+  orderProviders,
+  recordLatency,
+  resetRouting,
+} from "./routing.ts";
+import { startRequestAudit, type RequestAudit } from "./audit_log.ts";
+import { recordFailedRequest, recordFailover, recordTimeToFirstToken, trackStream } from "./metrics.ts";
+import { trackKeyUsage } from "./key_limits.ts";
+import { countRequestTokens, countTokens } from "./tokenizer.ts";
 
-// Track current provider index for round-robin
-let currentProviderIndex = 0;
+// provider/model pairs that rejected a request because they cannot use tools
+const toolIncapableModels = new Set<string>();
 
-export interface ChatResult {
-  stream: AsyncIterable<string>;
+/**
+ * Request options plus the request's audit, if it is being logged.
+ */
+interface RouteOptions extends ChatRequestOptions {
+  audit?: RequestAudit | null;
+}
+
+/**
+ * A provider that accepted the request and started streaming.
+ */
+interface ProviderResult {
+  stream: AsyncIterable<ChatStreamEvent>;
   serviceName: string;
   model: string;
   providerKey: string;
 }
 
+export interface ChatResult extends ProviderResult {
+  /** Routing strategy that ordered the providers for this request. */
+  strategy: RoutingStrategy;
+  /** Abort the upstream call, e.g. when the client disconnects. */
+  cancel(): void;
+}
+
 /**
  * Get the count of active providers.
  */
@@ -24,22 +92,37 @@ export function getProvidersCount(): number {
  */
 async function tryModel(
   service: AIServiceWithModel,
-  messages: ChatMessage[]
-): Promise<ChatResult | null> {
+  messages: ChatMessage[],
+  options: RouteOptions
+): Promise<ProviderResult | null> {
+  if (!acquireAttempt(service.providerKey, service.model)) {
+    console.log(`Skipping ${service.name} (${service.model}): rate limited or circuit open`);
+    return null;
+  }
+
+  const startedAt = performance.now();
   try {
-    const stream = service.chat(messages) as AsyncIterable<string>;
+    const stream = service.chat(messages, options.signal);
 
-    // Validate by fetching first chunk
+    // Validate by fetching first event
     const iterator = stream[Symbol.asyncIterator]();
     const firstResult = await iterator.next();
 
     if (firstResult.done) {
       console.error(`${service.name} (${service.model}) returned empty response`);
+      recordFailure(service.providerKey, service.model, new Error("Empty response"));
+      options.audit?.recordAttempt(service, performance.now() - startedAt, new Error("Empty response"));
       return null;
     }
 
-    // Create combined stream with first chunk + rest
-    const combinedStream = createCombinedStream(firstResult.value, iterator);
+    recordSuccess(service.providerKey, service.model);
+    const latencyMs = performance.now() - startedAt;
+    recordLatency(service.providerKey, latencyMs);
+    recordTimeToFirstToken(service.providerKey, service.model, latencyMs);
+    options.audit?.recordAttempt(service, latencyMs);
+
+    // Create combined stream with first event + rest
+    const combinedStream = createCombinedStream(firstResult.value, iterator, service, options.signal);
 
     return {
       stream: combinedStream,
@@ -48,37 +131,124 @@ async function tryModel(
       providerKey: service.providerKey,
     };
   } catch (error) {
+    if (isCancellation(error, options.signal)) {
+      recordCancelled(service.providerKey, service.model);
+      throw new RequestCancelledError();
+    }
     console.error(`${service.name} (${service.model}) failed:`, error);
+    recordProviderError(service, error, options);
+    options.audit?.recordAttempt(service, performance.now() - startedAt, error);
+    // Another provider would fetch the same image URL
+    if (error instanceof ImageFetchError) throw error;
     return null;
   }
 }
 
+/**
+ * Update health and rate-limit state after a provider error.
+ * Only failures that say something about the provider count against its breaker;
+ * rate limits and auth failures on a pool key are held against that key.
+ */
+function recordProviderError(service: AIServiceWithModel, error: unknown, options: ChatRequestOptions): void {
+  const { providerKey, model, keyName } = service;
+
+  if (requiresTools(options) && isToolsUnsupportedError(error)) {
+    // The model works, it just cannot serve this kind of request
+    toolIncapableModels.add(`${providerKey}/${model}`);
+    recordSuccess(providerKey, model);
+    return;
+  }
+
+  const classified = classifyProviderError(error);
+  switch (classified.category) {
+    case "rate_limit":
+      recordRateLimited(providerKey, model, classified, keyName);
+      releaseAttempt(providerKey, model);
+      break;
+    case "auth":
+      if (!keyName) {
+        recordFailure(providerKey, model, error);
+        break;
+      }
+      recordKeyAuthFailure(providerKey, keyName, error);
+      releaseAttempt(providerKey, model);
+      break;
+    case "context_length":
+    case "invalid_request":
+      if (error instanceof ImageFetchError) {
+        // The image download failed before the provider was called
+        releaseAttempt(providerKey, model);
+        break;
+      }
+      // The provider answered; the request just did not fit this model
+      recordSuccess(providerKey, model);
+      break;
+    default:
+      recordFailure(providerKey, model, error);
+  }
+}
+
+/**
+ * Detect provider errors that mean the model cannot use tools.
+ */
+function isToolsUnsupportedError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /(does not|doesn't) support tools|tools? (use |calling )?(is )?not supported|function calling is not enabled/i.test(message);
+}
+
+/**
+ * Check if a provider/model can serve a request that needs tools.
+ * The model's `supportsTools` in models.json overrides the provider default.
+ */
+function canUseTools(providerKey: string, model: string): boolean {
+  const definition = getProviderDefinition(providerKey);
+  const supportsTools = getModelCapabilities(providerKey, model).supportsTools ?? definition?.supportsTools;
+  if (!supportsTools) return false;
+  return !toolIncapableModels.has(`${providerKey}/${model}`);
+}
+
+/**
+ * Check if a provider/model accepts image input (`supportsVision` in models.json).
+ */
+function canReadImages(providerKey: string, model: string): boolean {
+  return getModelCapabilities(providerKey, model).supportsVision ?? false;
+}
+
 /**
  * Try all models for a provider (with fallback if enabled).
+ * Each model gets the messages `context` fitted to its window.
  * Returns result on first success, or null if all models fail.
  */
 async function tryProvider(
   provider: ActiveProvider,
-  messages: ChatMessage[]
-): Promise<{ result: ChatResult | null; lastError: Error | null }> {
+  context: ContextFitter,
+  options: RouteOptions
+): Promise<{ result: ProviderResult | null; lastError: Error | null }> {
   let lastError: Error | null = null;
+  const { messages } = context;
+  const modelsToTry = getCandidateModels(provider, context, options);
 
-  // Get models to try: default first, then others if fallback enabled
-  const modelsToTry = provider.enableFallback
-    ? getOrderedModels(provider.models, provider.defaultModel)
-    : [provider.defaultModel];
+  if (modelsToTry.length === 0) {
+    console.log(`Skipping ${provider.name}: no model fits this request`);
+    return { result: null, lastError: null };
+  }
 
   for (const model of modelsToTry) {
     console.log(`Using service: ${provider.name} (model: ${model})`);
 
     try {
-      const service = createServiceWithModel(provider.key as ProviderKey, model);
-      const result = await tryModel(service, messages);
+      const fitted = context.fit(provider.key, model) ?? messages;
+      if (fitted !== messages) {
+        console.log(`Trimmed ${messages.length - fitted.length} middle messages to fit ${model}'s context window`);
+      }
+      const result = await tryModelKeys(provider, model, fitted, options);
 
       if (result) {
         return { result, lastError: null };
       }
+      recordFailover(provider.key, model);
     } catch (error) {
+      if (error instanceof RequestCancelledError || error instanceof ImageFetchError) throw error;
       lastError = error instanceof Error ? error : new Error(String(error));
       console.error(`Failed to create service for ${provider.name}/${model}:`, error);
     }
@@ -94,6 +264,96 @@ async function tryProvider(
   return { result: null, lastError };
 }
 
+/**
+ * Try a model on the provider's key pool. When the key used gets rate
+ * limited or fails auth, the next usable key is tried before giving up.
+ */
+async function tryModelKeys(
+  provider: ActiveProvider,
+  model: string,
+  messages: ChatMessage[],
+  options: RouteOptions
+): Promise<ProviderResult | null> {
+  while (true) {
+    const service = createServiceWithModel(provider.key, model, options);
+    const result = await tryModel(service, messages, options);
+
+    const keyName = service.keyName;
+    if (result || !keyName || isKeyUsable(provider.key, model, keyName) || !hasUsableKey(provider.key, model)) {
+      return result;
+    }
+    console.log(`${provider.name} key ${keyName} unavailable, trying the next key...`);
+  }
+}
+
+/**
+ * Get the models of a provider that may serve this request, in try order.
+ * Default first, then others if fallback is enabled. Models that cannot
+ * honor tool definitions or read the request's images (see the model
+ * capabilities in models.json) are skipped instead of silently returning prose,
+ * and so are models whose context window cannot fit the request (unless
+ * `checkContext` is false).
+ */
+function getCandidateModels(
+  provider: ActiveProvider,
+  context: ContextFitter,
+  options: ChatRequestOptions,
+  checkContext = true
+): string[] {
+  let models = provider.enableFallback
+    ? getOrderedModels(provider.models, provider.defaultModel)
+    : [provider.defaultModel];
+
+  if (requiresTools(options)) {
+    models = models.filter((model) => canUseTools(provider.key, model));
+  }
+  if (hasImages(context.messages)) {
+    models = models.filter((model) => canReadImages(provider.key, model));
+  }
+  if (checkContext) {
+    models = models.filter((model) => context.fit(provider.key, model) !== null);
+  }
+
+  return models;
+}
+
+/**
+ * Build the error for a request that no provider can serve.
+ * If some models have the needed capabilities but none can fit the prompt,
+ * report the context length instead.
+ */
+function noCandidateError(
+  providers: ActiveProvider[],
+  context: ContextFitter,
+  options: ChatRequestOptions,
+  subject: string
+): Error {
+  let requiredTokens = 0;
+  let maxContextTokens = 0;
+
+  for (const provider of providers) {
+    for (const model of getCandidateModels(provider, context, options, false)) {
+      requiredTokens = Math.max(requiredTokens, context.requiredTokens(provider.key, model));
+      maxContextTokens = Math.max(maxContextTokens, getContextWindow(provider.key, model) ?? 0);
+    }
+  }
+
+  if (requiredTokens > 0) {
+    return new ContextLengthExceededError(requiredTokens, maxContextTokens);
+  }
+  return new Error(`${subject} ${describeRequirements(context.messages, options)} for this request`);
+}
+
+/**
+ * Describe the capabilities a request needs, for routing errors.
+ */
+function describeRequirements(messages: ChatMessage[], options: ChatRequestOptions): string {
+  const requirements: string[] = [];
+  if (requiresTools(options)) requirements.push("tool calling");
+  if (hasImages(messages)) requirements.push("image input");
+  return requirements.join(" and ");
+}
+
 /**
  * Get models in order: default first, then rest.
  */
@@ -111,37 +371,124 @@ function getOrderedModels(models: string[], defaultModel: string): string[] {
  * Handles chat with automatic retry/fallback logic.
  *
  * Fallback order:
- * 1. Try current provider's default model
+ * 1. Try the first provider's default model
  * 2. If enableFallback=true, try other models in the provider
  * 3. Move to next provider and repeat
  * 4. Continue until success or all providers exhausted
+ *
+ * Provider order comes from `options.routingStrategy` (default from
+ * ROUTING_STRATEGY, see routing.ts).
+ *
+ * Models with an open circuit breaker are skipped (see health.ts), and so
+ * are models whose context window cannot fit the prompt plus `max_tokens`.
+ * With `contextStrategy: "trim"` middle turns are dropped to fit instead
+ * (see context_window.ts). If nothing fits, throws ContextLengthExceededError.
+ *
+ * A `model` option naming a provider or provider/model pins the request
+ * instead (throws ModelNotFoundError for unknown names).
+ *
+ * With `options.allowedModels` only those providers and models are used;
+ * anything else is treated as unknown.
+ *
+ * An image URL that cannot be downloaded throws ImageFetchError without
+ * trying other providers, which would fetch the same URL.
+ *
+ * The returned `cancel()` and `options.signal` both abort the upstream call;
+ * a cancelled request throws RequestCancelledError and is never retried.
+ *
+ * With `options.origin` set, the request is written to the audit log once
+ * its stream ends (see audit_log.ts). With an `origin.apiKeyId`, its token
+ * usage is added to the key's daily total (see key_limits.ts).
  */
-export async function handleChat(messages: ChatMessage[]): Promise<ChatResult> {
-  const providers = getActiveProviders();
+export async function handleChat(
+  messages: ChatMessage[],
+  options: ChatRequestOptions = {}
+): Promise<ChatResult> {
+  const controller = new AbortController();
+  linkAbortSignal(options.signal, controller);
 
-  if (providers.length === 0) {
+  const startedAt = performance.now();
+  const route = options.origin?.route ?? "internal";
+  const strategy = options.routingStrategy ?? getDefaultRoutingStrategy();
+  const audit = startRequestAudit(messages, options, strategy);
+  const keyId = options.origin?.apiKeyId;
+
+  let result: ProviderResult;
+  try {
+    result = await routeChat(messages, { ...options, signal: controller.signal, audit }, strategy);
+  } catch (error) {
+    audit?.fail(error);
+    const outcome = error instanceof RequestCancelledError ? "cancelled" : "error";
+    recordFailedRequest(route, outcome, performance.now() - startedAt);
+    throw error;
+  }
+
+  let stream = trackStream(result.stream, { route, providerKey: result.providerKey, model: result.model }, startedAt);
+  if (keyId !== undefined) {
+    // Providers that report no usage are charged the tokenizer's estimate
+    stream = trackKeyUsage(stream, keyId, (output) =>
+      countRequestTokens(messages, options.tools, result.model) + countTokens(output, result.model)
+    );
+  }
+  return {
+    ...result,
+    stream: audit ? audit.track(stream) : stream,
+    strategy,
+    cancel: () => {
+      controller.abort(new RequestCancelledError());
+    },
+  };
+}
+
+/**
+ * Pick the providers for a request and return the first that starts streaming.
+ */
+async function routeChat(
+  messages: ChatMessage[],
+  options: RouteOptions,
+  strategy: RoutingStrategy
+): Promise<ProviderResult> {
+  const configuredProviders = getActiveProviders({ includeUnavailable: true });
+
+  if (configuredProviders.length === 0) {
     throw new Error("No AI providers configured. Please configure at least one provider with an API key.");
   }
 
-  // Ensure index is within bounds
-  currentProviderIndex = currentProviderIndex % providers.length;
+  // Providers outside the API key's allowlist cannot be pinned or rotated to
+  const activeProviders = applyModelAllowlist(configuredProviders, options.allowedModels);
+  if (activeProviders.length === 0) {
+    throw new ModelNotFoundError(options.model ?? ROTATION_MODEL);
+  }
 
-  let lastError: Error | null = null;
-  const startIndex = currentProviderIndex;
+  const route = resolveModelRoute(options.model, activeProviders);
+  const providers = filterAvailableProviders(applyModelRoute(route, activeProviders));
+
+  if (providers.length === 0) {
+    throw new Error("All providers for this request are temporarily unavailable (circuit breaker open)");
+  }
 
-  // Try each provider in round-robin order
-  for (let i = 0; i < providers.length; i++) {
-    const providerIndex = (startIndex + i) % providers.length;
-    const provider = providers[providerIndex];
+  const context = createContextFitter(messages, options);
+  if (route.type !== "rotation") {
+    return tryPinnedProviders(providers, context, options);
+  }
 
-    if (!provider) continue;
+  if (!providers.some((provider) => getCandidateModels(provider, context, options).length > 0)) {
+    throw noCandidateError(providers, context, options, "No active provider supports");
+  }
 
-    const { result, lastError: providerError } = await tryProvider(provider, messages);
+  let lastError: Error | null = null;
+  const ordered = orderProviders(providers, strategy);
+
+  // Try each provider in the strategy's order
+  for (const [i, provider] of ordered.entries()) {
+    const { result, lastError: providerError } = await tryProvider(provider, context, options);
 
     if (result) {
-      // Update index to next provider for round-robin
-      currentProviderIndex = (providerIndex + 1) % providers.length;
-      return result;
+      if (strategy === "round-robin") {
+        advanceRoundRobin(providers, provider);
+      }
+      const fallbacks = [...ordered.slice(i + 1), ...ordered.slice(0, i)];
+      return withRecovery(result, provider, messages, options, fallbacks);
     }
 
     if (providerError) {
@@ -155,24 +502,123 @@ export async function handleChat(messages: ChatMessage[]): Promise<ChatResult> {
 }
 
 /**
- * Create a combined async iterable from first chunk and remaining iterator.
+ * Serve a pinned request without touching the round-robin position.
+ */
+async function tryPinnedProviders(
+  providers: ActiveProvider[],
+  context: ContextFitter,
+  options: RouteOptions
+): Promise<ProviderResult> {
+  let lastError: Error | null = null;
+
+  for (const [i, provider] of providers.entries()) {
+    if (getCandidateModels(provider, context, options).length === 0) {
+      throw noCandidateError([provider], context, options, `${provider.name} has no model that supports`);
+    }
+
+    const { result, lastError: providerError } = await tryProvider(provider, context, options);
+    if (result) {
+      return withRecovery(result, provider, context.messages, options, providers.slice(i + 1));
+    }
+    if (providerError) {
+      lastError = providerError;
+    }
+  }
+
+  throw lastError || new Error(`${options.model} failed to respond`);
+}
+
+/**
+ * Make a result's stream continue on `fallbacks` (in order) if its provider
+ * fails mid-stream. The failed model's siblings are tried last. If nothing
+ * can continue it, the stream ends with an error event.
+ */
+function withRecovery(
+  result: ProviderResult,
+  provider: ActiveProvider,
+  messages: ChatMessage[],
+  options: RouteOptions,
+  fallbacks: ActiveProvider[]
+): ProviderResult {
+  const queue = [...fallbacks];
+  let current = { provider, model: result.model };
+
+  const resume = async (partialText: string): Promise<ResumedStream | null> => {
+    const siblings = withoutModel(current.provider, current.model);
+    if (siblings) {
+      queue.push(siblings);
+    }
+
+    const continuation = createContextFitter(buildContinuationMessages(messages, partialText), options);
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      const { result: resumed } = await tryProvider(next, continuation, options);
+      if (resumed) {
+        current = { provider: next, model: resumed.model };
+        return resumed;
+      }
+    }
+    return null;
+  };
+
+  return { ...result, stream: withErrorEvent(withStreamRecovery(result, resume)) };
+}
+
+/**
+ * Remove a model from a provider's fallback chain.
+ * Returns null if nothing is left to try.
+ */
+function withoutModel(provider: ActiveProvider, model: string): ActiveProvider | null {
+  if (!provider.enableFallback) return null;
+
+  const models = provider.models.filter((m) => m !== model);
+  if (models.length === 0) return null;
+
+  return {
+    ...provider,
+    models,
+    defaultModel: provider.defaultModel === model ? models[0]! : provider.defaultModel,
+  };
+}
+
+/**
+ * Create a combined async iterable from first event and remaining iterator.
+ * Mid-stream failures count against the service's health (or its rate limit);
+ * client cancellations do not.
  */
 async function* createCombinedStream(
-  firstChunk: string,
-  iterator: AsyncIterator<string>
-): AsyncIterable<string> {
-  yield firstChunk;
+  firstEvent: ChatStreamEvent,
+  iterator: AsyncIterator<ChatStreamEvent>,
+  service: AIServiceWithModel,
+  signal?: AbortSignal
+): AsyncIterable<ChatStreamEvent> {
+  yield firstEvent;
 
   while (true) {
-    const { done, value } = await iterator.next();
-    if (done) break;
-    yield value;
+    let result: IteratorResult<ChatStreamEvent>;
+    try {
+      result = await iterator.next();
+    } catch (error) {
+      if (isCancellation(error, signal)) {
+        recordCancelled(service.providerKey, service.model);
+        throw new RequestCancelledError();
+      }
+      const classified = classifyProviderError(error);
+      if (classified.category === "rate_limit") {
+        recordRateLimited(service.providerKey, service.model, classified, service.keyName);
+      } else {
+        recordFailure(service.providerKey, service.model, error);
+      }
+      throw error;
+    }
+    if (result.done) break;
+    yield result.value;
   }
 }
 
 /**
- * Reset the provider index (useful for testing).
+ * Reset the round-robin position and latencies (useful for testing).
  */
 export function resetProviderIndex(): void {
-  currentProviderIndex = 0;
+  resetRouting();
 }
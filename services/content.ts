@@ -0,0 +1,282 @@
+/**
+ * Multimodal message content helpers.
+ * Routes build content parts in OpenAI format; providers that need the raw
+ * image bytes (Gemini, Ollama) load them here.
+ */
+
+import { lookup as dnsLookup } from "dns/promises";
+import { isIP } from "net";
+import type { ChatMessage, ContentPart, MessageContent } from "@defaults/types";
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+/** Largest image downloaded from a URL (the OpenAI API limit). */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+export const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+const MAX_IMAGE_REDIRECTS = 3;
+
+/**
+ * Resolves a host name to its IP addresses.
+ */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+/**
+ * An image URL that cannot be downloaded: not http(s), a non-public host,
+ * not an image, too large or too slow.
+ */
+export class ImageFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageFetchError";
+  }
+}
+
+/**
+ * A base64-encoded image.
+ */
+export interface InlineImage {
+  mediaType: string;
+  data: string;
+}
+
+/**
+ * Get the text of message content, with text parts joined by newlines.
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Count the image parts of message content.
+ */
+export function countImages(content: MessageContent): number {
+  if (typeof content === "string") {
+    return 0;
+  }
+  return content.filter((part) => part.type === "image_url").length;
+}
+
+/**
+ * Check if any message carries an image.
+ */
+export function hasImages(messages: ChatMessage[]): boolean {
+  return messages.some((message) => countImages(message.content) > 0);
+}
+
+/**
+ * Build message content from parts, keeping it a plain string when there are
+ * no images so text-only providers see the usual shape.
+ */
+export function toMessageContent(parts: ContentPart[]): MessageContent {
+  return parts.some((part) => part.type === "image_url") ? parts : getTextContent(parts);
+}
+
+/**
+ * Build a base64 data URL.
+ */
+export function toDataUrl(image: InlineImage): string {
+  return `data:${image.mediaType};base64,${image.data}`;
+}
+
+/**
+ * Parse a base64 data URL. Returns null for anything else.
+ */
+export function parseDataUrl(url: string): InlineImage | null {
+  const match = DATA_URL_PATTERN.exec(url);
+  return match ? { mediaType: match[1]!, data: match[2]! } : null;
+}
+
+/**
+ * Get an image as base64, downloading it if it is not a data URL.
+ * Downloads are limited to public http(s) hosts, image content types,
+ * MAX_IMAGE_BYTES and IMAGE_FETCH_TIMEOUT_MS, so client-supplied URLs cannot
+ * read local files or reach the server's network.
+ */
+export async function loadImage(
+  url: string,
+  signal?: AbortSignal,
+  lookup: HostLookup = lookupHost
+): Promise<InlineImage> {
+  const inline = parseDataUrl(url);
+  if (inline) {
+    return inline;
+  }
+
+  const timeout = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+  const fetchSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  try {
+    const response = await fetchPublicUrl(url, fetchSignal, lookup);
+    if (!response.ok) {
+      throw new ImageFetchError(`Failed to fetch image ${url}: HTTP ${response.status}`);
+    }
+
+    const mediaType = response.headers.get("content-type")?.split(";")[0]?.trim().toLowerCase() ?? "";
+    if (!mediaType.startsWith("image/")) {
+      throw new ImageFetchError(`Failed to fetch image ${url}: content type "${mediaType}" is not an image`);
+    }
+
+    const data = Buffer.from(await readLimited(response, url)).toString("base64");
+    return { mediaType, data };
+  } catch (error) {
+    if (timeout.aborted && !signal?.aborted) {
+      throw new ImageFetchError(`Failed to fetch image ${url}: no response after ${IMAGE_FETCH_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace image URLs with data URLs, for providers that only accept base64.
+ */
+export async function inlineImageUrls(
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  lookup: HostLookup = lookupHost
+): Promise<ChatMessage[]> {
+  if (!hasImages(messages)) {
+    return messages;
+  }
+
+  return Promise.all(
+    messages.map(async (message) => {
+      if (typeof message.content === "string") {
+        return message;
+      }
+      const content = await Promise.all(
+        message.content.map(async (part): Promise<ContentPart> => {
+          if (part.type !== "image_url" || parseDataUrl(part.image_url.url)) {
+            return part;
+          }
+          const image = await loadImage(part.image_url.url, signal, lookup);
+          return { ...part, image_url: { ...part.image_url, url: toDataUrl(image) } };
+        })
+      );
+      return { ...message, content };
+    })
+  );
+}
+
+/**
+ * Fetch a URL after checking it, and every redirect it leads to, points to
+ * a public http(s) host.
+ */
+async function fetchPublicUrl(url: string, signal: AbortSignal, lookup: HostLookup): Promise<Response> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current, lookup);
+    const response = await fetch(current, { signal, redirect: "manual" });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects >= MAX_IMAGE_REDIRECTS) {
+      throw new ImageFetchError(`Failed to fetch image ${url}: too many redirects`);
+    }
+    current = new URL(location, current).href;
+  }
+}
+
+async function assertPublicUrl(url: string, lookup: HostLookup): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ImageFetchError(`Invalid image URL ${url}`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new ImageFetchError(`Image URLs must use http or https, got ${parsed.protocol}`);
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+  } catch {
+    throw new ImageFetchError(`Failed to fetch image ${url}: cannot resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new ImageFetchError(`Image host ${hostname} is not a public address`);
+  }
+}
+
+async function lookupHost(hostname: string): Promise<string[]> {
+  return (await dnsLookup(hostname, { all: true })).map((entry) => entry.address);
+}
+
+/**
+ * Check that an IP address is publicly routable: not loopback, private,
+ * link-local, carrier-grade NAT, multicast or reserved.
+ */
+export function isPublicAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number) as [number, number];
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && address.startsWith("192.0.0.")) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  if (isIP(address) === 6) {
+    const first = parseInt(address.split(":")[0] || "0", 16);
+    return !(
+      first === 0 || // ::, ::1 and IPv4-mapped/compatible addresses
+      address.toLowerCase().startsWith("64:ff9b:") || // NAT64
+      (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+      (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+      (first & 0xff00) === 0xff00 // multicast ff00::/8
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Read a response body, failing once it passes MAX_IMAGE_BYTES.
+ */
+async function readLimited(response: Response, url: string): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new ImageFetchError(`Failed to fetch image ${url}: larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+
+  if (Number(response.headers.get("content-length")) > MAX_IMAGE_BYTES) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
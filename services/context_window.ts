@@ -0,0 +1,207 @@
+/**
+ * Context window checks.
+ * Compares the estimated prompt plus requested output against each model's
+ * `contextWindow` from models.json. Models without a known window always fit.
+ */
+
+import type { ChatMessage, ChatRequestOptions } from "@defaults/types";
+import { getModelCapabilities } from "./models_config";
+import {
+  countMessage,
+  countToolTokens,
+  getTokenizer,
+  REPLY_OVERHEAD_TOKENS,
+  type Tokenizer,
+} from "./tokenizer";
+
+/**
+ * Error thrown when no candidate model can fit the request.
+ */
+export class ContextLengthExceededError extends Error {
+  requiredTokens: number;
+  maxContextTokens: number;
+
+  constructor(requiredTokens: number, maxContextTokens: number) {
+    super(
+      `This request needs about ${requiredTokens} tokens, more than the largest available context window (${maxContextTokens} tokens)`
+    );
+    this.name = "ContextLengthExceededError";
+    this.requiredTokens = requiredTokens;
+    this.maxContextTokens = maxContextTokens;
+  }
+}
+
+/**
+ * Get the context window of a model, or null if unknown.
+ */
+export function getContextWindow(providerKey: string, model: string): number | null {
+  return getModelCapabilities(providerKey, model).contextWindow ?? null;
+}
+
+/**
+ * Token counts of a request for one tokenizer.
+ */
+interface TokenCounts {
+  /** Tokens of each message, in order. */
+  messages: number[];
+  /** Tokens outside the messages: tool definitions and the reply primer. */
+  fixed: number;
+}
+
+/**
+ * Context window checks for one request across many models.
+ * Messages are tokenized once per tokenizer and each model's fit is computed
+ * once, so routing can check every candidate without re-tokenizing.
+ */
+export interface ContextFitter {
+  /** The request's messages, untrimmed. */
+  messages: ChatMessage[];
+  /** Messages to send to a model, or null if the request cannot fit (see fitMessages). */
+  fit(providerKey: string, model: string): ChatMessage[] | null;
+  /** Tokens the request needs on a model (see estimateRequiredTokens). */
+  requiredTokens(providerKey: string, model: string): number;
+}
+
+/**
+ * Create the context window checks for a request.
+ */
+export function createContextFitter(messages: ChatMessage[], options: ChatRequestOptions): ContextFitter {
+  const countsByTokenizer = new Map<Tokenizer, TokenCounts>();
+  const fitted = new Map<string, ChatMessage[] | null>();
+
+  const countsFor = (model: string): TokenCounts => {
+    const tokenizer = getTokenizer(model);
+    let counts = countsByTokenizer.get(tokenizer);
+    if (!counts) {
+      counts = {
+        messages: messages.map((message) => countMessage(message, tokenizer)),
+        fixed: REPLY_OVERHEAD_TOKENS + countToolTokens(options.tools, model),
+      };
+      countsByTokenizer.set(tokenizer, counts);
+    }
+    return counts;
+  };
+
+  // The requested output, capped at the model's maxOutput like the provider params
+  const outputTokens = (providerKey: string, model: string): number => {
+    const { maxOutput } = getModelCapabilities(providerKey, model);
+    return Math.min(options.max_tokens ?? 0, maxOutput ?? Number.MAX_SAFE_INTEGER);
+  };
+
+  const fitModel = (providerKey: string, model: string): ChatMessage[] | null => {
+    const contextWindow = getContextWindow(providerKey, model);
+    if (contextWindow === null) {
+      return messages;
+    }
+
+    const counts = countsFor(model);
+    const budget = contextWindow - counts.fixed - outputTokens(providerKey, model);
+    if (sum(counts.messages) <= budget) {
+      return messages;
+    }
+    if (options.contextStrategy !== "trim") {
+      return null;
+    }
+
+    // suffix[i] is the tokens of messages[i..], so each cut is checked in O(1)
+    const suffix = suffixSums(counts.messages);
+    const headTokens = suffix[0]! - suffix[headLength(messages)]!;
+    return trimFrom(messages, (start) => headTokens + suffix[start]! <= budget);
+  };
+
+  return {
+    messages,
+    fit(providerKey, model) {
+      const key = `${providerKey}/${model}`;
+      if (!fitted.has(key)) {
+        fitted.set(key, fitModel(providerKey, model));
+      }
+      return fitted.get(key)!;
+    },
+    requiredTokens(providerKey, model) {
+      const counts = countsFor(model);
+      return counts.fixed + sum(counts.messages) + outputTokens(providerKey, model);
+    },
+  };
+}
+
+/**
+ * Estimate the tokens a request needs on a model: the prompt plus the
+ * requested output, capped at the model's maxOutput like the provider params.
+ */
+export function estimateRequiredTokens(
+  messages: ChatMessage[],
+  options: ChatRequestOptions,
+  providerKey: string,
+  model: string
+): number {
+  return createContextFitter(messages, options).requiredTokens(providerKey, model);
+}
+
+/**
+ * Get the messages to send to a model, or null if the request cannot fit.
+ * With the "trim" strategy, middle turns are dropped until it fits.
+ */
+export function fitMessages(
+  messages: ChatMessage[],
+  options: ChatRequestOptions,
+  providerKey: string,
+  model: string
+): ChatMessage[] | null {
+  return createContextFitter(messages, options).fit(providerKey, model);
+}
+
+/**
+ * Drop the oldest middle turns until `fits` accepts the conversation.
+ * The system prompt and the first message (usually the task) are always kept,
+ * as are the most recent turns. The kept tail never starts with a tool result,
+ * so tool calls stay paired with their results. Returns null if even the
+ * last turn does not fit.
+ */
+export function trimMessages(
+  messages: ChatMessage[],
+  fits: (messages: ChatMessage[]) => boolean
+): ChatMessage[] | null {
+  const head = messages.slice(0, headLength(messages));
+  return trimFrom(messages, (start) => fits([...head, ...messages.slice(start)]));
+}
+
+/**
+ * Number of leading messages trimming always keeps: the system prompts and
+ * the first conversation message.
+ */
+function headLength(messages: ChatMessage[]): number {
+  let length = 0;
+  while (messages[length]?.role === "system") {
+    length++;
+  }
+  return Math.min(length + 1, messages.length);
+}
+
+/**
+ * Keep the head and the tail from the first start index `fits` accepts,
+ * trying the oldest cut first (see trimMessages).
+ */
+function trimFrom(messages: ChatMessage[], fits: (start: number) => boolean): ChatMessage[] | null {
+  const head = headLength(messages);
+  for (let start = head + 1; start < messages.length; start++) {
+    if (messages[start]!.role === "tool") continue;
+
+    if (fits(start)) {
+      return [...messages.slice(0, head), ...messages.slice(start)];
+    }
+  }
+  return null;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function suffixSums(values: number[]): number[] {
+  const sums = new Array<number>(values.length + 1).fill(0);
+  for (let i = values.length - 1; i >= 0; i--) {
+    sums[i] = sums[i + 1]! + values[i]!;
+  }
+  return sums;
+}
@@ -1,10 +1,21 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, FunctionCallingMode } from "@google/generative-ai";
+import { getTextContent, loadImage } from "./content";
+import type { MessageContent } from "@defaults/types";
+
+// JSON Schema keys Gemini's OpenAPI subset understands
+const SCHEMA_KEYS = new Set(["type", "format", "description", "nullable", "enum", "properties", "required", "items"]);
+
+// finishReason values that mean the output was blocked
+const BLOCKED_FINISH_REASONS = new Set(["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII"]);
 
 export class GeminiClient {
   private client: GoogleGenerativeAI;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY || "";
+  /**
+   * `apiKey` defaults to GEMINI_API_KEY.
+   */
+  constructor(options: { apiKey?: string } = {}) {
+    const apiKey = options.apiKey || process.env.GEMINI_API_KEY || "";
     if (!apiKey) {
       console.warn("GEMINI_API_KEY is not set");
     }
@@ -13,36 +24,39 @@ export class GeminiClient {
 
   chat = {
     completions: {
-      create: async (params: any) => {
+      create: async (params: any, options: { signal?: AbortSignal } = {}) => {
         const model = this.client.getGenerativeModel({
           model: params.model,
           systemInstruction: this.getSystemInstruction(params.messages),
+          tools: this.formatTools(params.tools),
+          toolConfig: this.formatToolConfig(params.tools, params.tool_choice),
+          generationConfig: this.formatGenerationConfig(params),
         });
 
-        const history = this.formatHistory(params.messages);
-
         // Gemini SDK doesn't support "system" role in history, it must be separate
         // So we filter out system messages from history
+        const contents = await this.formatContents(params.messages, options.signal);
+
+        // The last turn is the new prompt (text or function responses)
+        const prompt = contents.pop()?.parts ?? [];
         const chat = model.startChat({
-          history: history,
+          history: contents,
         });
 
-        // The last message is the new user prompt
-        const lastMessage = params.messages[params.messages.length - 1];
-        const prompt = lastMessage.content;
-
         // Streaming check
         if (params.stream) {
-          const result = await chat.sendMessageStream(prompt);
+          const result = await chat.sendMessageStream(prompt, { signal: options.signal });
           return this.streamResponse(result);
         } else {
-          const result = await chat.sendMessage(prompt);
+          const result = await chat.sendMessage(prompt, { signal: options.signal });
+          const toolCalls = this.formatToolCalls(result.response.functionCalls());
           return {
             choices: [
               {
                 message: {
                   content: result.response.text(),
                   role: "assistant",
+                  tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
                 },
               },
             ],
@@ -54,33 +68,223 @@ export class GeminiClient {
 
   private getSystemInstruction(messages: any[]) {
     const systemMsg = messages.find((m) => m.role === "system");
-    return systemMsg ? systemMsg.content : undefined;
+    return systemMsg ? getTextContent(systemMsg.content) : undefined;
+  }
+
+  /**
+   * Map OpenAI-style sampling params to Gemini's generationConfig.
+   */
+  private formatGenerationConfig(params: any) {
+    return {
+      temperature: params.temperature,
+      topP: params.top_p,
+      topK: params.top_k,
+      maxOutputTokens: params.max_completion_tokens,
+      stopSequences: params.stop ?? undefined,
+    };
+  }
+
+  /**
+   * Convert OpenAI messages to Gemini contents.
+   * Assistant tool calls become functionCall parts and tool results become
+   * functionResponse parts. Consecutive turns of the same role are merged.
+   */
+  private async formatContents(messages: any[], signal?: AbortSignal) {
+    const toolNames = new Map<string, string>();
+    const contents: { role: string; parts: any[] }[] = [];
+
+    for (const m of messages) {
+      if (m.role === "system") continue;
+
+      let role: string;
+      const parts: any[] = [];
+
+      if (m.role === "assistant") {
+        role = "model";
+        const text = getTextContent(m.content);
+        if (text) parts.push({ text });
+        for (const call of m.tool_calls ?? []) {
+          toolNames.set(call.id, call.function.name);
+          parts.push({
+            functionCall: {
+              name: call.function.name,
+              args: this.parseArguments(call.function.arguments),
+            },
+          });
+        }
+      } else if (m.role === "tool") {
+        role = "function";
+        parts.push({
+          functionResponse: {
+            name: m.name ?? toolNames.get(m.tool_call_id) ?? "tool",
+            response: { content: getTextContent(m.content) },
+          },
+        });
+      } else {
+        role = "user";
+        parts.push(...(await this.formatUserParts(m.content, signal)));
+      }
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
   }
 
-  private formatHistory(messages: any[]) {
-    // Filter out system messages (handled separately) and the last message (which is the prompt)
-    // Gemini expects history to be previous turns.
-    return messages
-      .slice(0, -1)
-      .filter((m) => m.role !== "system")
-      .map((m) => ({
-        role: m.role === "assistant" ? "model" : "user",
-        parts: [{ text: m.content }],
-      }));
+  /**
+   * Convert user content to Gemini parts. Images are sent as inlineData,
+   * so URLs are downloaded first.
+   */
+  private async formatUserParts(content: MessageContent, signal?: AbortSignal) {
+    if (typeof content === "string") {
+      return [{ text: content }];
+    }
+
+    const parts: any[] = [];
+    for (const part of content) {
+      if (part.type === "text") {
+        parts.push({ text: part.text });
+      } else {
+        const image = await loadImage(part.image_url.url, signal);
+        parts.push({ inlineData: { mimeType: image.mediaType, data: image.data } });
+      }
+    }
+    return parts;
+  }
+
+  private parseArguments(args: string | undefined): object {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private formatTools(tools: any[] | undefined) {
+    if (!tools || tools.length === 0) return undefined;
+    return [
+      {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters
+            ? this.sanitizeSchema(tool.function.parameters)
+            : undefined,
+        })),
+      },
+    ];
+  }
+
+  private formatToolConfig(tools: any[] | undefined, toolChoice: any) {
+    if (!tools || tools.length === 0 || !toolChoice) return undefined;
+
+    if (typeof toolChoice === "object") {
+      return {
+        functionCallingConfig: {
+          mode: FunctionCallingMode.ANY,
+          allowedFunctionNames: [toolChoice.function.name],
+        },
+      };
+    }
+
+    const modes: Record<string, FunctionCallingMode> = {
+      auto: FunctionCallingMode.AUTO,
+      none: FunctionCallingMode.NONE,
+      required: FunctionCallingMode.ANY,
+    };
+    return { functionCallingConfig: { mode: modes[toolChoice] ?? FunctionCallingMode.AUTO } };
+  }
+
+  /**
+   * Reduce a JSON Schema to the OpenAPI subset Gemini accepts.
+   */
+  private sanitizeSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.sanitizeSchema(item));
+    }
+    if (!schema || typeof schema !== "object") {
+      return schema;
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (!SCHEMA_KEYS.has(key)) continue;
+
+      if (key === "type" && Array.isArray(value)) {
+        // ["string", "null"] -> type: "string", nullable: true
+        result.type = value.find((t) => t !== "null") ?? "string";
+        if (value.includes("null")) result.nullable = true;
+      } else if (key === "properties") {
+        result.properties = Object.fromEntries(
+          Object.entries(value as object).map(([name, prop]) => [name, this.sanitizeSchema(prop)])
+        );
+      } else {
+        result[key] = this.sanitizeSchema(value);
+      }
+    }
+    return result;
+  }
+
+  private formatToolCalls(calls: { name: string; args: object }[] | undefined, startIndex = 0) {
+    return (calls ?? []).map((call, i) => ({
+      index: startIndex + i,
+      id: `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+      type: "function",
+      function: {
+        name: call.name,
+        arguments: JSON.stringify(call.args ?? {}),
+      },
+    }));
+  }
+
+  /**
+   * Map Gemini's finishReason to the OpenAI one.
+   */
+  private formatFinishReason(reason: string | undefined): string | null {
+    if (!reason || reason === "FINISH_REASON_UNSPECIFIED") return null;
+    if (reason === "MAX_TOKENS") return "length";
+    if (BLOCKED_FINISH_REASONS.has(reason)) return "content_filter";
+    return "stop";
   }
 
   async *streamResponse(result: any) {
+    let toolCallIndex = 0;
+    // Every chunk carries the running total, so only the last one is reported
+    let usage: { prompt_tokens: number; completion_tokens: number } | undefined;
+
     for await (const chunk of result.stream) {
       const text = chunk.text();
+      const toolCalls = this.formatToolCalls(chunk.functionCalls(), toolCallIndex);
+      toolCallIndex += toolCalls.length;
+
+      if (chunk.usageMetadata) {
+        usage = {
+          prompt_tokens: chunk.usageMetadata.promptTokenCount ?? 0,
+          completion_tokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+        };
+      }
+
       yield {
         choices: [
           {
             delta: {
               content: text,
+              tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
             },
+            finish_reason: this.formatFinishReason(chunk.candidates?.[0]?.finishReason),
           },
         ],
       };
     }
+
+    // Like the usage chunk OpenAI-compatible providers send at the end
+    if (usage) {
+      yield { choices: [], usage };
+    }
   }
 }
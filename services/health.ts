@@ -0,0 +1,238 @@
+/**
+ * Provider health registry with a per provider/model circuit breaker.
+ *
+ * closed    - requests flow normally
+ * open      - skipped after FAILURE_THRESHOLD consecutive failures, until the cool-down ends
+ * half_open - cool-down ended; a single probe request is let through.
+ *             Success closes the breaker, failure re-opens it with double the cool-down.
+ *
+ * Availability also honors rate limits (see rate_limits.ts): a provider/model
+ * is out only when every key in its pool is (see key_pool.ts).
+ */
+
+import type { ActiveProvider } from "@defaults/types";
+import { hasUsableKey } from "./key_pool.ts";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** Consecutive failures that open the breaker. */
+export const FAILURE_THRESHOLD = 3;
+
+/** First cool-down; doubles every time the breaker re-opens. */
+export const BASE_COOLDOWN_MS = 30_000;
+
+/** Upper bound for the cool-down. */
+export const MAX_COOLDOWN_MS = 10 * 60_000;
+
+/** A probe that never reported back is abandoned after this long. */
+const PROBE_TIMEOUT_MS = 60_000;
+
+interface ModelHealth {
+  consecutiveFailures: number;
+  /** Times the breaker opened without a success in between (drives the backoff). */
+  trips: number;
+  openUntil: number;
+  probeStartedAt: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  /** Requests the client cancelled; these never count as failures. */
+  cancelledRequests: number;
+}
+
+/**
+ * Health details for a provider/model, as reported by /health/providers.
+ */
+export interface ModelHealthSnapshot {
+  providerKey: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Milliseconds until a probe is allowed (0 unless open). */
+  retryInMs: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  cancelledRequests: number;
+}
+
+const registry = new Map<string, ModelHealth>();
+
+function healthKey(providerKey: string, model: string): string {
+  return `${providerKey}/${model}`;
+}
+
+function getEntry(providerKey: string, model: string): ModelHealth {
+  const key = healthKey(providerKey, model);
+  let entry = registry.get(key);
+  if (!entry) {
+    entry = {
+      consecutiveFailures: 0,
+      trips: 0,
+      openUntil: 0,
+      probeStartedAt: null,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      cancelledRequests: 0,
+    };
+    registry.set(key, entry);
+  }
+  return entry;
+}
+
+function stateOf(entry: ModelHealth | undefined, now: number): CircuitState {
+  if (!entry || entry.trips === 0) return "closed";
+  return now < entry.openUntil ? "open" : "half_open";
+}
+
+function isProbeInFlight(entry: ModelHealth, now: number): boolean {
+  return entry.probeStartedAt !== null && now - entry.probeStartedAt < PROBE_TIMEOUT_MS;
+}
+
+/**
+ * Get the breaker state of a provider/model.
+ */
+export function getCircuitState(providerKey: string, model: string): CircuitState {
+  return stateOf(registry.get(healthKey(providerKey, model)), Date.now());
+}
+
+/**
+ * Check if a provider/model may be offered a request.
+ * Half-open breakers are available only while no probe is running.
+ */
+export function isAvailable(providerKey: string, model: string): boolean {
+  if (!hasUsableKey(providerKey, model)) return false;
+
+  const now = Date.now();
+  const entry = registry.get(healthKey(providerKey, model));
+  const state = stateOf(entry, now);
+
+  if (state === "closed") return true;
+  if (state === "open") return false;
+  return !isProbeInFlight(entry!, now);
+}
+
+/**
+ * Claim a request slot right before calling a provider/model.
+ * Returns false if it is rate limited, the breaker is open,
+ * or another probe holds the half-open slot.
+ */
+export function acquireAttempt(providerKey: string, model: string): boolean {
+  if (!hasUsableKey(providerKey, model)) return false;
+
+  const now = Date.now();
+  const entry = registry.get(healthKey(providerKey, model));
+  const state = stateOf(entry, now);
+
+  if (state === "closed") return true;
+  if (state === "open" || isProbeInFlight(entry!, now)) return false;
+
+  entry!.probeStartedAt = now;
+  return true;
+}
+
+/**
+ * Record a successful response. Closes the breaker.
+ */
+export function recordSuccess(providerKey: string, model: string): void {
+  const entry = getEntry(providerKey, model);
+  entry.consecutiveFailures = 0;
+  entry.trips = 0;
+  entry.openUntil = 0;
+  entry.probeStartedAt = null;
+  entry.lastSuccessAt = Date.now();
+}
+
+/**
+ * Give back a claimed slot without judging the provider's health
+ * (e.g. it answered with a rate limit).
+ */
+export function releaseAttempt(providerKey: string, model: string): void {
+  const entry = registry.get(healthKey(providerKey, model));
+  if (entry) entry.probeStartedAt = null;
+}
+
+/**
+ * Record a request the client cancelled. Frees the probe slot, nothing else.
+ */
+export function recordCancelled(providerKey: string, model: string): void {
+  const entry = getEntry(providerKey, model);
+  entry.cancelledRequests++;
+  entry.probeStartedAt = null;
+}
+
+/**
+ * Record a failed request. Opens the breaker once the threshold is reached,
+ * or immediately when a half-open probe fails.
+ */
+export function recordFailure(providerKey: string, model: string, error?: unknown): void {
+  const now = Date.now();
+  const entry = getEntry(providerKey, model);
+  const wasProbe = entry.probeStartedAt !== null;
+
+  entry.consecutiveFailures++;
+  entry.probeStartedAt = null;
+  entry.lastFailureAt = now;
+  if (error !== undefined) {
+    entry.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  if (wasProbe || entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+    const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** entry.trips, MAX_COOLDOWN_MS);
+    entry.trips++;
+    entry.openUntil = now + cooldown;
+    console.warn(`Circuit open for ${providerKey}/${model} (retry in ${Math.round(cooldown / 1000)}s)`);
+  }
+}
+
+/**
+ * Drop models that are rate limited or whose breaker is open (or probing).
+ * Providers left without a usable model are removed.
+ */
+export function filterAvailableProviders(providers: ActiveProvider[]): ActiveProvider[] {
+  return providers.flatMap((provider) => {
+    const defaultAvailable = isAvailable(provider.key, provider.defaultModel);
+    if (!provider.enableFallback) {
+      return defaultAvailable ? [provider] : [];
+    }
+
+    const models = provider.models.filter((model) => isAvailable(provider.key, model));
+    if (models.length === 0) return [];
+
+    return [{ ...provider, models, defaultModel: defaultAvailable ? provider.defaultModel : models[0]! }];
+  });
+}
+
+/**
+ * Health of every provider/model in the given providers.
+ */
+export function getHealthSnapshot(providers: ActiveProvider[]): ModelHealthSnapshot[] {
+  const now = Date.now();
+
+  return providers.flatMap((provider) =>
+    provider.models.map((model) => {
+      const entry = registry.get(healthKey(provider.key, model));
+      const state = stateOf(entry, now);
+
+      return {
+        providerKey: provider.key,
+        model,
+        state,
+        consecutiveFailures: entry?.consecutiveFailures ?? 0,
+        retryInMs: state === "open" ? entry!.openUntil - now : 0,
+        lastError: entry?.lastError ?? null,
+        lastFailureAt: entry?.lastFailureAt ? new Date(entry.lastFailureAt).toISOString() : null,
+        lastSuccessAt: entry?.lastSuccessAt ? new Date(entry.lastSuccessAt).toISOString() : null,
+        cancelledRequests: entry?.cancelledRequests ?? 0,
+      };
+    })
+  );
+}
+
+/**
+ * Forget all health data (useful for testing).
+ */
+export function resetHealth(): void {
+  registry.clear();
+}
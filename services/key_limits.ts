@@ -0,0 +1,228 @@
+/**
+ * Per-API-key limits.
+ *
+ * Each client key may cap its requests per minute, its tokens per UTC day
+ * and how many chat responses it streams at once (columns on `api_keys`).
+ * Only requests that reach providers count (see countsTowardLimits in
+ * auth/middleware.ts). Requests per minute use a sliding one-minute window
+ * kept in memory. Tokens are the input plus output usage reported by
+ * providers, or the tokenizer's estimate when a provider reports none,
+ * stored on the key's row (via setKeyTokenStore) so the daily budget
+ * survives restarts. A stream slot is taken in the
+ * same step as the check, so parallel requests cannot all pass it, and held
+ * until the response body ends (see releaseWhenDone in routes/stream_response.ts).
+ */
+
+import type { ChatStreamEvent } from "@defaults/types";
+import type { ApiKey } from "../db/api_keys.ts";
+
+const WINDOW_MS = 60_000;
+
+/** Headers describing a key's limits, set on every response to that key. */
+export const RATE_LIMIT_HEADERS = [
+  "x-ratelimit-limit-requests",
+  "x-ratelimit-remaining-requests",
+  "x-ratelimit-reset-requests",
+  "x-ratelimit-limit-tokens",
+  "x-ratelimit-remaining-tokens",
+  "x-ratelimit-reset-tokens",
+];
+
+export type KeyLimitKind = "requests" | "tokens" | "concurrency";
+
+/**
+ * Result of checking a request against its key's limits. `headers` are the
+ * x-ratelimit-* headers (plus Retry-After when rejected) for the response.
+ */
+export interface KeyLimitCheck {
+  allowed: boolean;
+  exceeded?: KeyLimitKind;
+  message?: string;
+  /** Seconds until the request may be retried (when rejected). */
+  retryAfter?: number;
+  headers: Record<string, string>;
+  /** Releases the stream slot taken for an allowed request (safe to call more than once). */
+  release?: () => void;
+}
+
+// Start times of each key's requests in the last minute
+const requestTimes = new Map<number, number[]>();
+
+// Streams in flight per key
+const activeStreams = new Map<number, number>();
+
+// Where token usage is persisted; the server sets the database store at startup
+let tokenStore: (keyId: number, tokens: number) => void = () => {};
+
+/**
+ * Check a request against its key's limits. Allowed requests are counted
+ * toward the requests-per-minute window and take one of the key's stream
+ * slots, which the caller must `release()` when the response ends.
+ */
+export function checkKeyLimits(apiKey: ApiKey, now: number = Date.now()): KeyLimitCheck {
+  const headers: Record<string, string> = {};
+  const times = (requestTimes.get(apiKey.id) ?? []).filter((t) => now - t < WINDOW_MS);
+  requestTimes.set(apiKey.id, times);
+
+  if (apiKey.rpm_limit) {
+    const resetMs = times.length > 0 ? times[0]! + WINDOW_MS - now : 0;
+    headers["x-ratelimit-limit-requests"] = String(apiKey.rpm_limit);
+    headers["x-ratelimit-remaining-requests"] = String(Math.max(0, apiKey.rpm_limit - times.length));
+    headers["x-ratelimit-reset-requests"] = formatReset(resetMs);
+
+    if (times.length >= apiKey.rpm_limit) {
+      return reject(headers, "requests", `Rate limit reached: ${apiKey.rpm_limit} requests per minute`, resetMs);
+    }
+  }
+
+  if (apiKey.daily_token_limit) {
+    const used = getTokensUsedToday(apiKey, now);
+    const resetMs = msUntilUtcMidnight(now);
+    headers["x-ratelimit-limit-tokens"] = String(apiKey.daily_token_limit);
+    headers["x-ratelimit-remaining-tokens"] = String(Math.max(0, apiKey.daily_token_limit - used));
+    headers["x-ratelimit-reset-tokens"] = formatReset(resetMs);
+
+    if (used >= apiKey.daily_token_limit) {
+      return reject(headers, "tokens", `Token quota reached: ${apiKey.daily_token_limit} tokens per day`, resetMs);
+    }
+  }
+
+  if (apiKey.max_concurrent_streams && getActiveStreams(apiKey.id) >= apiKey.max_concurrent_streams) {
+    return reject(
+      headers,
+      "concurrency",
+      `Too many concurrent requests: at most ${apiKey.max_concurrent_streams} at a time`,
+      1000
+    );
+  }
+
+  times.push(now);
+  if (apiKey.rpm_limit) {
+    headers["x-ratelimit-remaining-requests"] = String(Math.max(0, apiKey.rpm_limit - times.length));
+    headers["x-ratelimit-reset-requests"] = formatReset(times[0]! + WINDOW_MS - now);
+  }
+  return { allowed: true, headers, release: acquireStream(apiKey.id) };
+}
+
+/**
+ * Tokens a key has used on the current UTC day.
+ */
+export function getTokensUsedToday(apiKey: ApiKey, now: number = Date.now()): number {
+  return apiKey.tokens_used_date === new Date(now).toISOString().slice(0, 10) ? apiKey.tokens_used_today : 0;
+}
+
+/**
+ * Number of chat responses a key is streaming right now.
+ */
+export function getActiveStreams(keyId: number): number {
+  return activeStreams.get(keyId) ?? 0;
+}
+
+/**
+ * Count a stream for a key. Returns the function that releases it
+ * (safe to call more than once).
+ */
+export function acquireStream(keyId: number): () => void {
+  activeStreams.set(keyId, getActiveStreams(keyId) + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = getActiveStreams(keyId) - 1;
+    if (count > 0) {
+      activeStreams.set(keyId, count);
+    } else {
+      activeStreams.delete(keyId);
+    }
+  };
+}
+
+/**
+ * Set where token usage is stored (the server passes addApiKeyTokens).
+ */
+export function setKeyTokenStore(store: (keyId: number, tokens: number) => void): void {
+  tokenStore = store;
+}
+
+/**
+ * Pass a key's result stream through, adding its token usage to the key's
+ * daily total when it ends. Without a usage event from the provider (or when
+ * the client stops reading first), `estimateTokens` is called with the
+ * output so far and its result is counted instead. Adapters send one usage
+ * event per provider attempt, so the events of recovered streams add up.
+ */
+export async function* trackKeyUsage(
+  stream: AsyncIterable<ChatStreamEvent>,
+  keyId: number,
+  estimateTokens: (outputText: string) => number,
+  addTokens: (keyId: number, tokens: number) => void = addKeyTokens
+): AsyncIterable<ChatStreamEvent> {
+  let reported: number | null = null;
+  let output = "";
+
+  try {
+    for await (const event of stream) {
+      if (event.type === "usage") {
+        reported = (reported ?? 0) + event.inputTokens + event.outputTokens;
+      } else if (event.type === "text") {
+        output += event.text;
+      } else if (event.type === "tool_call") {
+        output += (event.name ?? "") + (event.arguments ?? "");
+      }
+      yield event;
+    }
+  } finally {
+    const tokens = reported ?? estimateTokens(output);
+    if (tokens > 0) {
+      addTokens(keyId, tokens);
+    }
+  }
+}
+
+/**
+ * Forget request windows and stream counts (useful for testing).
+ */
+export function resetKeyLimits(): void {
+  requestTimes.clear();
+  activeStreams.clear();
+}
+
+function reject(
+  headers: Record<string, string>,
+  exceeded: KeyLimitKind,
+  message: string,
+  retryInMs: number
+): KeyLimitCheck {
+  const retryAfter = Math.max(1, Math.ceil(retryInMs / 1000));
+  return { allowed: false, exceeded, message, retryAfter, headers: { ...headers, "retry-after": String(retryAfter) } };
+}
+
+function msUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.getTime() - now;
+}
+
+/**
+ * Format a reset delay like the OpenAI headers ("1m30s", "12s").
+ */
+function formatReset(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+
+  return (hours > 0 ? `${hours}h` : "") + (minutes > 0 ? `${minutes}m` : "") + `${rest}s`;
+}
+
+/**
+ * Persist token usage. Never fails a request: database errors are only reported.
+ */
+function addKeyTokens(keyId: number, tokens: number): void {
+  try {
+    tokenStore(keyId, tokens);
+  } catch (error) {
+    console.error("Failed to record API key token usage:", error);
+  }
+}
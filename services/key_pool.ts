@@ -0,0 +1,176 @@
+/**
+ * API key pools.
+ *
+ * A provider's keys are its `apiKeyName` env var plus numbered variants
+ * (GROQ_API_KEY, GROQ_API_KEY_1, GROQ_API_KEY_2, ...). Requests rotate
+ * round-robin over the keys. Rate limits are tracked per key (see
+ * rate_limits.ts) and a key that fails authentication is set aside for
+ * AUTH_BLOCK_MS, so one exhausted or revoked key does not take the provider
+ * out of rotation.
+ */
+
+import { getProviderDefinition } from "@defaults/providers";
+import { isRateLimited } from "./rate_limits.ts";
+
+/** How long a key that failed authentication is left out of the pool. */
+export const AUTH_BLOCK_MS = 10 * 60_000;
+
+/**
+ * A key from a provider's pool. `name` is its env var, safe to log.
+ */
+export interface PoolKey {
+  name: string;
+  value: string;
+}
+
+interface KeyHealth {
+  authBlockedUntil: number;
+  lastError: string | null;
+}
+
+/**
+ * State of a pool key, as reported by /health/providers.
+ */
+export interface KeySnapshot {
+  name: string;
+  authFailed: boolean;
+  /** Milliseconds until an auth-blocked key is tried again (0 if not blocked). */
+  retryInMs: number;
+  /** Models this key is currently rate limited on. */
+  rateLimitedModels: string[];
+  lastError: string | null;
+}
+
+const registry = new Map<string, KeyHealth>();
+const nextIndex = new Map<string, number>();
+
+function healthKey(providerKey: string, keyName: string): string {
+  return `${providerKey}#${keyName}`;
+}
+
+/**
+ * List the env var names of a key pool that have a value: the base name
+ * first, then the numbered ones in order.
+ */
+export function listPoolKeyNames(apiKeyName: string, env: Record<string, string | undefined>): string[] {
+  const pattern = new RegExp(`^${apiKeyName}_(\\d+)$`);
+  const numbered = Object.keys(env)
+    .map((name) => ({ name, n: Number(pattern.exec(name)?.[1]) }))
+    .filter(({ n }) => !Number.isNaN(n))
+    .sort((a, b) => a.n - b.n)
+    .map(({ name }) => name);
+
+  return [apiKeyName, ...numbered].filter((name) => !!env[name] && env[name]!.trim() !== "");
+}
+
+/**
+ * Get the env var name for a new key in a pool: the base name if unset,
+ * otherwise the first free numbered name.
+ */
+export function getNextPoolKeyName(apiKeyName: string, env: Record<string, string | undefined>): string {
+  const used = new Set(listPoolKeyNames(apiKeyName, env));
+  if (!used.has(apiKeyName)) {
+    return apiKeyName;
+  }
+
+  let n = 1;
+  while (used.has(`${apiKeyName}_${n}`)) n++;
+  return `${apiKeyName}_${n}`;
+}
+
+/**
+ * Get the configured keys of a provider, or [] if it has none.
+ */
+export function getApiKeys(providerKey: string): PoolKey[] {
+  const definition = getProviderDefinition(providerKey);
+  if (!definition) return [];
+
+  return listPoolKeyNames(definition.apiKeyName, process.env).map((name) => ({
+    name,
+    value: process.env[name]!.trim(),
+  }));
+}
+
+function isAuthBlocked(providerKey: string, keyName: string, now: number = Date.now()): boolean {
+  const entry = registry.get(healthKey(providerKey, keyName));
+  return !!entry && now < entry.authBlockedUntil;
+}
+
+/**
+ * Check if a key may be used for a provider/model.
+ */
+export function isKeyUsable(providerKey: string, model: string, keyName: string): boolean {
+  return !isAuthBlocked(providerKey, keyName) && !isRateLimited(providerKey, model, keyName);
+}
+
+/**
+ * Check if a provider/model has quota left on some key.
+ * Providers without keys are only limited by their provider-wide rate limit.
+ */
+export function hasUsableKey(providerKey: string, model: string): boolean {
+  if (isRateLimited(providerKey, model)) return false;
+
+  const keys = getApiKeys(providerKey);
+  return keys.length === 0 || keys.some((key) => isKeyUsable(providerKey, model, key.name));
+}
+
+/**
+ * Pick the next usable key for a provider/model, round-robin.
+ * Returns null if the provider has no keys or all are blocked.
+ */
+export function pickApiKey(providerKey: string, model: string): PoolKey | null {
+  const keys = getApiKeys(providerKey);
+  const start = nextIndex.get(providerKey) ?? 0;
+
+  for (let i = 0; i < keys.length; i++) {
+    const index = (start + i) % keys.length;
+    const key = keys[index]!;
+    if (isKeyUsable(providerKey, model, key.name)) {
+      nextIndex.set(providerKey, index + 1);
+      return key;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record an authentication failure. The key is skipped for AUTH_BLOCK_MS.
+ */
+export function recordKeyAuthFailure(providerKey: string, keyName: string, error?: unknown): void {
+  const entry = registry.get(healthKey(providerKey, keyName)) ?? { authBlockedUntil: 0, lastError: null };
+  entry.authBlockedUntil = Date.now() + AUTH_BLOCK_MS;
+  if (error !== undefined) {
+    entry.lastError = error instanceof Error ? error.message : String(error);
+  }
+  registry.set(healthKey(providerKey, keyName), entry);
+  console.warn(`Auth failed for ${providerKey} key ${keyName} (retry in ${AUTH_BLOCK_MS / 60_000} min)`);
+}
+
+/**
+ * State of every key in a provider's pool. Key values are never included.
+ */
+export function getKeyPoolSnapshot(providerKey: string, models: string[]): KeySnapshot[] {
+  const now = Date.now();
+
+  return getApiKeys(providerKey).map(({ name }) => {
+    const entry = registry.get(healthKey(providerKey, name));
+    const authFailed = isAuthBlocked(providerKey, name, now);
+
+    return {
+      name,
+      authFailed,
+      retryInMs: authFailed ? entry!.authBlockedUntil - now : 0,
+      rateLimitedModels: models.filter((model) => isRateLimited(providerKey, model, name)),
+      lastError: entry?.lastError ?? null,
+    };
+  });
+}
+
+/**
+ * Forget all key pool state (useful for testing).
+ */
+export function resetKeyPools(): void {
+  registry.clear();
+  nextIndex.clear();
+}
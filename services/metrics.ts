@@ -0,0 +1,242 @@
+/**
+ * Prometheus metrics.
+ *
+ * Counters and histograms are fed while requests are served (see
+ * chat_handler.ts and index.ts) and kept in memory since the server started.
+ * Breaker and rate-limit state is read from health.ts and rate_limits.ts at
+ * scrape time. Rendered in the Prometheus text format by GET /metrics.
+ */
+
+import type { ActiveProvider, ChatStreamEvent } from "@defaults/types";
+import type { ModelHealthSnapshot } from "./health.ts";
+import type { QuotaSnapshot } from "./rate_limits.ts";
+import { RequestCancelledError } from "./cancellation.ts";
+
+/** Latency buckets in seconds, from fast first tokens to long generations. */
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const CIRCUIT_STATE_VALUES = { closed: 0, half_open: 1, open: 2 } as const;
+
+type Labels = Record<string, string>;
+
+/**
+ * Outcome of a chat request: served, failed or cancelled by the client.
+ */
+export type RequestOutcome = "success" | "error" | "cancelled";
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[] = LATENCY_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) entry.counts[i]!++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+const httpResponses = new Counter(
+  "aicarousel_http_responses_total",
+  "HTTP responses by route and status code."
+);
+const requests = new Counter(
+  "aicarousel_requests_total",
+  "Chat requests by route, serving provider/model and outcome."
+);
+const failovers = new Counter(
+  "aicarousel_failovers_total",
+  "Failed provider/model attempts after which the request moved on to the next model or provider."
+);
+const tokens = new Counter(
+  "aicarousel_tokens_total",
+  "Tokens reported by providers, by provider/model and direction (input or output)."
+);
+const timeToFirstToken = new Histogram(
+  "aicarousel_time_to_first_token_seconds",
+  "Time from sending a request to a provider until its first event."
+);
+const requestDuration = new Histogram(
+  "aicarousel_request_duration_seconds",
+  "Total chat request duration, from routing until the stream ends."
+);
+
+let activeStreams = 0;
+
+/**
+ * Count an HTTP response. `route` must be a fixed path, not the raw URL.
+ */
+export function recordHttpResponse(route: string, status: number): void {
+  httpResponses.inc({ route, status: String(status) });
+}
+
+/**
+ * Count a failed attempt that makes the request fall over to another model or provider.
+ */
+export function recordFailover(providerKey: string, model: string): void {
+  failovers.inc({ provider: providerKey, model });
+}
+
+/**
+ * Record a provider's time to first event.
+ */
+export function recordTimeToFirstToken(providerKey: string, model: string, ms: number): void {
+  timeToFirstToken.observe({ provider: providerKey, model }, ms / 1000);
+}
+
+/**
+ * Count a chat request that failed before any provider started streaming.
+ */
+export function recordFailedRequest(route: string, outcome: RequestOutcome, durationMs: number): void {
+  requests.inc({ route, provider: "none", model: "none", outcome });
+  requestDuration.observe({ route }, durationMs / 1000);
+}
+
+/**
+ * Pass a result stream through, counting it as an active stream until it
+ * ends and then recording its outcome, duration and token usage.
+ */
+export async function* trackStream(
+  stream: AsyncIterable<ChatStreamEvent>,
+  labels: { route: string; providerKey: string; model: string },
+  startedAt: number
+): AsyncIterable<ChatStreamEvent> {
+  let outcome: RequestOutcome = "cancelled";
+  activeStreams++;
+
+  try {
+    for await (const event of stream) {
+      if (event.type === "usage") {
+        const base = { provider: labels.providerKey, model: labels.model };
+        tokens.inc({ ...base, direction: "input" }, event.inputTokens);
+        tokens.inc({ ...base, direction: "output" }, event.outputTokens);
+      } else if (event.type === "error") {
+        outcome = "error";
+      }
+      yield event;
+    }
+    if (outcome !== "error") outcome = "success";
+  } catch (error) {
+    outcome = error instanceof RequestCancelledError ? "cancelled" : "error";
+    throw error;
+  } finally {
+    activeStreams--;
+    requests.inc({ route: labels.route, provider: labels.providerKey, model: labels.model, outcome });
+    requestDuration.observe({ route: labels.route }, (performance.now() - startedAt) / 1000);
+  }
+}
+
+/**
+ * Render all metrics in the Prometheus text format. Breaker and rate-limit
+ * gauges cover the given providers, with snapshots in provider/model order.
+ */
+export function renderMetrics(
+  providers: ActiveProvider[],
+  health: ModelHealthSnapshot[],
+  quotas: QuotaSnapshot[]
+): string {
+  const lines = [
+    ...httpResponses.render(),
+    ...requests.render(),
+    ...failovers.render(),
+    ...tokens.render(),
+    ...timeToFirstToken.render(),
+    ...requestDuration.render(),
+    "# HELP aicarousel_active_streams Responses currently being streamed to clients.",
+    "# TYPE aicarousel_active_streams gauge",
+    `aicarousel_active_streams ${activeStreams}`,
+    "# HELP aicarousel_active_providers Providers in the rotation (API key set and enabled).",
+    "# TYPE aicarousel_active_providers gauge",
+    `aicarousel_active_providers ${providers.length}`,
+    "# HELP aicarousel_circuit_state Circuit breaker state per provider/model (0 closed, 1 half-open, 2 open).",
+    "# TYPE aicarousel_circuit_state gauge",
+    ...health.map((h) =>
+      `aicarousel_circuit_state${formatLabels({ provider: h.providerKey, model: h.model })} ${CIRCUIT_STATE_VALUES[h.state]}`
+    ),
+    "# HELP aicarousel_cooldown_seconds Seconds until an open breaker or a rate limit lets the provider/model back in.",
+    "# TYPE aicarousel_cooldown_seconds gauge",
+    ...health.map((h, i) => {
+      const cooldownMs = Math.max(h.retryInMs, quotas[i]?.retryInMs ?? 0);
+      return `aicarousel_cooldown_seconds${formatLabels({ provider: h.providerKey, model: h.model })} ${cooldownMs / 1000}`;
+    }),
+    "# HELP aicarousel_rate_limited Whether a provider/model is out of rotation for a rate limit (1) or not (0).",
+    "# TYPE aicarousel_rate_limited gauge",
+    ...quotas.map((q) =>
+      `aicarousel_rate_limited${formatLabels({ provider: q.providerKey, model: q.model })} ${q.rateLimited ? 1 : 0}`
+    ),
+  ];
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Forget all metrics (useful for testing).
+ */
+export function resetMetrics(): void {
+  for (const metric of [httpResponses, requests, failovers, tokens, timeToFirstToken, requestDuration]) {
+    metric.reset();
+  }
+  activeStreams = 0;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
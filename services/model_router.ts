@@ -0,0 +1,170 @@
+/**
+ * Model-name routing.
+ * Resolves the request's `model` field to the providers/models that may serve it.
+ *
+ * Syntax:
+ *   aicarousel       - round-robin rotation over all active providers
+ *   provider         - pin a provider, using its models.json fallback chain
+ *   provider/model   - pin a single provider and model
+ *   model            - a bare model ID configured for exactly one provider
+ */
+
+import type { ActiveProvider } from "@defaults/types";
+import { getModelsConfig, getModelIds } from "./models_config";
+
+export const ROTATION_MODEL = "aicarousel";
+
+/**
+ * Default model names sent by Claude Code and Codex.
+ * These route to the rotation so those clients work without extra config.
+ */
+const CLIENT_DEFAULT_MODEL_PATTERN = /^(claude-|gpt-|o\d)/;
+
+/**
+ * A model ID clients can put in the `model` field.
+ */
+export interface RoutableModel {
+  id: string;
+  ownedBy: string;
+  displayName: string;
+}
+
+export type ModelRoute =
+  | { type: "rotation" }
+  | { type: "provider"; providerKey: string }
+  | { type: "model"; providerKey: string; model: string };
+
+/**
+ * Error thrown when the requested model cannot be routed.
+ */
+export class ModelNotFoundError extends Error {
+  constructor(model: string) {
+    super(`The model '${model}' does not exist or is not available`);
+    this.name = "ModelNotFoundError";
+  }
+}
+
+/**
+ * Check if a model name routes to the full rotation.
+ */
+export function isRotationModel(model: string | undefined): boolean {
+  return !model || model === ROTATION_MODEL || CLIENT_DEFAULT_MODEL_PATTERN.test(model);
+}
+
+/**
+ * Resolve a requested model name against the active providers.
+ * Throws ModelNotFoundError if nothing matches.
+ */
+export function resolveModelRoute(model: string | undefined, providers: ActiveProvider[]): ModelRoute {
+  if (isRotationModel(model)) {
+    return { type: "rotation" };
+  }
+
+  const requested = model!;
+
+  // "provider" alone
+  const pinnedProvider = providers.find((p) => p.key === requested);
+  if (pinnedProvider) {
+    return { type: "provider", providerKey: pinnedProvider.key };
+  }
+
+  // "provider/model" (model IDs may contain slashes themselves)
+  const slash = requested.indexOf("/");
+  if (slash > 0) {
+    const providerKey = requested.slice(0, slash);
+    const modelId = requested.slice(slash + 1);
+    const provider = providers.find((p) => p.key === providerKey);
+    if (provider?.models.includes(modelId)) {
+      return { type: "model", providerKey, model: modelId };
+    }
+  }
+
+  // Bare model ID configured for exactly one provider
+  const owners = providers.filter((p) => p.models.includes(requested));
+  if (owners.length === 1) {
+    return { type: "model", providerKey: owners[0]!.key, model: requested };
+  }
+
+  throw new ModelNotFoundError(requested);
+}
+
+/**
+ * Narrow the active providers to those allowed by a route.
+ * A pinned model is served by its provider with fallback disabled.
+ */
+export function applyModelRoute(route: ModelRoute, providers: ActiveProvider[]): ActiveProvider[] {
+  switch (route.type) {
+    case "rotation":
+      return providers;
+    case "provider":
+      return providers.filter((p) => p.key === route.providerKey);
+    case "model":
+      return providers
+        .filter((p) => p.key === route.providerKey)
+        .map((p) => ({
+          ...p,
+          models: [route.model],
+          defaultModel: route.model,
+          enableFallback: false,
+        }));
+  }
+}
+
+/**
+ * Narrow the active providers to an API key's allowlist of provider keys
+ * ("ollama", its whole fallback chain) and provider/model IDs ("groq/llama-3.3-70b").
+ * Providers with no allowed model are dropped. Without an allowlist, returns all.
+ */
+export function applyModelAllowlist(providers: ActiveProvider[], allowlist: string[] | undefined): ActiveProvider[] {
+  if (!allowlist) return providers;
+
+  return providers.flatMap((provider) => {
+    if (allowlist.includes(provider.key)) return [provider];
+
+    const models = provider.models.filter((m) => allowlist.includes(`${provider.key}/${m}`));
+    if (models.length === 0) return [];
+
+    return [{
+      ...provider,
+      models,
+      defaultModel: models.includes(provider.defaultModel) ? provider.defaultModel : models[0]!,
+    }];
+  });
+}
+
+/**
+ * List every routable model ID: the rotation alias, each active provider
+ * as an alias for its fallback chain, and every configured provider/model.
+ * With an allowlist (see applyModelAllowlist), only what it allows is listed.
+ */
+export function getRoutableModels(providers: ActiveProvider[], allowlist?: string[]): RoutableModel[] {
+  const config = getModelsConfig();
+  const allowed = applyModelAllowlist(providers, allowlist);
+  const models: RoutableModel[] = [
+    { id: ROTATION_MODEL, ownedBy: "aicarousel", displayName: "AICarousel (rotation)" },
+  ];
+
+  for (const provider of allowed) {
+    models.push({
+      id: provider.key,
+      ownedBy: provider.key,
+      displayName: `${provider.name} (fallback chain)`,
+    });
+  }
+
+  for (const provider of allowed) {
+    const providerConfig = config[provider.key];
+    for (const model of providerConfig ? getModelIds(providerConfig) : provider.models) {
+      const id = `${provider.key}/${model}`;
+      if (allowlist && !allowlist.includes(provider.key) && !allowlist.includes(id)) continue;
+
+      models.push({
+        id,
+        ownedBy: provider.key,
+        displayName: `${provider.name} ${model}`,
+      });
+    }
+  }
+
+  return models;
+}
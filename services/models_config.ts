@@ -5,7 +5,41 @@
 
 import { join } from "path";
 
-const MODELS_FILE = join(import.meta.dir, "..", "models.json");
+const DEFAULT_MODELS_FILE = join(import.meta.dir, "..", "models.json");
+
+/**
+ * Path of models.json (MODELS_PATH overrides it, like DB_PATH for the database).
+ */
+function getModelsFile(): string {
+  return process.env.MODELS_PATH || DEFAULT_MODELS_FILE;
+}
+
+/**
+ * What a model can do. Unset fields are unknown: limits are not enforced,
+ * tool support falls back to the provider definition and vision/reasoning
+ * default to false.
+ */
+export interface ModelCapabilities {
+  /** Context window in tokens (prompt plus output). */
+  contextWindow?: number;
+  /** Max output tokens per response. */
+  maxOutput?: number;
+  supportsTools?: boolean;
+  supportsVision?: boolean;
+  supportsReasoning?: boolean;
+}
+
+/**
+ * A model entry with capability metadata.
+ */
+export interface ModelConfig extends ModelCapabilities {
+  id: string;
+}
+
+/**
+ * A model in models.json: a bare model ID or an entry with capabilities.
+ */
+export type ModelEntry = string | ModelConfig;
 
 /**
  * Configuration for a single provider's models.
@@ -13,9 +47,12 @@ const MODELS_FILE = join(import.meta.dir, "..", "models.json");
 export interface ProviderModelConfig {
   default: string;
   enableFallback: boolean;
-  models: string[];
+  models: ModelEntry[];
 }
 
+const CAPABILITY_LIMITS = ["contextWindow", "maxOutput"] as const;
+const CAPABILITY_FLAGS = ["supportsTools", "supportsVision", "supportsReasoning"] as const;
+
 /**
  * Full models configuration object.
  */
@@ -62,14 +99,15 @@ export function getModelsConfig(): ModelsConfig {
   try {
     // Use require for synchronous read (Bun caches this)
     // Delete from cache first to get fresh content
-    delete require.cache[MODELS_FILE];
-    const content = require(MODELS_FILE) as ModelsConfig;
+    const modelsFile = getModelsFile();
+    delete require.cache[modelsFile];
+    const content = require(modelsFile) as ModelsConfig;
     configCache = content;
     configCacheTime = now;
     return content;
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "MODULE_NOT_FOUND") {
-      throw new ModelsConfigError(`models.json not found at ${MODELS_FILE}`);
+      throw new ModelsConfigError(`models.json not found at ${getModelsFile()}`);
     }
     throw new ModelsConfigError(`Failed to read models.json: ${error}`);
   }
@@ -90,7 +128,7 @@ export async function saveModelsConfig(config: ModelsConfig): Promise<void> {
   validateModelsConfig(config);
 
   const content = JSON.stringify(config, null, 2) + "\n";
-  await Bun.write(MODELS_FILE, content);
+  await Bun.write(getModelsFile(), content);
 
   // Clear cache to pick up new values
   clearConfigCache();
@@ -104,12 +142,38 @@ export function getProviderConfig(providerKey: string): ProviderModelConfig | nu
   return config[providerKey] ?? null;
 }
 
+/**
+ * Get the model ID of an entry.
+ */
+export function getModelId(entry: ModelEntry): string {
+  return typeof entry === "string" ? entry : entry.id;
+}
+
+/**
+ * Get the model IDs of a provider config, in order.
+ */
+export function getModelIds(config: ProviderModelConfig): string[] {
+  return config.models.map(getModelId);
+}
+
 /**
  * Get all models for a specific provider.
  */
 export function getProviderModels(providerKey: string): string[] {
   const providerConfig = getProviderConfig(providerKey);
-  return providerConfig?.models ?? [];
+  return providerConfig ? getModelIds(providerConfig) : [];
+}
+
+/**
+ * Get the capabilities configured for a model ({} for bare string entries).
+ */
+export function getModelCapabilities(providerKey: string, model: string): ModelCapabilities {
+  const entry = getProviderConfig(providerKey)?.models.find((m) => getModelId(m) === model);
+  if (!entry || typeof entry === "string") {
+    return {};
+  }
+  const { id, ...capabilities } = entry;
+  return capabilities;
 }
 
 /**
@@ -172,21 +236,58 @@ export function validateProviderConfig(providerKey: string, config: ProviderMode
     throw new ModelsConfigError(`Provider "${providerKey}": "models" must have at least one model`);
   }
 
-  // Check all models are strings
+  // Check all models are strings or entries with an id
   for (const model of config.models) {
-    if (typeof model !== "string" || model.trim() === "") {
-      throw new ModelsConfigError(`Provider "${providerKey}": all models must be non-empty strings`);
-    }
+    validateModelEntry(providerKey, model);
+  }
+
+  const ids = getModelIds(config);
+  if (new Set(ids).size !== ids.length) {
+    throw new ModelsConfigError(`Provider "${providerKey}": model IDs must be unique`);
   }
 
   // Check default is in models list
-  if (!config.models.includes(config.default)) {
+  if (!ids.includes(config.default)) {
     throw new ModelsConfigError(
       `Provider "${providerKey}": default model "${config.default}" must be in models list`
     );
   }
 }
 
+/**
+ * Validate a single model entry: a non-empty string, or an object with a
+ * non-empty id and well-typed capabilities.
+ */
+function validateModelEntry(providerKey: string, entry: ModelEntry): void {
+  if (typeof entry === "string") {
+    if (entry.trim() === "") {
+      throw new ModelsConfigError(`Provider "${providerKey}": all models must be non-empty strings`);
+    }
+    return;
+  }
+
+  if (!entry || typeof entry !== "object" || typeof entry.id !== "string" || entry.id.trim() === "") {
+    throw new ModelsConfigError(
+      `Provider "${providerKey}": all models must be non-empty strings or objects with an "id"`
+    );
+  }
+
+  for (const field of CAPABILITY_LIMITS) {
+    const value = entry[field];
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new ModelsConfigError(
+        `Provider "${providerKey}": model "${entry.id}" "${field}" must be a positive integer`
+      );
+    }
+  }
+
+  for (const field of CAPABILITY_FLAGS) {
+    if (entry[field] !== undefined && typeof entry[field] !== "boolean") {
+      throw new ModelsConfigError(`Provider "${providerKey}": model "${entry.id}" "${field}" must be a boolean`);
+    }
+  }
+}
+
 /**
  * Add a model to a provider.
  */
@@ -197,7 +298,7 @@ export async function addModel(providerKey: string, model: string): Promise<void
     throw new ModelsConfigError(`Provider "${providerKey}" not found`);
   }
 
-  if (config[providerKey].models.includes(model)) {
+  if (getModelIds(config[providerKey]).includes(model)) {
     throw new ModelsConfigError(`Model "${model}" already exists for provider "${providerKey}"`);
   }
 
@@ -216,7 +317,7 @@ export async function removeModel(providerKey: string, model: string): Promise<v
   }
 
   const models = config[providerKey].models;
-  const index = models.indexOf(model);
+  const index = getModelIds(config[providerKey]).indexOf(model);
 
   if (index === -1) {
     throw new ModelsConfigError(`Model "${model}" not found for provider "${providerKey}"`);
@@ -246,7 +347,7 @@ export async function setDefaultModel(providerKey: string, model: string): Promi
     throw new ModelsConfigError(`Provider "${providerKey}" not found`);
   }
 
-  if (!config[providerKey].models.includes(model)) {
+  if (!getModelIds(config[providerKey]).includes(model)) {
     throw new ModelsConfigError(
       `Model "${model}" not in models list for provider "${providerKey}"`
     );
@@ -274,7 +375,7 @@ export async function toggleFallback(providerKey: string, enabled?: boolean): Pr
 }
 
 /**
- * Reorder models for a provider.
+ * Reorder models for a provider by model ID, keeping their capabilities.
  * The first model in the new order becomes the fallback priority.
  */
 export async function reorderModels(providerKey: string, newOrder: string[]): Promise<void> {
@@ -285,6 +386,7 @@ export async function reorderModels(providerKey: string, newOrder: string[]): Pr
   }
 
   const currentModels = config[providerKey].models;
+  const currentIds = getModelIds(config[providerKey]);
 
   // Validate new order contains same models
   if (newOrder.length !== currentModels.length) {
@@ -292,12 +394,12 @@ export async function reorderModels(providerKey: string, newOrder: string[]): Pr
   }
 
   for (const model of newOrder) {
-    if (!currentModels.includes(model)) {
+    if (!currentIds.includes(model)) {
       throw new ModelsConfigError(`Model "${model}" not found in current models`);
     }
   }
 
-  config[providerKey].models = newOrder;
+  config[providerKey].models = newOrder.map((model) => currentModels[currentIds.indexOf(model)]!);
   await saveModelsConfig(config);
 }
 
@@ -316,17 +418,20 @@ export async function updateModel(
   }
 
   const models = config[providerKey].models;
-  const index = models.indexOf(oldModel);
+  const ids = getModelIds(config[providerKey]);
+  const index = ids.indexOf(oldModel);
 
   if (index === -1) {
     throw new ModelsConfigError(`Model "${oldModel}" not found for provider "${providerKey}"`);
   }
 
-  if (models.includes(newModel)) {
+  if (ids.includes(newModel)) {
     throw new ModelsConfigError(`Model "${newModel}" already exists for provider "${providerKey}"`);
   }
 
-  models[index] = newModel;
+  // Renaming keeps the capabilities of the entry
+  const entry = models[index]!;
+  models[index] = typeof entry === "string" ? newModel : { ...entry, id: newModel };
 
   // Update default if it was the renamed model
   if (config[providerKey].default === oldModel) {
@@ -0,0 +1,151 @@
+/**
+ * Generic OpenAI-compatible client adapter.
+ * Talks to any server exposing /chat/completions over fetch: custom
+ * providers from providers.json and, with its own defaults, Ollama.
+ */
+
+import { ProviderHttpError } from "./provider_errors";
+import { inlineImageUrls } from "./content";
+
+export interface OpenAICompatibleClientOptions {
+  /** Provider name, used in error messages. */
+  name: string;
+  baseUrl: string;
+  /** Path appended to the base URL (default "/chat/completions"). */
+  path?: string;
+  /** Sent as a Bearer token when set. */
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /** Replace image URLs with data URLs for servers that only accept base64. */
+  inlineImages?: boolean;
+}
+
+export class OpenAICompatibleClient {
+  private name: string;
+  private baseUrl: string;
+  private path: string;
+  private apiKey?: string;
+  private headers: Record<string, string>;
+  private inlineImages: boolean;
+
+  constructor(options: OpenAICompatibleClientOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.path = options.path ?? "/chat/completions";
+    this.apiKey = options.apiKey;
+    this.headers = options.headers ?? {};
+    this.inlineImages = options.inlineImages ?? false;
+  }
+
+  chat = {
+    completions: {
+      create: async (params: any, options: { signal?: AbortSignal } = {}) => {
+        const messages = this.inlineImages
+          ? await inlineImageUrls(params.messages, options.signal)
+          : params.messages;
+        const response = await fetch(`${this.baseUrl}${this.path}`, {
+          method: "POST",
+          signal: options.signal,
+          headers: {
+            "Content-Type": "application/json",
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            ...this.headers,
+          },
+          body: JSON.stringify({
+            model: params.model,
+            messages,
+            stream: params.stream ?? true,
+            temperature: params.temperature,
+            top_p: params.top_p,
+            max_tokens: params.max_completion_tokens,
+            stop: params.stop ?? undefined,
+            frequency_penalty: params.frequency_penalty,
+            presence_penalty: params.presence_penalty,
+            tools: params.tools,
+            tool_choice: params.tool_choice,
+            stream_options: params.stream ? { include_usage: true } : undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new ProviderHttpError(
+            `${this.name} API error: ${response.status} - ${error}`,
+            response.status,
+            response.headers
+          );
+        }
+
+        if (params.stream) {
+          return this.streamResponse(response);
+        } else {
+          const data: any = await response.json();
+          return {
+            choices: [
+              {
+                message: {
+                  content: data.choices[0]?.message?.content || "",
+                  role: "assistant",
+                  tool_calls: data.choices[0]?.message?.tool_calls,
+                },
+              },
+            ],
+          };
+        }
+      },
+    },
+  };
+
+  async *streamResponse(response: Response) {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("No response body");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed || !trimmed.startsWith("data:")) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") continue;
+
+          try {
+            const parsed = JSON.parse(data);
+            const choice = parsed.choices?.[0];
+            yield {
+              // The usage chunk at the end has no choices
+              choices: choice
+                ? [
+                    {
+                      delta: {
+                        content: choice.delta?.content || "",
+                        tool_calls: choice.delta?.tool_calls,
+                      },
+                      finish_reason: choice.finish_reason ?? null,
+                    },
+                  ]
+                : [],
+              usage: parsed.usage,
+            };
+          } catch {
+            // Skip invalid JSON
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
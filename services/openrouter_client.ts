@@ -1,23 +1,125 @@
 import { OpenRouter } from "@openrouter/sdk";
+import { HTTPClient } from "@openrouter/sdk/lib/http";
+import { recordRateLimitHeaders } from "./rate_limits";
 
 export class OpenRouterClient {
   private client: OpenRouter;
+  private responseHeaders: Headers | null = null;
+  private keyName?: string;
+
+  /**
+   * `apiKey` defaults to OPENROUTER_API_KEY; `keyName` is the pool key it
+   * came from, for per-key rate limits.
+   */
+  constructor(options: { apiKey?: string; keyName?: string } = {}) {
+    this.keyName = options.keyName;
+
+    // Keep the last response headers: they carry the X-RateLimit-* quota
+    const httpClient = new HTTPClient();
+    httpClient.addHook("response", (res) => {
+      this.responseHeaders = res.headers;
+    });
 
-  constructor() {
     this.client = new OpenRouter({
-      apiKey: process.env.OPENROUTER_API_KEY,
+      apiKey: options.apiKey ?? process.env.OPENROUTER_API_KEY,
+      httpClient,
     });
   }
 
   chat = {
     completions: {
-      create: async (params: any) => {
-        const stream = await this.client.chat.send({
-          ...params,
-        });
+      create: async (params: any, options: { signal?: AbortSignal } = {}) => {
+        const {
+          messages,
+          tools,
+          tool_choice,
+          top_p,
+          max_completion_tokens,
+          frequency_penalty,
+          presence_penalty,
+          ...rest
+        } = params;
 
-        return stream;
+        // The SDK uses camelCase fields and drops unknown snake_case ones
+        const request: any = {
+          ...rest,
+          messages: messages.map((m: any) => this.formatMessage(m)),
+          topP: top_p,
+          maxTokens: max_completion_tokens,
+          frequencyPenalty: frequency_penalty,
+          presencePenalty: presence_penalty,
+        };
+        if (tools) {
+          request.tools = tools;
+          request.toolChoice = tool_choice;
+        }
+        if (params.stream) {
+          request.streamOptions = { includeUsage: true };
+        }
+
+        const result: any = await this.client.chat.send(request, { signal: options.signal });
+        recordRateLimitHeaders("openrouter", params.model, this.responseHeaders, this.keyName);
+
+        if (params.stream) {
+          return this.streamResponse(result);
+        }
+        return this.formatCompletion(result);
       },
     },
   };
+
+  private formatMessage(message: any) {
+    const { tool_calls, tool_call_id, ...rest } = message;
+    const formatted: any = { ...rest };
+    if (tool_calls) formatted.toolCalls = tool_calls;
+    if (tool_call_id) formatted.toolCallId = tool_call_id;
+    if (Array.isArray(rest.content)) {
+      formatted.content = rest.content.map((part: any) =>
+        part.type === "image_url" ? { type: "image_url", imageUrl: part.image_url } : part
+      );
+    }
+    return formatted;
+  }
+
+  private formatCompletion(result: any) {
+    const choice = result.choices?.[0];
+    return {
+      choices: [
+        {
+          message: {
+            content: choice?.message?.content || "",
+            role: "assistant",
+            tool_calls: choice?.message?.toolCalls,
+          },
+          finish_reason: choice?.finishReason ?? null,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Convert SDK stream chunks back to the OpenAI chunk shape.
+   */
+  async *streamResponse(stream: AsyncIterable<any>) {
+    for await (const chunk of stream) {
+      const choice = chunk.choices?.[0];
+      yield {
+        // The usage chunk at the end may have no choices
+        choices: choice
+          ? [
+              {
+                delta: {
+                  content: choice.delta?.content || "",
+                  tool_calls: choice.delta?.toolCalls,
+                },
+                finish_reason: choice.finishReason ?? null,
+              },
+            ]
+          : [],
+        usage: chunk.usage
+          ? { prompt_tokens: chunk.usage.promptTokens, completion_tokens: chunk.usage.completionTokens }
+          : undefined,
+      };
+    }
+  }
 }
@@ -0,0 +1,171 @@
+/**
+ * Provider error classification.
+ * Each SDK reports failures differently; this maps them to one set of
+ * categories so the rotation can react (back off, skip, or give up).
+ */
+
+export type ProviderErrorCategory =
+  | "rate_limit"
+  | "auth"
+  | "context_length"
+  | "invalid_request"
+  | "server"
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "unknown";
+
+/**
+ * Response headers as exposed by fetch (Headers) or the Stainless SDKs (plain object).
+ */
+export type HeaderSource = Headers | Record<string, string | string[] | null | undefined>;
+
+export interface ClassifiedProviderError {
+  category: ProviderErrorCategory;
+  status: number | null;
+  message: string;
+  headers: HeaderSource | null;
+  /** Wait requested by the provider (Retry-After or Gemini RetryInfo), if any. */
+  retryAfterMs: number | null;
+}
+
+/**
+ * HTTP error from a provider adapter that talks to the API with fetch.
+ */
+export class ProviderHttpError extends Error {
+  status: number;
+  headers: Headers;
+
+  constructor(message: string, status: number, headers: Headers) {
+    super(message);
+    this.name = "ProviderHttpError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|reduce the length|input is too long/i;
+const RATE_LIMIT_PATTERN = /rate[_ ]?limit|too many requests|quota|resource[_ ]exhausted/i;
+const AUTH_PATTERN = /invalid api key|unauthorized|authentication|permission denied|api key not valid/i;
+const NETWORK_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE", "ConnectionRefused"]);
+const NETWORK_PATTERN = /fetch failed|network|socket|connection (error|refused|reset)|unable to connect/i;
+
+/**
+ * Read a header from either header shape (case-insensitive).
+ */
+export function getHeader(headers: HeaderSource | null | undefined, name: string): string | null {
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name);
+  }
+
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower && value != null) {
+      return Array.isArray(value) ? value[0] ?? null : value;
+    }
+  }
+  return null;
+}
+
+/**
+ * List header names and values from either header shape.
+ */
+export function listHeaders(headers: HeaderSource | null | undefined): [string, string][] {
+  if (!headers) return [];
+  if (typeof (headers as Headers).entries === "function") {
+    return [...(headers as Headers).entries()];
+  }
+
+  return Object.entries(headers).flatMap(([key, value]): [string, string][] => {
+    if (value == null) return [];
+    return [[key.toLowerCase(), Array.isArray(value) ? value[0] ?? "" : value]];
+  });
+}
+
+/**
+ * Parse a Retry-After value (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+/**
+ * Get the HTTP status from the different SDK error shapes.
+ * Stainless SDKs use `status`, OpenRouter uses `statusCode`,
+ * and fetch-based adapters may only have it in the message.
+ */
+function getStatus(error: any): number | null {
+  const status = error?.status ?? error?.statusCode;
+  if (typeof status === "number") return status;
+
+  const match = /\b(?:error|status)[: ]+(\d{3})\b/i.exec(String(error?.message ?? ""));
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Gemini reports the wait in errorDetails as RetryInfo { retryDelay: "30s" }.
+ */
+function getGeminiRetryDelay(error: any): number | null {
+  const details: any[] = Array.isArray(error?.errorDetails) ? error.errorDetails : [];
+  const retryInfo = details.find((d) => typeof d?.retryDelay === "string");
+  if (!retryInfo) return null;
+
+  const seconds = parseFloat(retryInfo.retryDelay);
+  return Number.isNaN(seconds) ? null : seconds * 1000;
+}
+
+function isNetworkError(error: any, message: string): boolean {
+  if (NETWORK_CODES.has(error?.code) || NETWORK_CODES.has(error?.cause?.code)) return true;
+  if (error?.name === "APIConnectionError" || error?.name === "ConnectionError") return true;
+  return NETWORK_PATTERN.test(message);
+}
+
+/**
+ * Classify an error thrown by a provider adapter.
+ */
+export function classifyProviderError(error: unknown): ClassifiedProviderError {
+  const err = error as any;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(err);
+  const headers: HeaderSource | null = err?.headers && typeof err.headers === "object" ? err.headers : null;
+  const retryAfterMs = parseRetryAfter(getHeader(headers, "retry-after")) ?? getGeminiRetryDelay(err);
+
+  let category: ProviderErrorCategory;
+  if (err?.name === "RequestCancelledError") {
+    category = "cancelled";
+  } else if (err?.name === "StreamTimeoutError") {
+    category = "timeout";
+  } else if (err?.name === "ImageFetchError") {
+    // The client's image URL failed before the provider was called
+    category = "invalid_request";
+  } else if (status === 429 || RATE_LIMIT_PATTERN.test(message)) {
+    category = "rate_limit";
+  } else if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    category = "auth";
+  } else if (status === 413 || CONTEXT_LENGTH_PATTERN.test(message)) {
+    category = "context_length";
+  } else if (status !== null && status >= 500) {
+    category = "server";
+  } else if (status !== null && status >= 400) {
+    category = "invalid_request";
+  } else if (isNetworkError(err, message)) {
+    category = "network";
+  } else {
+    category = "unknown";
+  }
+
+  return { category, status, message, headers, retryAfterMs };
+}
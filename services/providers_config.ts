@@ -0,0 +1,211 @@
+/**
+ * Custom providers configuration service.
+ * Reads and writes providers.json, where extra OpenAI-compatible providers
+ * are declared without code changes.
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+
+const DEFAULT_PROVIDERS_FILE = join(import.meta.dir, "..", "providers.json");
+
+/**
+ * Path of providers.json (PROVIDERS_PATH overrides it, like MODELS_PATH).
+ */
+function getProvidersFile(): string {
+  return process.env.PROVIDERS_PATH || DEFAULT_PROVIDERS_FILE;
+}
+
+const PROVIDER_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const ENV_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+
+/**
+ * An OpenAI-compatible provider declared in providers.json.
+ */
+export interface CustomProviderConfig {
+  name: string;
+  /** API base URL, without the /chat/completions path. */
+  baseUrl: string;
+  /** Env var holding the API key. The provider is active when it is set. */
+  apiKeyName: string;
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Default request params, e.g. max_completion_tokens or temperature. */
+  params?: Record<string, unknown>;
+  /** Whether the provider's models accept tools (default true). */
+  supportsTools?: boolean;
+}
+
+/**
+ * Full custom providers configuration object.
+ */
+export interface ProvidersConfig {
+  [providerKey: string]: CustomProviderConfig;
+}
+
+/**
+ * Validation error for providers config.
+ */
+export class ProvidersConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProvidersConfigError";
+  }
+}
+
+// Cache for providers config to avoid reading file on every call
+let configCache: ProvidersConfig | null = null;
+let configCacheTime = 0;
+const CACHE_TTL_MS = 1000; // 1 second cache
+
+/**
+ * Clear the config cache.
+ * Call this after saving changes.
+ */
+export function clearProvidersConfigCache(): void {
+  configCache = null;
+  configCacheTime = 0;
+}
+
+/**
+ * Read and validate providers.json synchronously.
+ * A missing file means no custom providers.
+ */
+export function getProvidersConfig(): ProvidersConfig {
+  const now = Date.now();
+
+  // Return cached if valid
+  if (configCache && now - configCacheTime < CACHE_TTL_MS) {
+    return configCache;
+  }
+
+  let content: ProvidersConfig = {};
+  const providersFile = getProvidersFile();
+  if (existsSync(providersFile)) {
+    try {
+      delete require.cache[providersFile];
+      content = require(providersFile) as ProvidersConfig;
+    } catch (error) {
+      throw new ProvidersConfigError(`Failed to read providers.json: ${error}`);
+    }
+    validateProvidersConfig(content);
+  }
+
+  configCache = content;
+  configCacheTime = now;
+  return content;
+}
+
+/**
+ * Save custom providers configuration to providers.json.
+ */
+export async function saveProvidersConfig(config: ProvidersConfig): Promise<void> {
+  // Validate before saving
+  validateProvidersConfig(config);
+
+  const content = JSON.stringify(config, null, 2) + "\n";
+  await Bun.write(getProvidersFile(), content);
+
+  // Clear cache to pick up new values
+  clearProvidersConfigCache();
+}
+
+/**
+ * Validate the entire custom providers configuration.
+ * Throws ProvidersConfigError if validation fails.
+ */
+export function validateProvidersConfig(config: ProvidersConfig): void {
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new ProvidersConfigError("Config must be an object");
+  }
+
+  for (const [providerKey, providerConfig] of Object.entries(config)) {
+    validateCustomProvider(providerKey, providerConfig);
+  }
+}
+
+/**
+ * Validate a single custom provider definition.
+ */
+export function validateCustomProvider(providerKey: string, config: CustomProviderConfig): void {
+  // Keys appear in "provider/model" names, so they can't contain slashes
+  if (!PROVIDER_KEY_PATTERN.test(providerKey)) {
+    throw new ProvidersConfigError(
+      `Provider "${providerKey}": key must be lowercase letters, digits, "-" or "_"`
+    );
+  }
+
+  if (!config || typeof config !== "object") {
+    throw new ProvidersConfigError(`Provider "${providerKey}": config must be an object`);
+  }
+
+  if (typeof config.name !== "string" || config.name.trim() === "") {
+    throw new ProvidersConfigError(`Provider "${providerKey}": "name" must be a non-empty string`);
+  }
+
+  if (typeof config.baseUrl !== "string" || !isHttpUrl(config.baseUrl)) {
+    throw new ProvidersConfigError(`Provider "${providerKey}": "baseUrl" must be an http(s) URL`);
+  }
+
+  if (typeof config.apiKeyName !== "string" || !ENV_NAME_PATTERN.test(config.apiKeyName)) {
+    throw new ProvidersConfigError(
+      `Provider "${providerKey}": "apiKeyName" must be an env var name like MY_PROVIDER_API_KEY`
+    );
+  }
+
+  if (config.headers !== undefined) {
+    if (!isPlainObject(config.headers) || Object.values(config.headers).some((v) => typeof v !== "string")) {
+      throw new ProvidersConfigError(`Provider "${providerKey}": "headers" must map header names to strings`);
+    }
+  }
+
+  if (config.params !== undefined && !isPlainObject(config.params)) {
+    throw new ProvidersConfigError(`Provider "${providerKey}": "params" must be an object`);
+  }
+
+  if (config.supportsTools !== undefined && typeof config.supportsTools !== "boolean") {
+    throw new ProvidersConfigError(`Provider "${providerKey}": "supportsTools" must be a boolean`);
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Get a custom provider definition, or null if not declared.
+ */
+export function getCustomProvider(providerKey: string): CustomProviderConfig | null {
+  return getProvidersConfig()[providerKey] ?? null;
+}
+
+/**
+ * Add or replace a custom provider.
+ */
+export async function addCustomProvider(providerKey: string, config: CustomProviderConfig): Promise<void> {
+  const providersConfig = { ...getProvidersConfig(), [providerKey]: config };
+  await saveProvidersConfig(providersConfig);
+}
+
+/**
+ * Remove a custom provider.
+ */
+export async function removeCustomProvider(providerKey: string): Promise<void> {
+  const config = { ...getProvidersConfig() };
+
+  if (!config[providerKey]) {
+    throw new ProvidersConfigError(`Provider "${providerKey}" not found`);
+  }
+
+  delete config[providerKey];
+  await saveProvidersConfig(config);
+}
@@ -0,0 +1,228 @@
+/**
+ * Rate-limit tracking per provider/model.
+ *
+ * Quota comes from the x-ratelimit-* headers Groq, Cerebras and OpenRouter
+ * send with every response, and from Retry-After on 429s. A provider/model
+ * that is out of quota stays out of the rotation until its window resets.
+ *
+ * Header formats seen in the wild:
+ *   Groq        x-ratelimit-remaining-requests: 14370, x-ratelimit-reset-tokens: 7.66s
+ *   Cerebras    x-ratelimit-remaining-tokens-minute: 59000, x-ratelimit-reset-requests-day: 33011.38
+ *   OpenRouter  X-RateLimit-Remaining: 19, X-RateLimit-Reset: 1741305600000 (epoch ms)
+ *
+ * Quota belongs to an API key, so calls made with a pool key (see key_pool.ts)
+ * pass its `keyName` and are tracked separately from the other keys.
+ */
+
+import type { ActiveProvider } from "@defaults/types";
+import { listHeaders, type ClassifiedProviderError, type HeaderSource } from "./provider_errors.ts";
+
+/** Wait used when a 429 carries no hint about when to retry. */
+export const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000;
+
+const RATE_LIMIT_HEADER = /^x-ratelimit-(limit|remaining|reset)(?:-(requests|tokens))?(?:-[a-z]+)?$/;
+
+interface QuotaWindow {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null;
+}
+
+interface RateLimitEntry {
+  requests: QuotaWindow;
+  tokens: QuotaWindow;
+  blockedUntil: number;
+  updatedAt: number;
+}
+
+/**
+ * Remaining quota estimate for a provider/model.
+ * Once a window's reset time has passed, remaining is assumed back at the limit.
+ */
+export interface QuotaSnapshot {
+  providerKey: string;
+  model: string;
+  rateLimited: boolean;
+  /** Milliseconds until the provider/model is back in rotation (0 if not limited). */
+  retryInMs: number;
+  requests: { limit: number | null; remaining: number | null; resetInMs: number | null };
+  tokens: { limit: number | null; remaining: number | null; resetInMs: number | null };
+  updatedAt: string | null;
+}
+
+const registry = new Map<string, RateLimitEntry>();
+
+function entryKey(providerKey: string, model: string, keyName?: string): string {
+  return keyName ? `${providerKey}/${model}#${keyName}` : `${providerKey}/${model}`;
+}
+
+function getEntry(providerKey: string, model: string, keyName?: string): RateLimitEntry {
+  const key = entryKey(providerKey, model, keyName);
+  let entry = registry.get(key);
+  if (!entry) {
+    entry = {
+      requests: { limit: null, remaining: null, resetAt: null },
+      tokens: { limit: null, remaining: null, resetAt: null },
+      blockedUntil: 0,
+      updatedAt: 0,
+    };
+    registry.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Parse a reset value into milliseconds from now.
+ * Accepts Groq durations ("2m59.56s", "120ms"), plain seconds (Cerebras)
+ * and epoch timestamps in seconds or milliseconds (OpenRouter).
+ */
+export function parseResetValue(value: string, now: number = Date.now()): number | null {
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    if (n > 1e12) return Math.max(0, n - now);
+    if (n > 1e9) return Math.max(0, n * 1000 - now);
+    return n * 1000;
+  }
+
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join("") !== trimmed) return null;
+
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit!]!, 0);
+}
+
+/**
+ * Update the quota of a provider/model from response headers.
+ * An exhausted window takes the provider/model out of rotation until it resets.
+ */
+export function recordRateLimitHeaders(
+  providerKey: string,
+  model: string,
+  headers: HeaderSource | null | undefined,
+  keyName?: string
+): void {
+  const now = Date.now();
+  let entry: RateLimitEntry | null = null;
+
+  for (const [name, value] of listHeaders(headers)) {
+    const match = RATE_LIMIT_HEADER.exec(name.toLowerCase());
+    if (!match) continue;
+
+    entry ??= getEntry(providerKey, model, keyName);
+    const [, field, kind = "requests"] = match;
+    const window = kind === "tokens" ? entry.tokens : entry.requests;
+
+    if (field === "reset") {
+      const resetIn = parseResetValue(value, now);
+      if (resetIn !== null) window.resetAt = now + resetIn;
+    } else {
+      const n = Number(value);
+      if (!Number.isNaN(n)) window[field as "limit" | "remaining"] = n;
+    }
+  }
+
+  if (!entry) return;
+  entry.updatedAt = now;
+
+  for (const window of [entry.requests, entry.tokens]) {
+    if (window.remaining === 0 && window.resetAt !== null && window.resetAt > now) {
+      entry.blockedUntil = Math.max(entry.blockedUntil, window.resetAt);
+    }
+  }
+}
+
+/**
+ * Record a 429. The provider/model is skipped until Retry-After, the
+ * exhausted window's reset, or DEFAULT_RATE_LIMIT_WAIT_MS if neither is known.
+ */
+export function recordRateLimited(
+  providerKey: string,
+  model: string,
+  error: ClassifiedProviderError,
+  keyName?: string
+): void {
+  const now = Date.now();
+  recordRateLimitHeaders(providerKey, model, error.headers, keyName);
+
+  const entry = getEntry(providerKey, model, keyName);
+  const resets = [entry.requests, entry.tokens]
+    .filter((w) => w.remaining === 0 && w.resetAt !== null && w.resetAt > now)
+    .map((w) => w.resetAt! - now);
+  const wait = error.retryAfterMs ?? (resets.length > 0 ? Math.max(...resets) : DEFAULT_RATE_LIMIT_WAIT_MS);
+
+  entry.blockedUntil = Math.max(entry.blockedUntil, now + wait);
+  entry.updatedAt = now;
+  const scope = keyName ? ` with ${keyName}` : "";
+  console.warn(`Rate limited: ${providerKey}/${model}${scope} (retry in ${Math.ceil(wait / 1000)}s)`);
+}
+
+/**
+ * Check if a provider/model (on a given key, if set) is waiting for its quota window to reset.
+ */
+export function isRateLimited(providerKey: string, model: string, keyName?: string): boolean {
+  return isBlocked(registry.get(entryKey(providerKey, model, keyName)), Date.now());
+}
+
+function isBlocked(entry: RateLimitEntry | undefined, now: number): boolean {
+  return !!entry && now < entry.blockedUntil;
+}
+
+function snapshotWindow(window: QuotaWindow, now: number): QuotaSnapshot["requests"] {
+  const reset = window.resetAt !== null && now >= window.resetAt;
+  return {
+    limit: window.limit,
+    remaining: reset ? window.limit : window.remaining,
+    resetInMs: window.resetAt !== null && !reset ? window.resetAt - now : null,
+  };
+}
+
+/**
+ * Remaining quota estimates for every provider/model in the given providers.
+ * `getKeyNames` lists a provider's key pool: a model is rate limited when
+ * every key is, and the quota shown is the most recently reported one.
+ */
+export function getQuotaSnapshot(
+  providers: ActiveProvider[],
+  getKeyNames: (providerKey: string) => string[] = () => []
+): QuotaSnapshot[] {
+  const now = Date.now();
+
+  return providers.flatMap((provider) => {
+    const keyNames = getKeyNames(provider.key);
+
+    return provider.models.map((model) => {
+      const shared = registry.get(entryKey(provider.key, model));
+      const perKey = keyNames.map((keyName) => registry.get(entryKey(provider.key, model, keyName)));
+
+      let blockedUntil = 0;
+      if (isBlocked(shared, now)) {
+        blockedUntil = shared!.blockedUntil;
+      } else if (perKey.length > 0 && perKey.every((entry) => isBlocked(entry, now))) {
+        blockedUntil = Math.min(...perKey.map((entry) => entry!.blockedUntil));
+      }
+
+      const entry = [shared, ...perKey]
+        .filter((e): e is RateLimitEntry => !!e)
+        .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+      return {
+        providerKey: provider.key,
+        model,
+        rateLimited: blockedUntil > 0,
+        retryInMs: blockedUntil > 0 ? blockedUntil - now : 0,
+        requests: entry ? snapshotWindow(entry.requests, now) : { limit: null, remaining: null, resetInMs: null },
+        tokens: entry ? snapshotWindow(entry.tokens, now) : { limit: null, remaining: null, resetInMs: null },
+        updatedAt: entry?.updatedAt ? new Date(entry.updatedAt).toISOString() : null,
+      };
+    });
+  });
+}
+
+/**
+ * Forget all rate-limit data (useful for testing).
+ */
+export function resetRateLimits(): void {
+  registry.clear();
+}
@@ -0,0 +1,195 @@
+/**
+ * Routing strategies.
+ *
+ * A strategy decides the order in which the rotation tries providers; the
+ * rest of the order is the fallback chain. It is picked per request from the
+ * X-AICarousel-Strategy header, else the API key's `routing_strategy`, else
+ * the ROUTING_STRATEGY env var (default "round-robin"):
+ *
+ * - round-robin: each request starts at the provider after the last one served
+ * - weighted: random order, each provider drawn in proportion to its weight
+ * - priority: always the configured order, so #1 serves whenever it can
+ * - latency: fastest first, by the last measured time to first token
+ * - quota: most remaining rate-limit quota first (see rate_limits.ts)
+ */
+
+import type { ActiveProvider, RoutingStrategy } from "@defaults/types";
+import { getQuotaSnapshot, type QuotaSnapshot } from "./rate_limits.ts";
+import { getApiKeys } from "./key_pool.ts";
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = ["round-robin", "weighted", "priority", "latency", "quota"];
+
+/** Request header that picks a strategy; responses echo the one used. */
+export const STRATEGY_HEADER = "x-aicarousel-strategy";
+
+const DEFAULT_STRATEGY: RoutingStrategy = "round-robin";
+
+/**
+ * Thrown when a request names a strategy that does not exist.
+ */
+export class UnknownStrategyError extends Error {
+  constructor(public readonly strategy: string) {
+    super(`Unknown routing strategy "${strategy}". Use one of: ${ROUTING_STRATEGIES.join(", ")}`);
+    this.name = "UnknownStrategyError";
+  }
+}
+
+// Round-robin position in the rotation
+let roundRobinIndex = 0;
+
+// Last time to first token per provider, in milliseconds
+const latencies = new Map<string, number>();
+
+let warnedEnvStrategy: string | null = null;
+
+/**
+ * Check if a value names a routing strategy.
+ */
+export function isRoutingStrategy(value: string): value is RoutingStrategy {
+  return (ROUTING_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Get the server-wide strategy from ROUTING_STRATEGY.
+ * Invalid values fall back to round-robin with a warning.
+ */
+export function getDefaultRoutingStrategy(): RoutingStrategy {
+  const value = process.env.ROUTING_STRATEGY?.trim().toLowerCase();
+  if (!value) return DEFAULT_STRATEGY;
+  if (isRoutingStrategy(value)) return value;
+
+  if (warnedEnvStrategy !== value) {
+    warnedEnvStrategy = value;
+    console.warn(`Invalid ROUTING_STRATEGY "${value}", using ${DEFAULT_STRATEGY}`);
+  }
+  return DEFAULT_STRATEGY;
+}
+
+/**
+ * Pick the strategy for a request: the header value, then the API key's,
+ * then the server default. Throws UnknownStrategyError for a bad header.
+ */
+export function resolveRoutingStrategy(
+  headerValue: string | null | undefined,
+  keyStrategy?: RoutingStrategy | null
+): RoutingStrategy {
+  const requested = headerValue?.trim().toLowerCase();
+  if (requested) {
+    if (!isRoutingStrategy(requested)) {
+      throw new UnknownStrategyError(requested);
+    }
+    return requested;
+  }
+
+  return keyStrategy ?? getDefaultRoutingStrategy();
+}
+
+/**
+ * Order providers (already sorted by priority) for a strategy.
+ */
+export function orderProviders(
+  providers: ActiveProvider[],
+  strategy: RoutingStrategy,
+  random: () => number = Math.random
+): ActiveProvider[] {
+  switch (strategy) {
+    case "weighted":
+      return weightedOrder(providers, random);
+    case "priority":
+      return [...providers];
+    case "latency":
+      return sortByScore(providers, (provider) => latencies.get(provider.key) ?? -1);
+    case "quota":
+      return sortByScore(providers, (provider) => -remainingQuotaRatio(provider));
+    case "round-robin":
+    default: {
+      if (providers.length === 0) return [];
+      const start = roundRobinIndex % providers.length;
+      return [...providers.slice(start), ...providers.slice(0, start)];
+    }
+  }
+}
+
+/**
+ * Move the round-robin position past the provider that served a request.
+ */
+export function advanceRoundRobin(providers: ActiveProvider[], served: ActiveProvider): void {
+  const index = providers.findIndex((provider) => provider.key === served.key);
+  if (index >= 0) {
+    roundRobinIndex = (index + 1) % providers.length;
+  }
+}
+
+/**
+ * Record how long a provider took to send its first event.
+ */
+export function recordLatency(providerKey: string, ms: number): void {
+  latencies.set(providerKey, ms);
+}
+
+/**
+ * Get the last measured time to first token of a provider, or null.
+ */
+export function getLatency(providerKey: string): number | null {
+  return latencies.get(providerKey) ?? null;
+}
+
+/**
+ * Forget the round-robin position and latencies (useful for testing).
+ */
+export function resetRouting(): void {
+  roundRobinIndex = 0;
+  latencies.clear();
+}
+
+/**
+ * Draw providers without replacement, each in proportion to its weight.
+ * Providers with weight 0 only come after all others, in priority order.
+ */
+function weightedOrder(providers: ActiveProvider[], random: () => number): ActiveProvider[] {
+  const pool = providers.filter((provider) => (provider.weight ?? 1) > 0);
+  const ordered: ActiveProvider[] = [];
+
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, provider) => sum + (provider.weight ?? 1), 0);
+    let pick = random() * total;
+    let index = 0;
+    while (index < pool.length - 1 && pick >= (pool[index]!.weight ?? 1)) {
+      pick -= pool[index]!.weight ?? 1;
+      index++;
+    }
+    ordered.push(...pool.splice(index, 1));
+  }
+
+  return [...ordered, ...providers.filter((provider) => (provider.weight ?? 1) <= 0)];
+}
+
+/**
+ * Sort ascending by score; ties keep priority order.
+ */
+function sortByScore(providers: ActiveProvider[], score: (provider: ActiveProvider) => number): ActiveProvider[] {
+  return providers
+    .map((provider) => ({ provider, score: score(provider) }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ provider }) => provider);
+}
+
+/**
+ * Fraction (0-1) of the default model's rate-limit quota left, by the
+ * scarcer of the request and token windows. Unknown quota counts as full.
+ */
+function remainingQuotaRatio(provider: ActiveProvider): number {
+  const [quota] = getQuotaSnapshot(
+    [{ ...provider, models: [provider.defaultModel] }],
+    (providerKey) => getApiKeys(providerKey).map((key) => key.name)
+  );
+  if (!quota) return 1;
+  if (quota.rateLimited) return 0;
+
+  return Math.min(windowRatio(quota.requests), windowRatio(quota.tokens));
+}
+
+function windowRatio(window: QuotaSnapshot["requests"]): number {
+  if (window.limit === null || window.remaining === null || window.limit <= 0) return 1;
+  return Math.max(0, Math.min(1, window.remaining / window.limit));
+}
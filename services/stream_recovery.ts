@@ -0,0 +1,136 @@
+/**
+ * Mid-stream recovery.
+ * When a provider fails after the stream has started, the conversation plus
+ * the partial assistant output is re-issued to the next provider and its
+ * output continues the same client stream.
+ *
+ * Controlled by STREAM_RECOVERY:
+ *   continue (default) - resume on the next provider
+ *   off                - end the stream with an error event
+ */
+
+import type { ChatMessage, ChatStreamEvent } from "@defaults/types";
+import { RequestCancelledError } from "./cancellation.ts";
+
+export type StreamRecoveryMode = "continue" | "off";
+
+/**
+ * Instruction appended after the partial answer so the next model picks up
+ * where the previous one stopped instead of starting over.
+ */
+export const CONTINUATION_PROMPT =
+  "Your previous response was cut off. Continue it exactly where it stopped, " +
+  "without repeating any text and without acknowledging the interruption.";
+
+/**
+ * A stream that was resumed on another provider.
+ */
+export interface ResumedStream {
+  stream: AsyncIterable<ChatStreamEvent>;
+  serviceName: string;
+  model: string;
+}
+
+/**
+ * Error raised when a stream fails and cannot be resumed.
+ */
+export class StreamInterruptedError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "StreamInterruptedError";
+  }
+}
+
+/**
+ * Read the recovery mode from the environment.
+ */
+export function getStreamRecoveryMode(): StreamRecoveryMode {
+  const value = process.env.STREAM_RECOVERY?.trim().toLowerCase();
+  return value === "off" ? "off" : "continue";
+}
+
+/**
+ * Build the messages that ask the next provider to continue a partial answer.
+ * Without partial text the original conversation is simply retried.
+ */
+export function buildContinuationMessages(messages: ChatMessage[], partialText: string): ChatMessage[] {
+  if (!partialText) {
+    return messages;
+  }
+
+  return [
+    ...messages,
+    { role: "assistant", content: partialText },
+    { role: "user", content: CONTINUATION_PROMPT },
+  ];
+}
+
+/**
+ * Wrap a stream so mid-stream failures are resumed through `resume`.
+ *
+ * `resume` receives the text produced so far and returns the continuation
+ * stream, or null when no provider is left. Streams that already emitted tool
+ * call deltas are never resumed: half a tool call cannot be continued safely.
+ * Client cancellations are passed through untouched.
+ */
+export async function* withStreamRecovery(
+  initial: ResumedStream,
+  resume: (partialText: string) => Promise<ResumedStream | null>,
+  mode: StreamRecoveryMode = getStreamRecoveryMode()
+): AsyncIterable<ChatStreamEvent> {
+  let current = initial;
+  let partialText = "";
+  let hasToolCalls = false;
+
+  while (true) {
+    try {
+      for await (const event of current.stream) {
+        if (event.type === "text") {
+          partialText += event.text;
+        } else if (event.type === "tool_call") {
+          hasToolCalls = true;
+        }
+        yield event;
+      }
+      return;
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      console.error(`${current.serviceName} (${current.model}) failed mid-stream:`, error);
+
+      if (mode === "off") {
+        throw new StreamInterruptedError(`${current.serviceName} stream was interrupted`, error);
+      }
+      if (hasToolCalls) {
+        throw new StreamInterruptedError(
+          `${current.serviceName} stream was interrupted during a tool call`,
+          error
+        );
+      }
+
+      const next = await resume(partialText);
+      if (!next) {
+        throw new StreamInterruptedError("Stream was interrupted and no provider could continue it", error);
+      }
+
+      console.log(`Continuing stream with ${next.serviceName} (model: ${next.model})`);
+      current = next;
+    }
+  }
+}
+
+/**
+ * End a stream with an error event instead of throwing when it fails.
+ * Client cancellations still throw: there is nobody left to tell.
+ */
+export async function* withErrorEvent(stream: AsyncIterable<ChatStreamEvent>): AsyncIterable<ChatStreamEvent> {
+  try {
+    yield* stream;
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+    yield { type: "error", message: error instanceof Error ? error.message : "Stream interrupted" };
+  }
+}
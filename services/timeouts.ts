@@ -0,0 +1,72 @@
+/**
+ * Stream timeouts.
+ *
+ * FIRST_TOKEN_TIMEOUT_MS - max wait from sending the request to the first
+ *                          content or tool call (default 60s)
+ * CHUNK_TIMEOUT_MS       - max silence between chunks once streaming (default 30s)
+ *
+ * Set either to 0 to disable it. A timeout before the first token lets the
+ * rotation fail over; after it, the stream ends with an error.
+ */
+
+export const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 60_000;
+export const DEFAULT_CHUNK_TIMEOUT_MS = 30_000;
+
+export interface StreamTimeouts {
+  firstTokenMs: number;
+  chunkMs: number;
+}
+
+export type TimeoutPhase = "first_token" | "chunk";
+
+/**
+ * Error raised when a provider stays silent for too long.
+ */
+export class StreamTimeoutError extends Error {
+  phase: TimeoutPhase;
+  timeoutMs: number;
+
+  constructor(phase: TimeoutPhase, timeoutMs: number) {
+    const what = phase === "first_token" ? "No first token" : "No data";
+    super(`${what} within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "StreamTimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+function readTimeout(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Read the configured timeouts from the environment.
+ */
+export function getStreamTimeouts(): StreamTimeouts {
+  return {
+    firstTokenMs: readTimeout("FIRST_TOKEN_TIMEOUT_MS", DEFAULT_FIRST_TOKEN_TIMEOUT_MS),
+    chunkMs: readTimeout("CHUNK_TIMEOUT_MS", DEFAULT_CHUNK_TIMEOUT_MS),
+  };
+}
+
+/**
+ * Reject with `onTimeout()` if the promise does not settle within `ms`.
+ * A non-positive `ms` disables the timeout.
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, onTimeout: () => Error): Promise<T> {
+  if (ms <= 0) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Token counting.
+ * Each model family gets a tokenizer picked by model name; unknown models use
+ * the default heuristic. Counts are estimates: when a provider reports real
+ * usage at the end of a stream, that number is used instead.
+ */
+
+import type { ChatMessage, ToolDefinition } from "@defaults/types";
+import { countImages, getTextContent } from "./content";
+
+/**
+ * Counts the tokens of a piece of text for one model family.
+ */
+export interface Tokenizer {
+  name: string;
+  count(text: string): number;
+}
+
+/** Tokens added per message for the role and chat template markers. */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Tokens that prime the assistant reply. */
+export const REPLY_OVERHEAD_TOKENS = 3;
+/** Tokens added per tool definition or tool call for its wrapper. */
+export const TOOL_OVERHEAD_TOKENS = 8;
+/** Rough cost of one image; providers bill images by resolution. */
+export const IMAGE_TOKENS = 765;
+
+// CJK characters, letter runs, digit runs, whitespace runs, other symbols
+const SEGMENT_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}+|\s+|[^\s\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Create a tokenizer that approximates a BPE vocabulary.
+ * `charsPerToken` is how many letters of a word one token covers on average:
+ * larger vocabularies cover more, and common words up to 1.5x that length are
+ * a single token. Digits are grouped in threes, CJK characters are one token
+ * each and a leading space merges with the next word.
+ */
+export function createHeuristicTokenizer(name: string, charsPerToken: number): Tokenizer {
+  return {
+    name,
+    count(text: string): number {
+      let tokens = 0;
+      for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+        if (CJK_PATTERN.test(segment)) {
+          tokens += 1;
+        } else if (/^\p{L}/u.test(segment)) {
+          tokens += Math.max(1, Math.ceil(segment.length / charsPerToken - 0.5));
+        } else if (/^\p{N}/u.test(segment)) {
+          tokens += Math.ceil(segment.length / 3);
+        } else if (/^\s/.test(segment)) {
+          // Single spaces belong to the next word; newlines and indentation do not
+          if (segment !== " ") tokens += 1;
+        } else {
+          tokens += Math.ceil(segment.length / 2);
+        }
+      }
+      return tokens;
+    },
+  };
+}
+
+export const defaultTokenizer = createHeuristicTokenizer("default", 4);
+
+// Later registrations take precedence
+const registry: { pattern: RegExp; tokenizer: Tokenizer }[] = [
+  { pattern: /gpt|openai|\bo\d\b/i, tokenizer: createHeuristicTokenizer("openai", 4.2) },
+  { pattern: /llama-?3|llama3|llama-?4/i, tokenizer: createHeuristicTokenizer("llama3", 4.1) },
+  { pattern: /mistral|mixtral|codestral/i, tokenizer: createHeuristicTokenizer("mistral", 3.4) },
+  { pattern: /qwen/i, tokenizer: createHeuristicTokenizer("qwen", 4) },
+  { pattern: /gemma|gemini/i, tokenizer: createHeuristicTokenizer("gemma", 4.4) },
+];
+
+/**
+ * Register a tokenizer for models whose name matches `pattern`.
+ * It takes precedence over every tokenizer registered before it.
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+  registry.push({ pattern, tokenizer });
+}
+
+/**
+ * Get the tokenizer for a model name (bare or provider/model).
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  if (!model) return defaultTokenizer;
+
+  for (let i = registry.length - 1; i >= 0; i--) {
+    if (registry[i]!.pattern.test(model)) {
+      return registry[i]!.tokenizer;
+    }
+  }
+  return defaultTokenizer;
+}
+
+/**
+ * Count the tokens of plain text.
+ */
+export function countTokens(text: string, model?: string): number {
+  return getTokenizer(model).count(text);
+}
+
+/**
+ * Count the prompt tokens of a conversation, including tool calls, results and images.
+ */
+export function countMessageTokens(messages: ChatMessage[], model?: string): number {
+  const tokenizer = getTokenizer(model);
+  return messages.reduce((sum, message) => sum + countMessage(message, tokenizer), REPLY_OVERHEAD_TOKENS);
+}
+
+/**
+ * Count the tokens one message adds to the prompt.
+ */
+export function countMessage(message: ChatMessage, tokenizer: Tokenizer): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + tokenizer.count(getTextContent(message.content));
+  tokens += countImages(message.content) * IMAGE_TOKENS;
+  for (const call of message.tool_calls ?? []) {
+    tokens += TOOL_OVERHEAD_TOKENS + tokenizer.count(call.function.name) + tokenizer.count(call.function.arguments);
+  }
+  return tokens;
+}
+
+/**
+ * Count the tokens tool definitions add to the prompt.
+ */
+export function countToolTokens(tools: ToolDefinition[] | undefined, model?: string): number {
+  const tokenizer = getTokenizer(model);
+  return (tools ?? []).reduce(
+    (sum, tool) => sum + TOOL_OVERHEAD_TOKENS + tokenizer.count(JSON.stringify(tool.function)),
+    0
+  );
+}
+
+/**
+ * Estimate the input tokens of a request: system prompt, messages and tools.
+ */
+export function countRequestTokens(messages: ChatMessage[], tools?: ToolDefinition[], model?: string): number {
+  return countMessageTokens(messages, model) + countToolTokens(tools, model);
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for auth/admin.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { canReadMetrics, getMetricsAllowedIps, isAdminRequest, isIpAllowed } from "../../auth/admin";
+import { createMockRequest } from "../utils/mocks";
+
+describe("admin auth", () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.ADMIN_API_KEY = "admin-secret";
+    delete process.env.METRICS_ALLOWED_IPS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should accept the admin key as Bearer token or x-api-key", () => {
+    expect(isAdminRequest(createMockRequest({}, { Authorization: "Bearer admin-secret" }))).toBe(true);
+    expect(isAdminRequest(createMockRequest({}, { "x-api-key": "admin-secret" }))).toBe(true);
+    expect(isAdminRequest(createMockRequest({}, { Authorization: "Bearer admin-secre" }))).toBe(false);
+    expect(isAdminRequest(createMockRequest({}))).toBe(false);
+  });
+
+  test("should reject every key when ADMIN_API_KEY is unset", () => {
+    delete process.env.ADMIN_API_KEY;
+    expect(isAdminRequest(createMockRequest({}, { Authorization: "Bearer " }))).toBe(false);
+  });
+
+  test("should allow loopback by default and honor METRICS_ALLOWED_IPS", () => {
+    expect(getMetricsAllowedIps()).toEqual(["127.0.0.1", "::1"]);
+    expect(isIpAllowed("::ffff:127.0.0.1", getMetricsAllowedIps())).toBe(true);
+
+    process.env.METRICS_ALLOWED_IPS = "10.0.0.5, 10.0.0.6";
+    expect(isIpAllowed("10.0.0.6", getMetricsAllowedIps())).toBe(true);
+    expect(isIpAllowed("127.0.0.1", getMetricsAllowedIps())).toBe(false);
+
+    process.env.METRICS_ALLOWED_IPS = "";
+    expect(getMetricsAllowedIps()).toEqual([]);
+  });
+
+  test("should let metrics through with the admin key or an allowed IP", () => {
+    process.env.METRICS_ALLOWED_IPS = "10.0.0.5";
+
+    expect(canReadMetrics(createMockRequest({}), "10.0.0.5")).toBe(true);
+    expect(canReadMetrics(createMockRequest({}, { "x-api-key": "admin-secret" }), "192.168.1.9")).toBe(true);
+    expect(canReadMetrics(createMockRequest({}), "192.168.1.9")).toBe(false);
+    expect(canReadMetrics(createMockRequest({}), null)).toBe(false);
+  });
+});
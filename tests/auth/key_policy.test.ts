@@ -0,0 +1,72 @@
+/**
+ * Tests for auth/key_policy.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  getAllowedModels,
+  getKeyScopes,
+  getRequiredScope,
+  hasScope,
+  isKeyExpired,
+  parseExpiry,
+  validateAllowedModels,
+} from "../../auth/key_policy";
+import { ValidationError } from "../../db/errors";
+
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+describe("key_policy", () => {
+  test("should map endpoints to the scope they need", () => {
+    expect(getRequiredScope("/v1/chat/completions")).toBe("chat");
+    expect(getRequiredScope("/v1/responses")).toBe("chat");
+    expect(getRequiredScope("/chat")).toBe("chat");
+    expect(getRequiredScope("/v1/messages")).toBe("messages");
+    expect(getRequiredScope("/v1/messages/count_tokens")).toBe("messages");
+    expect(getRequiredScope("/v1/models/groq")).toBe("models");
+    expect(getRequiredScope("/metrics")).toBe("admin");
+    expect(getRequiredScope("/admin/providers")).toBe("admin");
+    expect(getRequiredScope("/unknown")).toBeNull();
+  });
+
+  test("should grant every scope but admin by default", () => {
+    expect(getKeyScopes({ scopes: null })).toEqual(["chat", "messages", "models"]);
+    expect(hasScope({ scopes: null }, "admin")).toBe(false);
+
+    expect(hasScope({ scopes: "chat,admin" }, "admin")).toBe(true);
+    expect(hasScope({ scopes: "chat,admin" }, "messages")).toBe(false);
+  });
+
+  test("should expire keys at their expiry time", () => {
+    expect(isKeyExpired({ expires_at: null }, NOW)).toBe(false);
+    expect(isKeyExpired({ expires_at: "2026-03-10 12:00:01" }, NOW)).toBe(false);
+    expect(isKeyExpired({ expires_at: "2026-03-10 12:00:00" }, NOW)).toBe(true);
+  });
+
+  test("should parse durations, dates and datetimes as UTC expiries", () => {
+    expect(parseExpiry("30d", NOW)).toBe("2026-04-09 12:00:00");
+    expect(parseExpiry("12h", NOW)).toBe("2026-03-11 00:00:00");
+    expect(parseExpiry("2w", NOW)).toBe("2026-03-24 12:00:00");
+    expect(parseExpiry("2026-12-31", NOW)).toBe("2026-12-31 23:59:59");
+    expect(parseExpiry("2026-12-31 08:30", NOW)).toBe("2026-12-31 08:30:00");
+
+    expect(() => parseExpiry("soon", NOW)).toThrow("Invalid expiry");
+    expect(() => parseExpiry("2026-13-40", NOW)).toThrow("Invalid expiry");
+    expect(() => parseExpiry("soon", NOW)).toThrow(ValidationError);
+  });
+
+  test("should split the allowlist, or allow everything without one", () => {
+    expect(getAllowedModels({ allowed_models: "groq,ollama/llama3.2" })).toEqual(["groq", "ollama/llama3.2"]);
+    expect(getAllowedModels({ allowed_models: null })).toBeUndefined();
+    expect(getAllowedModels(undefined)).toBeUndefined();
+  });
+
+  test("should accept only configured providers and models.json models in the allowlist", () => {
+    expect(() => validateAllowedModels(["groq", "ollama/gemma3:1b", "openrouter/qwen/qwen3-coder:free"])).not.toThrow();
+
+    expect(() => validateAllowedModels(["grok", "groq", "ollama/llama9", "gemma3:1b", "/x"])).toThrow(
+      "Unknown providers or models: grok, ollama/llama9, gemma3:1b, /x"
+    );
+    expect(() => validateAllowedModels(["grok"])).toThrow(ValidationError);
+  });
+});
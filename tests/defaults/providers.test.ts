@@ -0,0 +1,92 @@
+/**
+ * Tests for defaults/providers.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { getProviderParams, getSamplingParams, requiresTools } from "../../defaults/providers";
+
+describe("providers", () => {
+  describe("getSamplingParams", () => {
+    test("should return no params when the client sends none", () => {
+      expect(getSamplingParams("groq", {})).toEqual({});
+    });
+
+    test("should clamp temperature to the provider range", () => {
+      expect(getSamplingParams("cerebras", { temperature: 1.9 }).temperature).toBe(1.5);
+      expect(getSamplingParams("groq", { temperature: 1.9 }).temperature).toBe(1.9);
+      expect(getSamplingParams("groq", { temperature: -1 }).temperature).toBe(0);
+    });
+
+    test("should send max tokens as max_completion_tokens clamped to the provider ceiling", () => {
+      expect(getSamplingParams("gemini", { max_tokens: 1024 }).max_completion_tokens).toBe(1024);
+      expect(getSamplingParams("groq", { max_tokens: 32000 }).max_completion_tokens).toBe(16384);
+      expect(getSamplingParams("ollama", { max_tokens: 32000 }).max_completion_tokens).toBe(32000);
+    });
+
+    test("should drop params the provider does not support", () => {
+      const params = getSamplingParams("groq", {
+        top_k: 40,
+        frequency_penalty: 0.5,
+        presence_penalty: 0.5,
+      });
+
+      expect(params).toEqual({});
+    });
+
+    test("should keep supported penalties and top_k", () => {
+      expect(getSamplingParams("openrouter", { frequency_penalty: 3 }).frequency_penalty).toBe(2);
+      expect(getSamplingParams("gemini", { top_k: 40 }).top_k).toBe(40);
+    });
+
+    test("should limit stop sequences", () => {
+      const stop = ["a", "b", "c", "d", "e", "f"];
+      expect(getSamplingParams("groq", { stop }).stop).toEqual(["a", "b", "c", "d"]);
+      expect(getSamplingParams("gemini", { stop }).stop).toEqual(["a", "b", "c", "d", "e"]);
+    });
+  });
+
+  describe("getProviderParams", () => {
+    test("should override base defaults with client params", () => {
+      const params = getProviderParams("groq", "llama-3.1-8b-instant", {
+        temperature: 0.2,
+        max_tokens: 512,
+      });
+
+      expect(params.model).toBe("llama-3.1-8b-instant");
+      expect(params.temperature).toBe(0.2);
+      expect(params.max_completion_tokens).toBe(512);
+      expect(params.stream).toBe(true);
+    });
+
+    test("should keep base defaults when the client sends nothing", () => {
+      const params = getProviderParams("groq", "llama-3.1-8b-instant");
+
+      expect(params.temperature).toBe(0.6);
+      expect(params.max_completion_tokens).toBe(4096);
+    });
+
+    test("should cap max tokens at the model's maxOutput", () => {
+      // llama-3.1-8b-instant has maxOutput 8192 in models.json
+      const params = getProviderParams("groq", "llama-3.1-8b-instant", { max_tokens: 16000 });
+
+      expect(params.max_completion_tokens).toBe(8192);
+    });
+
+    test("should add tools only when present", () => {
+      const tools = [{ type: "function" as const, function: { name: "ls" } }];
+
+      expect(getProviderParams("groq", "m", {}).tools).toBeUndefined();
+      expect(getProviderParams("groq", "m", { tools, tool_choice: "auto" }).tool_choice).toBe("auto");
+    });
+  });
+
+  describe("requiresTools", () => {
+    test("should require tools unless tool_choice is none", () => {
+      const tools = [{ type: "function" as const, function: { name: "ls" } }];
+
+      expect(requiresTools({})).toBe(false);
+      expect(requiresTools({ tools })).toBe(true);
+      expect(requiresTools({ tools, tool_choice: "none" })).toBe(false);
+    });
+  });
+});
@@ -3,6 +3,11 @@
  */
 
 import { describe, test, expect } from "bun:test";
+import {
+  formatAnthropicStream,
+  formatAnthropicComplete,
+} from "../../formatters/anthropic_formatter";
+import type { ChatStreamEvent } from "../../defaults/types";
 
 // Inline implementations for testing
 
@@ -210,4 +215,169 @@ describe("Anthropic Formatter", () => {
       expect(events[events.length - 1]).toContain("message_stop");
     });
   });
+
+  describe("tool_use blocks", () => {
+    async function* toolStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Let me look." };
+      yield { type: "tool_call", index: 0, id: "call_1", name: "Read", arguments: '{"file_path":' };
+      yield { type: "tool_call", index: 0, arguments: '"a.ts"}' };
+    }
+
+    function parseEvents(raw: string[]): any[] {
+      return raw.map((event) => JSON.parse(event.split("\ndata: ")[1]!.trim()));
+    }
+
+    test("should stream text block followed by tool_use block", async () => {
+      const raw: string[] = [];
+      for await (const event of formatAnthropicStream(toolStream(), "aicarousel")) {
+        raw.push(event);
+      }
+      const events = parseEvents(raw);
+      const types = events.map((e) => e.type);
+
+      expect(types).toEqual([
+        "message_start",
+        "content_block_start",
+        "content_block_delta",
+        "content_block_stop",
+        "content_block_start",
+        "content_block_delta",
+        "content_block_delta",
+        "content_block_stop",
+        "message_delta",
+        "message_stop",
+      ]);
+      expect(events[4].index).toBe(1);
+      expect(events[4].content_block).toEqual({ type: "tool_use", id: "call_1", name: "Read", input: {} });
+      expect(events[5].delta).toEqual({ type: "input_json_delta", partial_json: '{"file_path":' });
+      expect(events[8].delta.stop_reason).toBe("tool_use");
+    });
+
+    test("should build tool_use content in non-streaming response", async () => {
+      const message = await formatAnthropicComplete(toolStream(), "aicarousel");
+
+      expect(message.stop_reason).toBe("tool_use");
+      expect(message.content).toEqual([
+        { type: "text", text: "Let me look." },
+        { type: "tool_use", id: "call_1", name: "Read", input: { file_path: "a.ts" } },
+      ]);
+    });
+
+    test("should keep a single empty text block for empty streams", async () => {
+      async function* empty(): AsyncIterable<ChatStreamEvent> {}
+
+      const raw: string[] = [];
+      for await (const event of formatAnthropicStream(empty(), "aicarousel")) {
+        raw.push(event);
+      }
+      const events = parseEvents(raw);
+
+      expect(events[1].content_block).toEqual({ type: "text", text: "" });
+      expect(events[3].delta.stop_reason).toBe("end_turn");
+    });
+  });
+
+  describe("usage", () => {
+    async function* reportedStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Hello world" };
+      yield { type: "usage", inputTokens: 120, outputTokens: 7 };
+    }
+
+    test("should estimate input tokens in message_start and prefer reported usage at the end", async () => {
+      const raw: string[] = [];
+      for await (const event of formatAnthropicStream(reportedStream(), "aicarousel", { inputTokens: 100 })) {
+        raw.push(event);
+      }
+      const events = raw.map((event) => JSON.parse(event.split("\ndata: ")[1]!.trim()));
+      const delta = events.find((e) => e.type === "message_delta");
+
+      expect(events[0].message.usage).toEqual({ input_tokens: 100, output_tokens: 0 });
+      expect(delta.usage).toEqual({ input_tokens: 120, output_tokens: 7 });
+      expect(events.filter((e) => e.type === "content_block_delta")).toHaveLength(1);
+    });
+
+    test("should estimate usage when the provider reports none", async () => {
+      async function* textStream(): AsyncIterable<ChatStreamEvent> {
+        yield { type: "text", text: "Hello world" };
+      }
+
+      const message = await formatAnthropicComplete(textStream(), "aicarousel", { inputTokens: 42 });
+
+      expect(message.usage.input_tokens).toBe(42);
+      expect(message.usage.output_tokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe("stop reasons", () => {
+    async function* finishing(finish: ChatStreamEvent): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Hello" };
+      yield finish;
+    }
+
+    async function messageDelta(stream: AsyncIterable<ChatStreamEvent>): Promise<any> {
+      let last: any = null;
+      for await (const event of formatAnthropicStream(stream, "aicarousel")) {
+        if (event.startsWith("event: message_delta")) {
+          last = JSON.parse(event.split("\ndata: ")[1]!.trim());
+        }
+      }
+      return last;
+    }
+
+    test("should map length to max_tokens", async () => {
+      const delta = await messageDelta(finishing({ type: "finish", reason: "length" }));
+      const message = await formatAnthropicComplete(finishing({ type: "finish", reason: "length" }));
+
+      expect(delta.delta).toEqual({ stop_reason: "max_tokens", stop_sequence: null });
+      expect(message.stop_reason).toBe("max_tokens");
+    });
+
+    test("should report the matched stop sequence", async () => {
+      const finish: ChatStreamEvent = { type: "finish", reason: "stop_sequence", stopSequence: "###" };
+
+      const delta = await messageDelta(finishing(finish));
+      const message = await formatAnthropicComplete(finishing(finish));
+
+      expect(delta.delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "###" });
+      expect(message.stop_reason).toBe("stop_sequence");
+      expect(message.stop_sequence).toBe("###");
+    });
+
+    test("should end with an error event on an error event", async () => {
+      async function* failed(): AsyncIterable<ChatStreamEvent> {
+        yield { type: "text", text: "Partial" };
+        yield { type: "error", message: "No provider could continue" };
+      }
+
+      const raw: string[] = [];
+      for await (const event of formatAnthropicStream(failed(), "aicarousel")) {
+        raw.push(event);
+      }
+
+      expect(raw[raw.length - 1]!.startsWith("event: error\n")).toBe(true);
+      expect(raw.some((event) => event.includes("message_stop"))).toBe(false);
+    });
+  });
+
+  describe("stream errors", () => {
+    test("should end with an in-band error event instead of message_stop", async () => {
+      async function* interruptedStream(): AsyncIterable<ChatStreamEvent> {
+        yield { type: "text", text: "Partial" };
+        throw new Error("Provider connection reset");
+      }
+
+      const raw: string[] = [];
+      for await (const event of formatAnthropicStream(interruptedStream(), "aicarousel")) {
+        raw.push(event);
+      }
+      const last = raw[raw.length - 1]!;
+
+      expect(last.startsWith("event: error\n")).toBe(true);
+      expect(JSON.parse(last.split("\ndata: ")[1]!.trim())).toEqual({
+        type: "error",
+        error: { type: "api_error", message: "Provider connection reset" },
+      });
+      expect(raw.some((event) => event.includes("message_stop"))).toBe(false);
+    });
+  });
 });
@@ -3,6 +3,12 @@
  */
 
 import { describe, test, expect } from "bun:test";
+import {
+  formatOpenAIStream as formatToolStream,
+  formatOpenAIComplete,
+} from "../../formatters/openai_formatter";
+import { collectToolCalls } from "../../formatters/tool_calls";
+import type { ChatStreamEvent } from "../../defaults/types";
 
 // Inline implementations for testing without importing the actual module
 // This avoids dependency issues during testing
@@ -147,4 +153,170 @@ describe("OpenAI Formatter", () => {
       expect(() => JSON.parse(dataContent)).not.toThrow();
     });
   });
+
+  describe("tool calls", () => {
+    async function* toolStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "tool_call", index: 0, id: "call_1", name: "read_file", arguments: "" };
+      yield { type: "tool_call", index: 0, arguments: '{"path":' };
+      yield { type: "tool_call", index: 0, arguments: '"a.ts"}' };
+    }
+
+    test("should stream tool_calls deltas and finish with tool_calls", async () => {
+      const events: any[] = [];
+      for await (const chunk of formatToolStream(toolStream(), "aicarousel")) {
+        if (chunk !== "data: [DONE]\n\n") {
+          events.push(JSON.parse(chunk.replace("data: ", "").trim()));
+        }
+      }
+
+      const first = events[0].choices[0].delta;
+      expect(first.role).toBe("assistant");
+      expect(first.tool_calls[0]).toEqual({
+        index: 0,
+        id: "call_1",
+        type: "function",
+        function: { name: "read_file", arguments: "" },
+      });
+      expect(events[1].choices[0].delta.tool_calls[0]).toEqual({
+        index: 0,
+        function: { arguments: '{"path":' },
+      });
+      expect(events[events.length - 1].choices[0].finish_reason).toBe("tool_calls");
+    });
+
+    test("should assemble tool calls in non-streaming response", async () => {
+      const completion = await formatOpenAIComplete(toolStream(), "aicarousel");
+      const choice = completion.choices[0]!;
+
+      expect(choice.finish_reason).toBe("tool_calls");
+      expect(choice.message.content).toBeNull();
+      expect(choice.message.tool_calls).toEqual([
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "read_file", arguments: '{"path":"a.ts"}' },
+        },
+      ]);
+    });
+
+    test("should keep parallel tool calls ordered by index", () => {
+      const calls = collectToolCalls([
+        { type: "tool_call", index: 1, id: "call_b", name: "b", arguments: "{}" },
+        { type: "tool_call", index: 0, id: "call_a", name: "a", arguments: "{}" },
+      ]);
+
+      expect(calls.map((c) => c.id)).toEqual(["call_a", "call_b"]);
+    });
+  });
+
+  describe("usage", () => {
+    async function* reportedStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Hello world" };
+      yield { type: "usage", inputTokens: 120, outputTokens: 7 };
+    }
+
+    test("should prefer provider-reported usage", async () => {
+      const completion = await formatOpenAIComplete(reportedStream(), "aicarousel", { inputTokens: 100 });
+
+      expect(completion.choices[0]!.message.content).toBe("Hello world");
+      expect(completion.usage).toEqual({ prompt_tokens: 120, completion_tokens: 7, total_tokens: 127 });
+    });
+
+    test("should fall back to the estimate", async () => {
+      async function* textStream(): AsyncIterable<ChatStreamEvent> {
+        yield { type: "text", text: "Hello world" };
+      }
+
+      const completion = await formatOpenAIComplete(textStream(), "aicarousel", { inputTokens: 100 });
+
+      expect(completion.usage.prompt_tokens).toBe(100);
+      expect(completion.usage.completion_tokens).toBe(2);
+      expect(completion.usage.total_tokens).toBe(102);
+    });
+
+    test("should not stream usage chunks as content", async () => {
+      const chunks: string[] = [];
+      for await (const chunk of formatToolStream(reportedStream(), "aicarousel")) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(3);
+    });
+  });
+
+  describe("finish reasons and include_usage", () => {
+    async function* lengthStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Hello" };
+      yield { type: "finish", reason: "length" };
+      yield { type: "usage", inputTokens: 10, outputTokens: 1 };
+    }
+
+    async function collectEvents(stream: AsyncIterable<string>): Promise<string[]> {
+      const chunks: string[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    test("should report length when the model hit max_tokens", async () => {
+      const chunks = await collectEvents(formatToolStream(lengthStream(), "aicarousel"));
+      const final = JSON.parse(chunks[chunks.length - 2]!.replace("data: ", "").trim());
+
+      expect(final.choices[0].finish_reason).toBe("length");
+      expect((await formatOpenAIComplete(lengthStream())).choices[0]!.finish_reason).toBe("length");
+    });
+
+    test("should send a usage chunk before [DONE] when include_usage is set", async () => {
+      const chunks = await collectEvents(formatToolStream(lengthStream(), "aicarousel", {}, true));
+      const usageChunk = JSON.parse(chunks[chunks.length - 2]!.replace("data: ", "").trim());
+
+      expect(usageChunk.choices).toEqual([]);
+      expect(usageChunk.usage).toEqual({ prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 });
+      expect(chunks[chunks.length - 1]).toBe("data: [DONE]\n\n");
+    });
+
+    test("should not send usage by default", async () => {
+      const chunks = await collectEvents(formatToolStream(lengthStream(), "aicarousel"));
+
+      expect(chunks.some((chunk) => chunk.includes('"usage"'))).toBe(false);
+    });
+
+    test("should end with an in-band error on an error event", async () => {
+      async function* failed(): AsyncIterable<ChatStreamEvent> {
+        yield { type: "text", text: "Partial" };
+        yield { type: "error", message: "No provider could continue" };
+      }
+
+      const chunks = await collectEvents(formatToolStream(failed(), "aicarousel"));
+
+      expect(chunks).toHaveLength(2);
+      expect(JSON.parse(chunks[1]!.replace("data: ", "").trim()).error.code).toBe("stream_interrupted");
+      await expect(formatOpenAIComplete(failed())).rejects.toThrow("No provider could continue");
+    });
+  });
+
+  describe("stream errors", () => {
+    async function* interruptedStream(): AsyncIterable<ChatStreamEvent> {
+      yield { type: "text", text: "Partial" };
+      throw new Error("Provider connection reset");
+    }
+
+    test("should end with an in-band error event instead of [DONE]", async () => {
+      const chunks: string[] = [];
+      for await (const chunk of formatToolStream(interruptedStream(), "aicarousel")) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks).not.toContain("data: [DONE]\n\n");
+      const error = JSON.parse(chunks[1]!.replace("data: ", "").trim());
+      expect(error.error).toEqual({
+        message: "Provider connection reset",
+        type: "server_error",
+        param: null,
+        code: "stream_interrupted",
+      });
+    });
+  });
 });
@@ -0,0 +1,144 @@
+/**
+ * Tests for formatters/responses_formatter.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { formatResponsesStream, formatResponsesComplete } from "../../formatters/responses_formatter";
+import type { ChatStreamEvent } from "../../defaults/types";
+import { textEvent } from "../utils/mocks";
+
+async function* events(...items: ChatStreamEvent[]): AsyncIterable<ChatStreamEvent> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+async function collectEvents(stream: AsyncIterable<string>): Promise<{ event: string; data: any }[]> {
+  const result: { event: string; data: any }[] = [];
+  for await (const chunk of stream) {
+    const [eventLine, dataLine] = chunk.trim().split("\n");
+    result.push({ event: eventLine!.slice("event: ".length), data: JSON.parse(dataLine!.slice("data: ".length)) });
+  }
+  return result;
+}
+
+describe("responses_formatter", () => {
+  describe("formatResponsesStream", () => {
+    test("should emit the text event sequence", async () => {
+      const result = await collectEvents(
+        formatResponsesStream(events(textEvent("Hello"), textEvent(" world")), "aicarousel")
+      );
+
+      expect(result.map((e) => e.event)).toEqual([
+        "response.created",
+        "response.in_progress",
+        "response.output_item.added",
+        "response.content_part.added",
+        "response.output_text.delta",
+        "response.output_text.delta",
+        "response.output_text.done",
+        "response.content_part.done",
+        "response.output_item.done",
+        "response.completed",
+      ]);
+      expect(result.map((e) => e.data.sequence_number)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(result[6]!.data.text).toBe("Hello world");
+
+      const completed = result[9]!.data.response;
+      expect(completed.status).toBe("completed");
+      expect(completed.output[0].content[0].text).toBe("Hello world");
+    });
+
+    test("should stream tool calls as function_call items", async () => {
+      const result = await collectEvents(
+        formatResponsesStream(
+          events(
+            textEvent("Checking"),
+            { type: "tool_call", index: 0, id: "call_1", name: "get_weather", arguments: '{"city":' },
+            { type: "tool_call", index: 0, arguments: '"Paris"}' },
+            { type: "finish", reason: "tool_calls" }
+          )
+        )
+      );
+
+      const added = result.filter((e) => e.event === "response.output_item.added");
+      expect(added.map((e) => e.data.item.type)).toEqual(["message", "function_call"]);
+      expect(added[1]!.data.output_index).toBe(1);
+
+      const argsDone = result.find((e) => e.event === "response.function_call_arguments.done")!;
+      expect(argsDone.data.arguments).toBe('{"city":"Paris"}');
+
+      const completed = result[result.length - 1]!;
+      expect(completed.event).toBe("response.completed");
+      expect(completed.data.response.output[1]).toMatchObject({
+        type: "function_call",
+        call_id: "call_1",
+        name: "get_weather",
+        arguments: '{"city":"Paris"}',
+      });
+    });
+
+    test("should prefer reported usage", async () => {
+      const result = await collectEvents(
+        formatResponsesStream(
+          events(textEvent("Hi"), { type: "usage", inputTokens: 11, outputTokens: 2 }),
+          "aicarousel",
+          { inputTokens: 50 }
+        )
+      );
+
+      const usage = result[result.length - 1]!.data.response.usage;
+      expect(usage.input_tokens).toBe(11);
+      expect(usage.output_tokens).toBe(2);
+      expect(usage.total_tokens).toBe(13);
+    });
+
+    test("should end with response.incomplete when cut off", async () => {
+      const result = await collectEvents(
+        formatResponsesStream(events(textEvent("Long"), { type: "finish", reason: "length" }))
+      );
+
+      const last = result[result.length - 1]!;
+      expect(last.event).toBe("response.incomplete");
+      expect(last.data.response.incomplete_details).toEqual({ reason: "max_output_tokens" });
+    });
+
+    test("should end with response.failed on a stream error", async () => {
+      const result = await collectEvents(
+        formatResponsesStream(events(textEvent("Partial"), { type: "error", message: "Upstream died" }))
+      );
+
+      const last = result[result.length - 1]!;
+      expect(last.event).toBe("response.failed");
+      expect(last.data.response.status).toBe("failed");
+      expect(last.data.response.error.message).toBe("Upstream died");
+      expect(last.data.response.output[0].content[0].text).toBe("Partial");
+    });
+  });
+
+  describe("formatResponsesComplete", () => {
+    test("should return message and function_call output items", async () => {
+      const response = await formatResponsesComplete(
+        events(
+          textEvent("Let me check"),
+          { type: "tool_call", index: 0, id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' },
+          { type: "finish", reason: "tool_calls" }
+        ),
+        "aicarousel"
+      );
+
+      expect(response.object).toBe("response");
+      expect(response.status).toBe("completed");
+      expect(response.model).toBe("aicarousel");
+      expect(response.output).toHaveLength(2);
+      expect(response.output[0]).toMatchObject({ type: "message", role: "assistant" });
+      expect(response.output[1]).toMatchObject({ type: "function_call", call_id: "call_1", name: "get_weather" });
+    });
+
+    test("should throw on a stream error", async () => {
+      expect(
+        formatResponsesComplete(events(textEvent("Partial"), { type: "error", message: "Upstream died" }))
+      ).rejects.toThrow("Upstream died");
+    });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for routes/admin.ts
+ *
+ * Runs against an in-memory database and a temporary models.json
+ * (DB_PATH and MODELS_PATH), so the real ones are never touched.
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ModelsConfig } from "../../services/models_config";
+
+const ADMIN_KEY = "admin-secret";
+const tempDir = mkdtempSync(join(tmpdir(), "aicarousel-admin-"));
+const modelsPath = join(tempDir, "models.json");
+
+const MODELS: ModelsConfig = {
+  groq: { default: "llama-a", enableFallback: true, models: ["llama-a", "llama-b"] },
+  ollama: { default: "gemma3:1b", enableFallback: false, models: ["gemma3:1b", "library/qwen:7b"] },
+};
+
+// Loaded after DB_PATH and MODELS_PATH are set
+let handleAdmin: typeof import("../../routes/admin").handleAdmin;
+let authenticateAdmin: typeof import("../../auth/middleware").authenticateAdmin;
+let createApiKey: typeof import("../../db/api_keys").createApiKey;
+let clearConfigCache: () => void;
+
+const savedEnv = {
+  DB_PATH: process.env.DB_PATH,
+  MODELS_PATH: process.env.MODELS_PATH,
+  ADMIN_API_KEY: process.env.ADMIN_API_KEY,
+};
+
+function restoreEnv(name: keyof typeof savedEnv): void {
+  if (savedEnv[name] === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = savedEnv[name];
+  }
+}
+
+async function resetModels(): Promise<void> {
+  await Bun.write(modelsPath, JSON.stringify(MODELS));
+  clearConfigCache();
+}
+
+function adminRequest(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost:7123/admin/${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+async function admin(method: string, path: string, body?: unknown): Promise<{ status: number; data: any }> {
+  const req = adminRequest(method, path, body);
+  const response = await handleAdmin(req, new URL(req.url).pathname);
+  return { status: response.status, data: await response.json() };
+}
+
+beforeAll(async () => {
+  process.env.DB_PATH = ":memory:";
+  process.env.MODELS_PATH = modelsPath;
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+  // Refuse to run against a database another test file already opened
+  const { DB_PATH } = await import("../../db/index");
+  if (DB_PATH !== ":memory:") {
+    throw new Error(`Admin route tests need an in-memory database, got ${DB_PATH}`);
+  }
+
+  const { migrate } = await import("../../db/migrate");
+  const { syncProviders } = await import("../../db/provider_settings");
+  const { getProviderKeys } = await import("../../defaults/providers");
+  ({ clearConfigCache } = await import("../../services/models_config"));
+  ({ createApiKey } = await import("../../db/api_keys"));
+  ({ authenticateAdmin } = await import("../../auth/middleware"));
+  ({ handleAdmin } = await import("../../routes/admin"));
+
+  await migrate();
+  syncProviders(getProviderKeys());
+});
+
+beforeEach(async () => {
+  await resetModels();
+});
+
+afterAll(() => {
+  restoreEnv("DB_PATH");
+  restoreEnv("MODELS_PATH");
+  restoreEnv("ADMIN_API_KEY");
+  clearConfigCache();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("admin routes", () => {
+  describe("authentication", () => {
+    test("should accept ADMIN_API_KEY and keys with the admin scope only", async () => {
+      const missing = await authenticateAdmin(adminRequest("GET", "status"));
+      expect(missing.authenticated).toBe(false);
+      expect(missing.status).toBeUndefined(); // 401
+
+      const wrong = await authenticateAdmin(adminRequest("GET", "status", undefined, { Authorization: "Bearer nope" }));
+      expect(wrong.authenticated).toBe(false);
+
+      const adminKey = await authenticateAdmin(adminRequest("GET", "status", undefined, { "x-api-key": ADMIN_KEY }));
+      expect(adminKey.authenticated).toBe(true);
+
+      const { key: clientKey } = await createApiKey("client");
+      const client = await authenticateAdmin(
+        adminRequest("GET", "status", undefined, { Authorization: `Bearer ${clientKey}` })
+      );
+      expect(client).toMatchObject({ authenticated: false, status: 403 });
+
+      const { key: scopedKey } = await createApiKey("ops", { scopes: ["admin"] });
+      const scoped = await authenticateAdmin(
+        adminRequest("GET", "status", undefined, { Authorization: `Bearer ${scopedKey}` })
+      );
+      expect(scoped.authenticated).toBe(true);
+    });
+  });
+
+  describe("routing and errors", () => {
+    test("should report status", async () => {
+      const { status, data } = await admin("GET", "status");
+      expect(status).toBe(200);
+      expect(data).toMatchObject({ status: "ok", providers: { total: 5 } });
+      expect(data.uptimeSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    test("should return 404 for unknown routes and methods", async () => {
+      expect((await admin("GET", "nope")).status).toBe(404);
+      expect((await admin("DELETE", "providers")).status).toBe(404);
+      expect((await admin("GET", "keys/1/rotate")).status).toBe(404);
+    });
+
+    test("should return 400 for bodies that are not JSON objects", async () => {
+      const invalid = await admin("PATCH", "providers/groq", "{not json");
+      expect(invalid).toMatchObject({ status: 400, data: { error: { message: "Request body must be JSON" } } });
+
+      expect((await admin("PATCH", "providers/groq", [1, 2])).status).toBe(400);
+    });
+
+    test("should return 400 for malformed percent-encoding", async () => {
+      const { status, data } = await admin("DELETE", "providers/ollama/models/%E0%A4%A");
+      expect(status).toBe(400);
+      expect(data.error.type).toBe("invalid_request_error");
+    });
+  });
+
+  describe("providers", () => {
+    test("should toggle providers and change weights", async () => {
+      const { status, data } = await admin("PATCH", "providers/groq", { enabled: false, weight: 3 });
+      expect(status).toBe(200);
+      expect(data).toMatchObject({ key: "groq", enabled: false, weight: 3 });
+
+      await admin("PATCH", "providers/groq", { enabled: true, weight: 1 });
+    });
+
+    test("should reject invalid fields without applying any", async () => {
+      for (const weight of ["3", -1, 1.5, null]) {
+        const { status, data } = await admin("PATCH", "providers/groq", { enabled: false, weight });
+        expect(status).toBe(400);
+        expect(data.error.message).toContain("weight");
+      }
+      expect((await admin("PATCH", "providers/groq", { enabled: "no" })).status).toBe(400);
+
+      const { data } = await admin("GET", "providers");
+      expect(data.providers.find((p: any) => p.key === "groq").enabled).toBe(true);
+    });
+
+    test("should return 404 for unknown providers", async () => {
+      expect((await admin("PATCH", "providers/grok", { enabled: false })).status).toBe(404);
+    });
+
+    test("should reorder providers only with every provider listed once", async () => {
+      const { data } = await admin("GET", "providers");
+      const keys: string[] = data.providers.map((p: any) => p.key);
+
+      expect((await admin("PUT", "providers/order", { order: keys.slice(1) })).status).toBe(400);
+      expect((await admin("PUT", "providers/order", { order: [...keys.slice(1), keys[1]] })).status).toBe(400);
+      expect((await admin("PUT", "providers/order", { order: [...keys.slice(1), "grok"] })).status).toBe(404);
+      expect((await admin("PUT", "providers/order", { order: "groq" })).status).toBe(400);
+
+      const reversed = [...keys].reverse();
+      const reordered = await admin("PUT", "providers/order", { order: reversed });
+      expect(reordered.status).toBe(200);
+      expect(reordered.data.providers.map((p: any) => p.key)).toEqual(reversed);
+
+      await admin("PUT", "providers/order", { order: keys });
+    });
+  });
+
+  describe("models", () => {
+    test("should list, add and remove models", async () => {
+      expect((await admin("GET", "providers/groq/models")).data).toEqual(MODELS.groq!);
+
+      const added = await admin("POST", "providers/groq/models", { model: "llama-c" });
+      expect(added.status).toBe(201);
+      expect(added.data.models).toEqual(["llama-a", "llama-b", "llama-c"]);
+
+      const removed = await admin("DELETE", `providers/ollama/models/${encodeURIComponent("library/qwen:7b")}`);
+      expect(removed.status).toBe(200);
+      expect(removed.data.models).toEqual(["gemma3:1b"]);
+    });
+
+    test("should create the models.json entry of a provider without one", async () => {
+      const { status, data } = await admin("POST", "providers/gemini/models", { model: "gemini-x" });
+      expect(status).toBe(201);
+      expect(data).toEqual({ default: "gemini-x", enableFallback: true, models: ["gemini-x"] });
+    });
+
+    test("should set the default, order and fallback", async () => {
+      const { status, data } = await admin("PATCH", "providers/groq/models", {
+        order: ["llama-b", "llama-a"],
+        default: "llama-b",
+        enableFallback: false,
+      });
+      expect(status).toBe(200);
+      expect(data).toEqual({ default: "llama-b", enableFallback: false, models: ["llama-b", "llama-a"] });
+    });
+
+    test("should reject invalid model changes", async () => {
+      expect((await admin("POST", "providers/groq/models", { model: "llama-a" })).status).toBe(400);
+      expect((await admin("POST", "providers/groq/models", {})).status).toBe(400);
+      expect((await admin("PATCH", "providers/groq/models", { default: 3 })).status).toBe(400);
+      expect((await admin("PATCH", "providers/groq/models", { enableFallback: "yes" })).status).toBe(400);
+      expect((await admin("GET", "providers/grok/models")).status).toBe(404);
+      expect((await admin("POST", "providers/grok/models", { model: "x" })).status).toBe(404);
+      expect((await admin("DELETE", "providers/groq/models/missing")).status).toBe(404);
+    });
+  });
+
+  describe("keys", () => {
+    test("should create keys and return the plain key once", async () => {
+      const { status, data } = await admin("POST", "keys", {
+        name: "ci",
+        expires: "30d",
+        scopes: ["chat"],
+        providers: ["groq", "ollama/library/qwen:7b"],
+      });
+
+      expect(status).toBe(201);
+      expect(data.key).toStartWith("sk-");
+      expect(data.record).toMatchObject({ name: "ci", scopes: "chat", allowed_models: "groq,ollama/library/qwen:7b", is_active: 1 });
+      expect(data.record.key_hash).toBeUndefined();
+
+      const { data: listed } = await admin("GET", "keys");
+      const key = listed.keys.find((k: any) => k.id === data.record.id);
+      expect(key).toMatchObject({ name: "ci", active_streams: 0 });
+      expect(key.key_hash).toBeUndefined();
+    });
+
+    test("should reject invalid keys", async () => {
+      expect((await admin("POST", "keys", { scopes: ["root"] })).status).toBe(400);
+      expect((await admin("POST", "keys", { expires: "soon" })).status).toBe(400);
+      expect((await admin("POST", "keys", { providers: [] })).status).toBe(400);
+      expect((await admin("POST", "keys", { providers: ["groq/llama-z"] })).status).toBe(400);
+      expect((await admin("POST", "keys", { name: 3 })).status).toBe(400);
+    });
+
+    test("should revoke and delete keys", async () => {
+      const { data } = await admin("POST", "keys", { name: "temp" });
+      const id = data.record.id;
+
+      const revoked = await admin("POST", `keys/${id}/revoke`);
+      expect(revoked.status).toBe(200);
+      expect(revoked.data).toMatchObject({ id, is_active: 0 });
+
+      expect(await admin("DELETE", `keys/${id}`)).toEqual({ status: 200, data: { deleted: true, id } });
+      expect((await admin("DELETE", `keys/${id}`)).status).toBe(404);
+      expect((await admin("POST", `keys/${id}/revoke`)).status).toBe(404);
+      expect((await admin("DELETE", "keys/abc")).status).toBe(400);
+    });
+  });
+
+  describe("requests", () => {
+    test("should list the audit log and validate filters", async () => {
+      const { status, data } = await admin("GET", "requests?limit=5");
+      expect(status).toBe(200);
+      expect(data.requests).toEqual([]);
+
+      expect((await admin("GET", "requests?status=done")).status).toBe(400);
+      expect((await admin("GET", "requests?limit=-1")).status).toBe(400);
+    });
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { describe, test, expect } from "bun:test";
+import { convertMessages } from "../../routes/anthropic";
 
 // Types matching the Anthropic API
 interface AnthropicMessage {
@@ -260,4 +261,113 @@ describe("Anthropic Routes", () => {
       expect(estimatedTokens).toBe(3); // 10/4 rounded up
     });
   });
+
+  describe("Tool Conversion", () => {
+    test("should convert tool_use blocks to assistant tool calls", () => {
+      const result = convertMessages({
+        model: "aicarousel",
+        max_tokens: 1000,
+        messages: [
+          { role: "user", content: "Read a.ts" },
+          {
+            role: "assistant",
+            content: [
+              { type: "text", text: "Reading." },
+              { type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "a.ts" } },
+            ],
+          },
+        ],
+      });
+
+      expect(result[1]).toEqual({
+        role: "assistant",
+        content: "Reading.",
+        tool_calls: [
+          {
+            id: "toolu_1",
+            type: "function",
+            function: { name: "Read", arguments: '{"file_path":"a.ts"}' },
+          },
+        ],
+      });
+    });
+
+    test("should convert tool_result blocks to tool messages before user text", () => {
+      const result = convertMessages({
+        model: "aicarousel",
+        max_tokens: 1000,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "export {}" }] },
+              { type: "tool_result", tool_use_id: "toolu_2", content: "not found", is_error: true },
+              { type: "text", text: "Now fix it" },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual([
+        { role: "tool", tool_call_id: "toolu_1", content: "export {}" },
+        { role: "tool", tool_call_id: "toolu_2", content: "Error: not found" },
+        { role: "user", content: "Now fix it" },
+      ]);
+    });
+
+    test("should convert image blocks to image parts", () => {
+      const result = convertMessages({
+        model: "aicarousel",
+        max_tokens: 1000,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+              { type: "image", source: { type: "url", url: "https://example.com/a.jpg" } },
+              { type: "text", text: "What changed?" },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual([
+        {
+          role: "user",
+          content: [
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+            { type: "image_url", image_url: { url: "https://example.com/a.jpg" } },
+            { type: "text", text: "What changed?" },
+          ],
+        },
+      ]);
+    });
+
+    test("should move tool_result images to the user message", () => {
+      const result = convertMessages({
+        model: "aicarousel",
+        max_tokens: 1000,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "tool_result",
+                tool_use_id: "toolu_1",
+                content: [
+                  { type: "text", text: "Screenshot taken" },
+                  { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual([
+        { role: "tool", tool_call_id: "toolu_1", content: "Screenshot taken" },
+        { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }] },
+      ]);
+    });
+  });
 });
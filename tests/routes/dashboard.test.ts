@@ -0,0 +1,48 @@
+/**
+ * Tests for routes/dashboard.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { handleDashboard, isDashboardPath } from "../../routes/dashboard";
+
+describe("dashboard routes", () => {
+  test("should match only dashboard paths", () => {
+    expect(isDashboardPath("/dashboard")).toBe(true);
+    expect(isDashboardPath("/dashboard/app.js")).toBe(true);
+    expect(isDashboardPath("/dashboards")).toBe(false);
+    expect(isDashboardPath("/admin/status")).toBe(false);
+  });
+
+  test("should redirect /dashboard so relative asset URLs resolve", async () => {
+    const response = await handleDashboard("/dashboard");
+    expect(response.status).toBe(301);
+    expect(response.headers.get("location")).toBe("/dashboard/");
+  });
+
+  test("should serve the page and its assets with a same-origin CSP", async () => {
+    const page = await handleDashboard("/dashboard/");
+    expect(page.status).toBe(200);
+    expect(page.headers.get("content-type")).toContain("text/html");
+    expect(page.headers.get("content-security-policy")).toContain("script-src 'self'");
+
+    const script = await handleDashboard("/dashboard/app.js");
+    expect(script.headers.get("content-type")).toContain("text/javascript");
+
+    const style = await handleDashboard("/dashboard/style.css");
+    expect(style.headers.get("content-type")).toContain("text/css");
+  });
+
+  test("should not load anything from other origins", async () => {
+    for (const file of ["", "app.js", "style.css"]) {
+      const body = await (await handleDashboard(`/dashboard/${file}`)).text();
+      expect(body).not.toMatch(/(src|href)=["']?(https?:)?\/\//);
+      expect(body).not.toMatch(/@import|url\(\s*["']?(https?:)?\/\//);
+    }
+  });
+
+  test("should only serve the dashboard's own files", async () => {
+    for (const path of ["/dashboard/../index.ts", "/dashboard/%2e%2e/index.ts", "/dashboard/missing.js"]) {
+      expect((await handleDashboard(path)).status).toBe(404);
+    }
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for routes/responses.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { convertInput, convertToolOptions } from "../../routes/responses";
+
+describe("Responses Route", () => {
+  describe("convertInput", () => {
+    test("should convert string input with instructions", () => {
+      const result = convertInput({ input: "Hello", instructions: "Be brief" });
+
+      expect(result).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hello" },
+      ]);
+    });
+
+    test("should convert message items and content parts", () => {
+      const result = convertInput({
+        input: [
+          { role: "developer", content: "Use tabs" },
+          { type: "message", role: "user", content: [{ type: "input_text", text: "Fix the bug" }] },
+        ],
+      });
+
+      expect(result).toEqual([
+        { role: "system", content: "Use tabs" },
+        { role: "user", content: "Fix the bug" },
+      ]);
+    });
+
+    test("should merge function calls into one assistant turn", () => {
+      const result = convertInput({
+        input: [
+          { role: "user", content: "Read both files" },
+          { type: "function_call", call_id: "call_1", name: "read", arguments: '{"path":"a"}' },
+          { type: "function_call", call_id: "call_2", name: "read", arguments: '{"path":"b"}' },
+          { type: "function_call_output", call_id: "call_1", output: "A" },
+          { type: "function_call_output", call_id: "call_2", output: "B" },
+        ],
+      });
+
+      expect(result).toHaveLength(4);
+      expect(result[1]!.role).toBe("assistant");
+      expect(result[1]!.tool_calls?.map((call) => call.id)).toEqual(["call_1", "call_2"]);
+      expect(result[2]).toEqual({ role: "tool", content: "A", tool_call_id: "call_1" });
+      expect(result[3]).toEqual({ role: "tool", content: "B", tool_call_id: "call_2" });
+    });
+
+    test("should skip reasoning items", () => {
+      const result = convertInput({
+        input: [
+          { type: "reasoning", summary: [] },
+          { role: "user", content: "Hi" },
+        ],
+      });
+
+      expect(result).toEqual([{ role: "user", content: "Hi" }]);
+    });
+  });
+
+  describe("convertToolOptions", () => {
+    test("should keep only function tools", () => {
+      const result = convertToolOptions({
+        input: "Hi",
+        tools: [
+          { type: "function", name: "shell", description: "Run a command", parameters: { type: "object" } },
+          { type: "web_search" },
+        ],
+        tool_choice: "auto",
+      });
+
+      expect(result.tools).toEqual([
+        {
+          type: "function",
+          function: { name: "shell", description: "Run a command", parameters: { type: "object" } },
+        },
+      ]);
+      expect(result.tool_choice).toBe("auto");
+    });
+
+    test("should convert a named tool_choice", () => {
+      const result = convertToolOptions({
+        input: "Hi",
+        tools: [{ type: "function", name: "shell" }],
+        tool_choice: { type: "function", name: "shell" },
+      });
+
+      expect(result.tool_choice).toEqual({ type: "function", function: { name: "shell" } });
+    });
+
+    test("should return no options without function tools", () => {
+      expect(convertToolOptions({ input: "Hi", tools: [{ type: "web_search" }] })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Tests for routes/stream_response.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { releaseWhenDone } from "../../routes/stream_response";
+
+describe("releaseWhenDone", () => {
+  test("should release once the body has been read", async () => {
+    let released = 0;
+    const response = releaseWhenDone(Response.json({ ok: true }, { status: 201 }), () => released++);
+
+    expect(response.status).toBe(201);
+    expect(released).toBe(0);
+    expect(await response.json()).toEqual({ ok: true });
+    expect(released).toBe(1);
+  });
+
+  test("should release when the client cancels the body", async () => {
+    let released = 0;
+    const source = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode("data: x\n\n"));
+      },
+    });
+    const response = releaseWhenDone(new Response(source), () => released++);
+
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    expect(released).toBe(1);
+  });
+
+  test("should release right away for responses without a body", () => {
+    let released = 0;
+    releaseWhenDone(new Response(null, { status: 204 }), () => released++);
+    expect(released).toBe(1);
+  });
+});
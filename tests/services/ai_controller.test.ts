@@ -8,8 +8,10 @@ import {
   collectStream,
   createActiveProvider,
   sampleActiveProviders,
+  textEvent,
 } from "../utils/mocks";
-import type { ActiveProvider, AIServiceWithModel } from "../../defaults/types";
+import { StandardAIController } from "../../services/ai_controller";
+import type { ActiveProvider, AIServiceWithModel, ChatStreamEvent } from "../../defaults/types";
 
 describe("ai_controller", () => {
   describe("StandardAIController", () => {
@@ -20,7 +22,7 @@ describe("ai_controller", () => {
         providerKey: "test",
         model: "test-model",
         async *chat(_messages) {
-          yield "test";
+          yield textEvent("test");
         },
       };
 
@@ -37,7 +39,7 @@ describe("ai_controller", () => {
         model: "model",
         async *chat(_messages) {
           for (const chunk of chunks) {
-            yield chunk;
+            yield textEvent(chunk);
           }
         },
       };
@@ -45,6 +47,71 @@ describe("ai_controller", () => {
       const result = await collectStream(controller.chat(sampleMessages));
       expect(result).toBe("Hello World");
     });
+
+    test("should convert provider chunks to typed events", async () => {
+      const providerChunks = [
+        { choices: [{ delta: { role: "assistant", content: "" } }] },
+        { choices: [{ delta: { content: "Hi" } }] },
+        { choices: [{ delta: {}, finish_reason: "length" }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 1 } },
+      ];
+      const client = {
+        chat: {
+          completions: {
+            create: async () =>
+              (async function* () {
+                yield* providerChunks;
+              })(),
+          },
+        },
+      };
+      const controller = new StandardAIController("Test", "test", client, { model: "test-model", stream: true });
+
+      const chunks: ChatStreamEvent[] = [];
+      for await (const chunk of controller.chat(sampleMessages)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([
+        { type: "text", text: "Hi" },
+        { type: "finish", reason: "length" },
+        { type: "usage", inputTokens: 12, outputTokens: 1 },
+      ]);
+    });
+
+    test("should read Groq usage and the matched stop sequence", async () => {
+      const providerChunks = [
+        {
+          choices: [{ delta: {}, finish_reason: "stop", stop_reason: "END" }],
+          x_groq: { usage: { prompt_tokens: 13, completion_tokens: 2 } },
+        },
+      ];
+      const client = {
+        chat: {
+          completions: {
+            create: async () =>
+              (async function* () {
+                yield* providerChunks;
+              })(),
+          },
+        },
+      };
+      const controller = new StandardAIController("Test", "test", client, {
+        model: "test-model",
+        stream: true,
+        stop: ["END"],
+      });
+
+      const chunks: ChatStreamEvent[] = [];
+      for await (const chunk of controller.chat(sampleMessages)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([
+        { type: "usage", inputTokens: 13, outputTokens: 2 },
+        { type: "finish", reason: "stop_sequence", stopSequence: "END" },
+      ]);
+    });
   });
 
   describe("ActiveProvider", () => {
@@ -128,7 +195,7 @@ describe("ai_controller", () => {
         providerKey,
         model,
         async *chat(_messages) {
-          yield "response";
+          yield textEvent("response");
         },
       };
 
@@ -142,7 +209,7 @@ describe("ai_controller", () => {
         providerKey: "sameProvider",
         model,
         async *chat() {
-          yield `response from ${model}`;
+          yield textEvent(`response from ${model}`);
         },
       });
 
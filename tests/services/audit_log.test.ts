@@ -0,0 +1,151 @@
+/**
+ * Tests for services/audit_log.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { RequestAudit, getRetentionDays, startRequestAudit } from "../../services/audit_log";
+import { RequestCancelledError } from "../../services/cancellation";
+import type { NewRequestLog } from "../../db/requests";
+import type { ChatMessage, ChatStreamEvent } from "../../defaults/types";
+import { createMockServiceWithModel, textEvent } from "../utils/mocks";
+
+const messages: ChatMessage[] = [{ role: "user", content: "Hi" }];
+const groq = createMockServiceWithModel("Groq", "groq", "llama");
+const cerebras = createMockServiceWithModel("Cerebras", "cerebras", "qwen");
+
+async function* events(...list: ChatStreamEvent[]): AsyncIterable<ChatStreamEvent> {
+  yield* list;
+}
+
+async function drain(stream: AsyncIterable<ChatStreamEvent>): Promise<void> {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+describe("audit_log", () => {
+  let written: NewRequestLog[];
+  let originalEnv: NodeJS.ProcessEnv;
+
+  function createAudit(): RequestAudit {
+    return new RequestAudit(
+      { route: "/v1/chat/completions", apiKeyId: 7 },
+      messages,
+      { model: "aicarousel", temperature: 0.5 },
+      "round-robin",
+      (entry) => written.push(entry)
+    );
+  }
+
+  beforeEach(() => {
+    written = [];
+    originalEnv = { ...process.env };
+    delete process.env.AUDIT_LOG;
+    delete process.env.AUDIT_LOG_BODIES;
+    delete process.env.AUDIT_LOG_RETENTION_DAYS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should log the attempt chain, the serving model and usage", async () => {
+    const audit = createAudit();
+    audit.recordAttempt({ ...groq, keyName: "GROQ_API_KEY" }, 120, new Error("429 Too Many Requests"));
+    audit.recordAttempt(cerebras, 80);
+
+    await drain(audit.track(events(textEvent("Hello"), { type: "usage", inputTokens: 12, outputTokens: 3 })));
+
+    expect(written).toHaveLength(1);
+    const entry = written[0]!;
+    expect(entry).toMatchObject({
+      api_key_id: 7,
+      route: "/v1/chat/completions",
+      requested_model: "aicarousel",
+      strategy: "round-robin",
+      provider_key: "cerebras",
+      model: "qwen",
+      status: "success",
+      error: null,
+      input_tokens: 12,
+      output_tokens: 3,
+      request_body: null,
+      response_body: null,
+    });
+    expect(entry.attempts).toEqual([
+      { provider_key: "groq", model: "llama", key_name: "GROQ_API_KEY", latency_ms: 120, error: "429 Too Many Requests" },
+      { provider_key: "cerebras", model: "qwen", key_name: null, latency_ms: 80, error: null },
+    ]);
+    expect(entry.ttft_ms).not.toBeNull();
+  });
+
+  test("should log a stream ending in an error event as an error", async () => {
+    const audit = createAudit();
+    audit.recordAttempt(groq, 50);
+
+    await drain(audit.track(events(textEvent("Hel"), { type: "error", message: "Stream interrupted" })));
+
+    expect(written[0]).toMatchObject({ status: "error", error: "Stream interrupted" });
+  });
+
+  test("should log a stream the client stops reading as cancelled", async () => {
+    const audit = createAudit();
+    audit.recordAttempt(groq, 50);
+
+    for await (const _ of audit.track(events(textEvent("a"), textEvent("b")))) {
+      break;
+    }
+
+    expect(written[0]).toMatchObject({ status: "cancelled" });
+  });
+
+  test("should log routing failures once", () => {
+    const audit = createAudit();
+    audit.fail(new Error("All AI services failed"));
+    audit.fail(new Error("again"));
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({ status: "error", error: "All AI services failed", provider_key: null });
+
+    const cancelled = createAudit();
+    cancelled.fail(new RequestCancelledError());
+    expect(written[1]).toMatchObject({ status: "cancelled" });
+  });
+
+  test("should store bodies only with AUDIT_LOG_BODIES=true", async () => {
+    process.env.AUDIT_LOG_BODIES = "true";
+    const audit = createAudit();
+    audit.recordAttempt(groq, 50);
+
+    await drain(audit.track(events(
+      textEvent("Let me check"),
+      { type: "tool_call", index: 0, id: "call_1", name: "get_weather", arguments: '{"city":' },
+      { type: "tool_call", index: 0, arguments: '"Lima"}' }
+    )));
+
+    const entry = written[0]!;
+    expect(JSON.parse(entry.request_body!)).toEqual({ model: "aicarousel", temperature: 0.5, messages });
+    expect(JSON.parse(entry.response_body!)).toEqual({
+      text: "Let me check",
+      tool_calls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"Lima"}' }],
+    });
+  });
+
+  test("should only audit requests with an origin while the log is on", () => {
+    expect(startRequestAudit(messages, {}, "priority")).toBeNull();
+    expect(startRequestAudit(messages, { origin: { route: "/chat" } }, "priority")).not.toBeNull();
+
+    process.env.AUDIT_LOG = "off";
+    expect(startRequestAudit(messages, { origin: { route: "/chat" } }, "priority")).toBeNull();
+  });
+
+  test("should read the retention days, defaulting to 30", () => {
+    expect(getRetentionDays()).toBe(30);
+
+    process.env.AUDIT_LOG_RETENTION_DAYS = "0";
+    expect(getRetentionDays()).toBe(0);
+
+    process.env.AUDIT_LOG_RETENTION_DAYS = "soon";
+    expect(getRetentionDays()).toBe(30);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for services/cancellation.ts and client cancellation in the controller and stream response
+ */
+
+import { describe, test, expect } from "bun:test";
+import { RequestCancelledError, isCancellation, linkAbortSignal } from "../../services/cancellation";
+import { classifyProviderError } from "../../services/provider_errors";
+import { StandardAIController } from "../../services/ai_controller";
+import { createStreamResponse } from "../../routes/stream_response";
+import { sampleMessages } from "../utils/mocks";
+
+function chunk(content: string) {
+  return { choices: [{ delta: { content } }] };
+}
+
+function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+}
+
+describe("cancellation", () => {
+  describe("isCancellation", () => {
+    test("should detect RequestCancelledError and aborted signals", () => {
+      const controller = new AbortController();
+
+      expect(isCancellation(new RequestCancelledError())).toBe(true);
+      expect(isCancellation(new Error("boom"), controller.signal)).toBe(false);
+
+      controller.abort();
+      expect(isCancellation(new Error("boom"), controller.signal)).toBe(true);
+    });
+
+    test("should be classified apart from provider failures", () => {
+      expect(classifyProviderError(new RequestCancelledError()).category).toBe("cancelled");
+    });
+  });
+
+  describe("linkAbortSignal", () => {
+    test("should abort the controller when the signal aborts", () => {
+      const source = new AbortController();
+      const target = new AbortController();
+      linkAbortSignal(source.signal, target);
+
+      source.abort(new RequestCancelledError());
+
+      expect(target.signal.aborted).toBe(true);
+      expect(target.signal.reason).toBeInstanceOf(RequestCancelledError);
+    });
+
+    test("should abort immediately for an already aborted signal", () => {
+      const target = new AbortController();
+      linkAbortSignal(AbortSignal.abort(), target);
+
+      expect(target.signal.aborted).toBe(true);
+    });
+
+    test("should stop forwarding once unlinked", () => {
+      const source = new AbortController();
+      const target = new AbortController();
+      const unlink = linkAbortSignal(source.signal, target);
+
+      unlink();
+      source.abort();
+
+      expect(target.signal.aborted).toBe(false);
+    });
+  });
+
+  describe("StandardAIController", () => {
+    test("should abort the upstream call when the request signal aborts", async () => {
+      let upstream: AbortSignal | null = null;
+      const client = {
+        chat: {
+          completions: {
+            create: async (_params: any, options: { signal: AbortSignal }) => {
+              upstream = options.signal;
+              return (async function* () {
+                yield chunk("Hello");
+                await untilAborted(options.signal);
+              })();
+            },
+          },
+        },
+      };
+      const controller = new StandardAIController("Test", "test", client, { model: "test-model", stream: true });
+      const request = new AbortController();
+
+      const chunks: string[] = [];
+      const error = await (async () => {
+        for await (const c of controller.chat(sampleMessages, request.signal)) {
+          if (c.type === "text") chunks.push(c.text);
+          request.abort();
+        }
+      })().catch((e) => e);
+
+      expect(chunks).toEqual(["Hello"]);
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect(upstream!.aborted).toBe(true);
+    });
+  });
+
+  describe("createStreamResponse", () => {
+    test("should stream chunks and close at the end", async () => {
+      async function* chunks() {
+        yield "a";
+        yield "b";
+      }
+
+      const response = createStreamResponse(chunks(), () => {});
+
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(await response.text()).toBe("ab");
+    });
+
+    test("should call onCancel when the client disconnects", async () => {
+      let cancelled = false;
+      async function* chunks() {
+        yield "a";
+        yield "b";
+      }
+
+      const response = createStreamResponse(chunks(), () => {
+        cancelled = true;
+      });
+      const reader = response.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(cancelled).toBe(true);
+    });
+  });
+});
@@ -2,7 +2,10 @@
  * Tests for chat_handler.ts
  */
 
-import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { describe, test, expect, beforeEach, beforeAll, afterAll, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   sampleMessages,
   collectStream,
@@ -13,8 +16,49 @@ import {
   createFailingServiceWithModel,
   createActiveProvider,
   sampleActiveProviders,
+  textEvent,
 } from "../utils/mocks";
-import type { ActiveProvider, AIServiceWithModel } from "../../defaults/types";
+import type { ActiveProvider, AIServiceWithModel, ChatMessage, ChatStreamEvent, ToolDefinition } from "../../defaults/types";
+import { handleChat, resetProviderIndex } from "../../services/chat_handler";
+import { ModelNotFoundError } from "../../services/model_router";
+import { ImageFetchError } from "../../services/content";
+import { getCircuitState } from "../../services/health";
+import { clearConfigCache, type ModelsConfig } from "../../services/models_config";
+import { clearProvidersConfigCache, type ProvidersConfig } from "../../services/providers_config";
+
+// Two stub OpenAI-compatible providers, answered by a fake fetch
+const STUB_PROVIDERS: ProvidersConfig = {
+  alpha: { name: "Alpha", baseUrl: "http://alpha.test/v1", apiKeyName: "ALPHA_TEST_API_KEY" },
+  beta: { name: "Beta", baseUrl: "http://beta.test/v1", apiKeyName: "BETA_TEST_API_KEY" },
+};
+
+const STUB_MODELS: ModelsConfig = {
+  alpha: {
+    default: "a-text",
+    enableFallback: true,
+    models: [{ id: "a-text", supportsTools: false }, "a-tools"],
+  },
+  beta: {
+    default: "b-chat",
+    enableFallback: true,
+    models: ["b-chat", { id: "b-vision", supportsVision: true }],
+  },
+};
+
+const weatherTool: ToolDefinition = {
+  type: "function",
+  function: { name: "get_weather", parameters: { type: "object", properties: {} } },
+};
+
+const imageMessages: ChatMessage[] = [
+  {
+    role: "user",
+    content: [
+      { type: "text", text: "What is this?" },
+      { type: "image_url", image_url: { url: "https://example.com/cat.png" } },
+    ],
+  },
+];
 
 // We need to mock the services array before importing
 // Since the module uses a global services array, we test the logic in isolation
@@ -225,12 +269,12 @@ describe("chat_handler", () => {
       const service = createMockService("TestService", chunks);
       const stream = service.chat(sampleMessages);
 
-      const collected: string[] = [];
+      const collected: ChatStreamEvent[] = [];
       for await (const chunk of stream) {
         collected.push(chunk);
       }
 
-      expect(collected).toEqual(chunks);
+      expect(collected).toEqual(chunks.map(textEvent));
     });
   });
 
@@ -266,4 +310,146 @@ describe("chat_handler", () => {
       expect(ordered).toEqual(["model-a", "model-b", "model-c"]);
     });
   });
+
+  describe("handleChat routing", () => {
+    const tempDir = mkdtempSync(join(tmpdir(), "aicarousel-chat-"));
+    const savedEnv: Record<string, string | undefined> = {};
+    const originalFetch = globalThis.fetch;
+    // provider/model of every upstream call, in order
+    let calls: string[] = [];
+
+    const env: Record<string, string> = {
+      DB_PATH: ":memory:",
+      MODELS_PATH: join(tempDir, "models.json"),
+      PROVIDERS_PATH: join(tempDir, "providers.json"),
+      ALPHA_TEST_API_KEY: "alpha-key",
+      BETA_TEST_API_KEY: "beta-key",
+      // Ollama has no models until a test adds them; it downloads image URLs itself
+      OLLAMA_ENABLED: "1",
+      OLLAMA_BASE_URL: "http://ollama.test",
+    };
+
+    async function chat(messages: ChatMessage[], options: Parameters<typeof handleChat>[1] = {}) {
+      const result = await handleChat(messages, { routingStrategy: "priority", ...options });
+      expect(await collectStream(result.stream)).toBe("ok");
+      return `${result.providerKey}/${result.model}`;
+    }
+
+    beforeAll(async () => {
+      for (const [name, value] of Object.entries(env)) {
+        savedEnv[name] = process.env[name];
+        process.env[name] = value;
+      }
+      await Bun.write(env.MODELS_PATH!, JSON.stringify(STUB_MODELS));
+      await Bun.write(env.PROVIDERS_PATH!, JSON.stringify(STUB_PROVIDERS));
+      clearConfigCache();
+      clearProvidersConfigCache();
+
+      // Provider settings are read from the database: never open the real one
+      const { DB_PATH } = await import("../../db/index");
+      if (DB_PATH !== ":memory:") {
+        throw new Error(`handleChat tests need an in-memory database, got ${DB_PATH}`);
+      }
+
+      globalThis.fetch = (async (input: string, init?: RequestInit) => {
+        const { model } = JSON.parse(String(init?.body));
+        calls.push(`${new URL(String(input)).hostname.replace(".test", "")}/${model}`);
+        const body = 'data: {"choices":[{"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n';
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+      }) as typeof fetch;
+    });
+
+    beforeEach(() => {
+      calls = [];
+      resetProviderIndex();
+    });
+
+    afterAll(() => {
+      globalThis.fetch = originalFetch;
+      for (const [name, value] of Object.entries(savedEnv)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+      clearConfigCache();
+      clearProvidersConfigCache();
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test("should serve plain requests with the first provider's default model", async () => {
+      expect(await chat(sampleMessages)).toBe("alpha/a-text");
+      expect(calls).toEqual(["alpha/a-text"]);
+    });
+
+    test("should skip models without tool support when tools are sent", async () => {
+      expect(await chat(sampleMessages, { tools: [weatherTool] })).toBe("alpha/a-tools");
+      expect(calls).toEqual(["alpha/a-tools"]);
+
+      // Not skipped when the request turns tools off
+      expect(await chat(sampleMessages, { tools: [weatherTool], tool_choice: "none" })).toBe("alpha/a-text");
+    });
+
+    test("should move to the next provider when no allowed model supports tools", async () => {
+      const allowedModels = ["alpha/a-text", "beta"];
+      expect(await chat(sampleMessages, { tools: [weatherTool], allowedModels })).toBe("beta/b-chat");
+      expect(calls).toEqual(["beta/b-chat"]);
+    });
+
+    test("should only send images to models with vision support", async () => {
+      expect(await chat(imageMessages)).toBe("beta/b-vision");
+      expect(calls).toEqual(["beta/b-vision"]);
+
+      await expect(handleChat(imageMessages, { allowedModels: ["alpha", "beta/b-chat"] })).rejects.toThrow(
+        "No active provider supports image input for this request"
+      );
+      expect(calls).toEqual(["beta/b-vision"]);
+    });
+
+    test("should only use the providers and models in the key's allowlist", async () => {
+      expect(await chat(sampleMessages, { allowedModels: ["beta"] })).toBe("beta/b-chat");
+      expect(await chat(sampleMessages, { allowedModels: ["beta/b-vision"] })).toBe("beta/b-vision");
+      expect(await chat(sampleMessages, { allowedModels: ["alpha/a-tools", "beta"] })).toBe("alpha/a-tools");
+      expect(calls).toEqual(["beta/b-chat", "beta/b-vision", "alpha/a-tools"]);
+
+      await expect(handleChat(sampleMessages, { model: "alpha", allowedModels: ["beta"] })).rejects.toThrow(
+        ModelNotFoundError
+      );
+      await expect(handleChat(sampleMessages, { model: "beta/b-chat", allowedModels: ["beta/b-vision"] })).rejects.toThrow(
+        ModelNotFoundError
+      );
+      expect(calls).toHaveLength(3);
+    });
+
+    test("should reject unusable image URLs without tripping the breaker", async () => {
+      await Bun.write(env.MODELS_PATH!, JSON.stringify({ ...STUB_MODELS, ollama: {
+        default: "llava",
+        enableFallback: false,
+        models: [{ id: "llava", supportsVision: true }],
+      } }));
+      clearConfigCache();
+
+      const badImage: ChatMessage[] = [
+        { role: "user", content: [{ type: "image_url", image_url: { url: "ftp://example.com/cat.png" } }] },
+      ];
+      try {
+        for (let i = 0; i < 5; i++) {
+          await expect(handleChat(badImage, { model: "ollama" })).rejects.toThrow(ImageFetchError);
+        }
+        // Rotation stops at the first provider: the next one would get the same URL
+        await expect(handleChat(badImage, { routingStrategy: "priority" })).rejects.toThrow(ImageFetchError);
+
+        expect(calls).toEqual([]);
+        expect(getCircuitState("ollama", "llava")).toBe("closed");
+        const inlineImage: ChatMessage[] = [
+          { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } }] },
+        ];
+        expect(await chat(inlineImage, { model: "ollama" })).toBe("ollama/llava");
+      } finally {
+        await Bun.write(env.MODELS_PATH!, JSON.stringify(STUB_MODELS));
+        clearConfigCache();
+      }
+    });
+  });
 });
@@ -0,0 +1,244 @@
+/**
+ * Tests for services/content.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  getTextContent,
+  hasImages,
+  inlineImageUrls,
+  isPublicAddress,
+  loadImage,
+  MAX_IMAGE_BYTES,
+  parseDataUrl,
+  toMessageContent,
+} from "../../services/content";
+import { countMessageTokens, IMAGE_TOKENS } from "../../services/tokenizer";
+import type { ChatMessage, ContentPart } from "../../defaults/types";
+
+const image: ContentPart = { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } };
+
+// Resolves every host to a public address, so tests never touch DNS
+const publicLookup = async () => ["93.184.215.14"];
+
+/**
+ * Replace fetch for the duration of a test, recording the requested URLs.
+ */
+async function withFetch(handler: (url: string) => Response, run: (urls: string[]) => Promise<void>): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  const urls: string[] = [];
+  globalThis.fetch = (async (input: string) => {
+    urls.push(String(input));
+    return handler(String(input));
+  }) as any;
+
+  try {
+    await run(urls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+describe("content", () => {
+  describe("getTextContent", () => {
+    test("should join text parts and skip images", () => {
+      expect(getTextContent("plain")).toBe("plain");
+      expect(getTextContent([{ type: "text", text: "a" }, image, { type: "text", text: "b" }])).toBe("a\nb");
+    });
+  });
+
+  describe("toMessageContent", () => {
+    test("should keep text-only content a string", () => {
+      expect(toMessageContent([{ type: "text", text: "a" }, { type: "text", text: "b" }])).toBe("a\nb");
+    });
+
+    test("should keep parts when there is an image", () => {
+      const parts: ContentPart[] = [{ type: "text", text: "a" }, image];
+      expect(toMessageContent(parts)).toEqual(parts);
+    });
+  });
+
+  describe("hasImages", () => {
+    test("should detect images in any message", () => {
+      expect(hasImages([{ role: "user", content: "Hi" }])).toBe(false);
+      expect(hasImages([{ role: "system", content: "Be brief" }, { role: "user", content: [image] }])).toBe(true);
+    });
+  });
+
+  describe("parseDataUrl", () => {
+    test("should parse base64 data URLs only", () => {
+      expect(parseDataUrl("data:image/png;base64,iVBORw0KGgo=")).toEqual({
+        mediaType: "image/png",
+        data: "iVBORw0KGgo=",
+      });
+      expect(parseDataUrl("https://example.com/a.png")).toBeNull();
+    });
+  });
+
+  describe("loadImage", () => {
+    test("should return data URLs without fetching", async () => {
+      expect(await loadImage("data:image/jpeg;base64,/9j/4A==")).toEqual({ mediaType: "image/jpeg", data: "/9j/4A==" });
+    });
+
+    test("should download image URLs as base64", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = (async () =>
+        new Response(new Uint8Array([1, 2, 3]), { headers: { "content-type": "image/webp" } })) as any;
+
+      try {
+        expect(await loadImage("https://example.com/a.webp", undefined, publicLookup)).toEqual({ mediaType: "image/webp", data: "AQID" });
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    test("should only fetch http and https URLs", async () => {
+      await withFetch(() => new Response("secret"), async (urls) => {
+        for (const url of ["file:///etc/hostname", "ftp://example.com/a.png", "not a url"]) {
+          await expect(loadImage(url, undefined, publicLookup)).rejects.toThrow();
+        }
+        expect(urls).toEqual([]);
+      });
+    });
+
+    test("should reject loopback, private and link-local hosts", async () => {
+      await withFetch(() => new Response("secret"), async (urls) => {
+        for (const url of [
+          "http://127.0.0.1/a.png",
+          "http://2130706433/a.png",
+          "http://10.0.0.5/a.png",
+          "http://172.16.1.1/a.png",
+          "http://192.168.1.1/a.png",
+          "http://169.254.169.254/latest/meta-data",
+          "http://[::1]/a.png",
+          "http://[::ffff:127.0.0.1]/a.png",
+          "http://[fd00::1]/a.png",
+          "http://[fe80::1]/a.png",
+        ]) {
+          await expect(loadImage(url, undefined, publicLookup)).rejects.toThrow("not a public address");
+        }
+        expect(urls).toEqual([]);
+      });
+    });
+
+    test("should reject host names that resolve to private addresses", async () => {
+      await withFetch(() => new Response("secret"), async (urls) => {
+        const lookup = async () => ["93.184.215.14", "10.1.2.3"];
+        await expect(loadImage("https://internal.example/a.png", undefined, lookup)).rejects.toThrow(
+          "not a public address"
+        );
+        await expect(
+          loadImage("https://missing.example/a.png", undefined, async () => { throw new Error("ENOTFOUND"); })
+        ).rejects.toThrow("cannot resolve");
+        expect(urls).toEqual([]);
+      });
+    });
+
+    test("should check redirect targets too", async () => {
+      await withFetch(
+        () => new Response(null, { status: 302, headers: { location: "http://127.0.0.1/admin" } }),
+        async (urls) => {
+          await expect(loadImage("https://example.com/a.png", undefined, publicLookup)).rejects.toThrow(
+            "not a public address"
+          );
+          expect(urls).toEqual(["https://example.com/a.png"]);
+        }
+      );
+    });
+
+    test("should reject responses that are not images", async () => {
+      await withFetch(
+        () => new Response("<html></html>", { headers: { "content-type": "text/html" } }),
+        async () => {
+          await expect(loadImage("https://example.com/a.png", undefined, publicLookup)).rejects.toThrow(
+            "is not an image"
+          );
+        }
+      );
+    });
+
+    test("should reject images over the size limit", async () => {
+      const declared = () =>
+        new Response("x", { headers: { "content-type": "image/png", "content-length": String(MAX_IMAGE_BYTES + 1) } });
+      await withFetch(declared, async () => {
+        await expect(loadImage("https://example.com/a.png", undefined, publicLookup)).rejects.toThrow("larger than");
+      });
+
+      // Without a Content-Length the body is counted while it is read
+      const streamed = () =>
+        new Response(
+          new ReadableStream({
+            pull(controller) {
+              controller.enqueue(new Uint8Array(4 * 1024 * 1024));
+            },
+          }),
+          { headers: { "content-type": "image/png" } }
+        );
+      await withFetch(streamed, async () => {
+        await expect(loadImage("https://example.com/a.png", undefined, publicLookup)).rejects.toThrow("larger than");
+      });
+    });
+
+    test("should give up on slow image hosts", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = ((_url: string, init: RequestInit) =>
+        new Promise((_, reject) => init.signal!.addEventListener("abort", () => reject(init.signal!.reason)))) as any;
+      const originalTimeout = AbortSignal.timeout;
+      AbortSignal.timeout = () => originalTimeout.call(AbortSignal, 10);
+
+      try {
+        await expect(loadImage("https://example.com/a.png", undefined, publicLookup)).rejects.toThrow("no response");
+      } finally {
+        globalThis.fetch = originalFetch;
+        AbortSignal.timeout = originalTimeout;
+      }
+    });
+  });
+
+  describe("isPublicAddress", () => {
+    test("should accept public addresses only", () => {
+      expect(isPublicAddress("93.184.215.14")).toBe(true);
+      expect(isPublicAddress("2606:2800:220:1::1")).toBe(true);
+      for (const address of ["0.0.0.0", "100.64.0.1", "172.31.255.255", "224.0.0.1", "::", "64:ff9b::a00:1", "ff02::1"]) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+  });
+
+  describe("inlineImageUrls", () => {
+    test("should replace image URLs with data URLs", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = (async () =>
+        new Response(new Uint8Array([1, 2, 3]), { headers: { "content-type": "image/png" } })) as any;
+
+      const messages: ChatMessage[] = [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Look" },
+            { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+          ],
+        },
+      ];
+
+      try {
+        const result = await inlineImageUrls(messages, undefined, publicLookup);
+        expect(result[0]!.content).toEqual([
+          { type: "text", text: "Look" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,AQID" } },
+        ]);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe("token counting", () => {
+    test("should count a fixed cost per image", () => {
+      const text = countMessageTokens([{ role: "user", content: "Look" }]);
+      const withImage = countMessageTokens([{ role: "user", content: [{ type: "text", text: "Look" }, image] }]);
+
+      expect(withImage - text).toBe(IMAGE_TOKENS);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for services/context_window.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  ContextLengthExceededError,
+  createContextFitter,
+  estimateRequiredTokens,
+  fitMessages,
+  trimMessages,
+} from "../../services/context_window";
+import { defaultTokenizer, registerTokenizer } from "../../services/tokenizer";
+import type { ChatMessage } from "../../defaults/types";
+
+// moonshotai/kimi-k2:free has a 32768-token context window and no maxOutput in models.json
+const PROVIDER = "openrouter";
+const MODEL = "moonshotai/kimi-k2:free";
+
+function words(count: number): string {
+  return "word ".repeat(count);
+}
+
+const conversation: ChatMessage[] = [
+  { role: "system", content: "You are a coding assistant" },
+  { role: "user", content: "Refactor the parser" },
+  { role: "assistant", content: "", tool_calls: [{ id: "c1", type: "function", function: { name: "read", arguments: "{}" } }] },
+  { role: "tool", tool_call_id: "c1", content: "old output" },
+  { role: "assistant", content: "Done with step one" },
+  { role: "user", content: "Now the lexer" },
+  { role: "assistant", content: "On it" },
+];
+
+describe("context_window", () => {
+  describe("fitMessages", () => {
+    test("should return the messages when they fit", () => {
+      expect(fitMessages(conversation, { max_tokens: 1000 }, PROVIDER, MODEL)).toBe(conversation);
+    });
+
+    test("should reject prompts plus max_tokens over the window", () => {
+      expect(fitMessages(conversation, { max_tokens: 40000 }, PROVIDER, MODEL)).toBeNull();
+    });
+
+    test("should accept any request for models without a known window", () => {
+      expect(fitMessages(conversation, { max_tokens: 10_000_000 }, "ollama", "gemma3:1b")).toBe(conversation);
+    });
+
+    test("should trim middle turns with the trim strategy", () => {
+      const messages: ChatMessage[] = [
+        { role: "system", content: "System prompt" },
+        { role: "user", content: "The task" },
+        { role: "assistant", content: words(2800) },
+        { role: "user", content: words(2800) },
+        { role: "assistant", content: "Recent answer" },
+        { role: "user", content: "Latest question" },
+      ];
+      const options = { max_tokens: 30000, contextStrategy: "trim" as const };
+
+      expect(fitMessages(messages, { max_tokens: 30000 }, PROVIDER, MODEL)).toBeNull();
+
+      const trimmed = fitMessages(messages, options, PROVIDER, MODEL)!;
+      expect(trimmed.map((m) => m.content)).toEqual([
+        "System prompt",
+        "The task",
+        "Recent answer",
+        "Latest question",
+      ]);
+      expect(estimateRequiredTokens(trimmed, options, PROVIDER, MODEL)).toBeLessThanOrEqual(32768);
+    });
+  });
+
+  describe("createContextFitter", () => {
+    // Long conversation: 400 messages, about 100 tokens each
+    const history: ChatMessage[] = [
+      { role: "system", content: "System prompt" },
+      ...Array.from({ length: 399 }, (_, i): ChatMessage => ({
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: `${i} ${words(95)}`,
+      })),
+    ];
+    const options = { max_tokens: 1000, contextStrategy: "trim" as const };
+
+    test("should match fitMessages and estimateRequiredTokens", () => {
+      const fitter = createContextFitter(history, options);
+      const trimmed = fitter.fit(PROVIDER, MODEL)!;
+
+      expect(trimmed).toEqual(trimMessages(history, (m) => estimateRequiredTokens(m, options, PROVIDER, MODEL) <= 32768)!);
+      expect(fitter.requiredTokens(PROVIDER, MODEL)).toBe(estimateRequiredTokens(history, options, PROVIDER, MODEL));
+      expect(fitter.fit(PROVIDER, MODEL)).toBe(trimmed);
+    });
+
+    test("should tokenize each message once per tokenizer", () => {
+      let calls = 0;
+      // Passes through to the tokenizer the model already uses
+      registerTokenizer(/kimi-k2/, {
+        name: "counting",
+        count(text) {
+          calls++;
+          return defaultTokenizer.count(text);
+        },
+      });
+
+      const fitter = createContextFitter(history, options);
+      fitter.fit(PROVIDER, MODEL);
+      fitter.fit(PROVIDER, "moonshotai/kimi-k2");
+      fitter.requiredTokens(PROVIDER, MODEL);
+
+      expect(calls).toBe(history.length);
+    });
+  });
+
+  describe("trimMessages", () => {
+    test("should keep the system prompt, the first message and the recent turns", () => {
+      const trimmed = trimMessages(conversation, (messages) => messages.length <= 4)!;
+
+      expect(trimmed.map((m) => m.content)).toEqual([
+        "You are a coding assistant",
+        "Refactor the parser",
+        "Now the lexer",
+        "On it",
+      ]);
+    });
+
+    test("should never start the kept tail with a tool result", () => {
+      const trimmed = trimMessages(conversation, (messages) => messages.length <= 5)!;
+
+      expect(trimmed[2]!.role).not.toBe("tool");
+      expect(trimmed.map((m) => m.content)).toEqual([
+        "You are a coding assistant",
+        "Refactor the parser",
+        "Done with step one",
+        "Now the lexer",
+        "On it",
+      ]);
+    });
+
+    test("should return null when even the last turn does not fit", () => {
+      expect(trimMessages(conversation, () => false)).toBeNull();
+    });
+  });
+
+  describe("ContextLengthExceededError", () => {
+    test("should carry the token counts", () => {
+      const error = new ContextLengthExceededError(200000, 131072);
+
+      expect(error.requiredTokens).toBe(200000);
+      expect(error.maxContextTokens).toBe(131072);
+      expect(error.message).toContain("131072");
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for GeminiClient
+ */
+
+import { describe, test, expect } from "bun:test";
+import { GeminiClient } from "../../services/gemini_client";
+import { StandardAIController } from "../../services/ai_controller";
+import { trackKeyUsage } from "../../services/key_limits";
+import type { ChatStreamEvent } from "../../defaults/types";
+
+/**
+ * Fake SDK chunk. Gemini reports the usage so far on every chunk.
+ */
+function geminiChunk(text: string, promptTokens: number, outputTokens: number, finishReason?: string) {
+  return {
+    text: () => text,
+    functionCalls: () => undefined,
+    candidates: [{ finishReason }],
+    usageMetadata: { promptTokenCount: promptTokens, candidatesTokenCount: outputTokens },
+  };
+}
+
+async function* fakeStream() {
+  yield geminiChunk("Hello", 1000, 1);
+  yield geminiChunk(" there", 1000, 2);
+  yield geminiChunk("!", 1000, 3, "STOP");
+}
+
+describe("GeminiClient", () => {
+  test("should report the cumulative usage once, at the end of the stream", async () => {
+    const client = new GeminiClient({ apiKey: "test-key" });
+
+    const chunks: any[] = [];
+    for await (const chunk of client.streamResponse({ stream: fakeStream() })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((c) => c.usage)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      { prompt_tokens: 1000, completion_tokens: 3 },
+    ]);
+    expect(chunks[2].choices[0].finish_reason).toBe("stop");
+  });
+
+  test("should charge a key the stream's tokens only once", async () => {
+    const gemini = new GeminiClient({ apiKey: "test-key" });
+    const client = { chat: { completions: { create: async () => gemini.streamResponse({ stream: fakeStream() }) } } };
+    const service = new StandardAIController("Gemini", "gemini", client, { model: "gemini-2.5-flash", stream: true });
+
+    const charged: number[] = [];
+    const events: ChatStreamEvent[] = [];
+    const stream = trackKeyUsage(service.chat([{ role: "user", content: "Hi" }]), 7, () => 0, (_, tokens) => {
+      charged.push(tokens);
+    });
+    for await (const event of stream) {
+      events.push(event);
+    }
+
+    expect(events.filter((e) => e.type === "usage")).toEqual([{ type: "usage", inputTokens: 1000, outputTokens: 3 }]);
+    expect(charged).toEqual([1003]);
+  });
+});
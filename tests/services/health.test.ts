@@ -0,0 +1,179 @@
+/**
+ * Tests for services/health.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import {
+  acquireAttempt,
+  filterAvailableProviders,
+  getCircuitState,
+  getHealthSnapshot,
+  isAvailable,
+  recordCancelled,
+  recordFailure,
+  recordSuccess,
+  resetHealth,
+  BASE_COOLDOWN_MS,
+  FAILURE_THRESHOLD,
+  MAX_COOLDOWN_MS,
+} from "../../services/health";
+import { createActiveProvider } from "../utils/mocks";
+
+const start = new Date("2026-01-01T00:00:00Z");
+
+function failTimes(times: number, model = "model-a") {
+  for (let i = 0; i < times; i++) {
+    recordFailure("test", model, new Error("boom"));
+  }
+}
+
+function advance(ms: number) {
+  setSystemTime(new Date(Date.now() + ms));
+}
+
+describe("health", () => {
+  beforeEach(() => {
+    resetHealth();
+    setSystemTime(start);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  describe("circuit breaker", () => {
+    test("should stay closed below the failure threshold", () => {
+      failTimes(FAILURE_THRESHOLD - 1);
+
+      expect(getCircuitState("test", "model-a")).toBe("closed");
+      expect(isAvailable("test", "model-a")).toBe(true);
+    });
+
+    test("should open after consecutive failures", () => {
+      failTimes(FAILURE_THRESHOLD);
+
+      expect(getCircuitState("test", "model-a")).toBe("open");
+      expect(isAvailable("test", "model-a")).toBe(false);
+      expect(acquireAttempt("test", "model-a")).toBe(false);
+    });
+
+    test("should reset the failure count on success", () => {
+      failTimes(FAILURE_THRESHOLD - 1);
+      recordSuccess("test", "model-a");
+      failTimes(FAILURE_THRESHOLD - 1);
+
+      expect(getCircuitState("test", "model-a")).toBe("closed");
+    });
+
+    test("should let a single probe through once the cool-down ends", () => {
+      failTimes(FAILURE_THRESHOLD);
+      advance(BASE_COOLDOWN_MS);
+
+      expect(getCircuitState("test", "model-a")).toBe("half_open");
+      expect(acquireAttempt("test", "model-a")).toBe(true);
+      expect(acquireAttempt("test", "model-a")).toBe(false);
+      expect(isAvailable("test", "model-a")).toBe(false);
+    });
+
+    test("should close when the probe succeeds", () => {
+      failTimes(FAILURE_THRESHOLD);
+      advance(BASE_COOLDOWN_MS);
+      acquireAttempt("test", "model-a");
+      recordSuccess("test", "model-a");
+
+      expect(getCircuitState("test", "model-a")).toBe("closed");
+    });
+
+    test("should re-open with double the cool-down when the probe fails", () => {
+      failTimes(FAILURE_THRESHOLD);
+      advance(BASE_COOLDOWN_MS);
+      acquireAttempt("test", "model-a");
+      failTimes(1);
+
+      advance(BASE_COOLDOWN_MS);
+      expect(getCircuitState("test", "model-a")).toBe("open");
+      advance(BASE_COOLDOWN_MS);
+      expect(getCircuitState("test", "model-a")).toBe("half_open");
+    });
+
+    test("should cap the cool-down", () => {
+      failTimes(FAILURE_THRESHOLD);
+      for (let i = 0; i < 20; i++) {
+        advance(MAX_COOLDOWN_MS);
+        acquireAttempt("test", "model-a");
+        failTimes(1);
+      }
+
+      advance(MAX_COOLDOWN_MS);
+      expect(getCircuitState("test", "model-a")).toBe("half_open");
+    });
+  });
+
+  describe("recordCancelled", () => {
+    test("should count cancellations without affecting the breaker", () => {
+      failTimes(FAILURE_THRESHOLD - 1);
+      recordCancelled("test", "model-a");
+      recordCancelled("test", "model-a");
+      failTimes(1);
+
+      expect(getCircuitState("test", "model-a")).toBe("open");
+    });
+
+    test("should free the half-open probe slot", () => {
+      failTimes(FAILURE_THRESHOLD);
+      advance(BASE_COOLDOWN_MS);
+      expect(acquireAttempt("test", "model-a")).toBe(true);
+
+      recordCancelled("test", "model-a");
+
+      expect(getCircuitState("test", "model-a")).toBe("half_open");
+      expect(acquireAttempt("test", "model-a")).toBe(true);
+    });
+  });
+
+  describe("filterAvailableProviders", () => {
+    test("should drop open models and move the default", () => {
+      const provider = createActiveProvider("test", "Test", ["model-a", "model-b"], "model-a", true);
+      failTimes(FAILURE_THRESHOLD, "model-a");
+
+      const [filtered] = filterAvailableProviders([provider]);
+
+      expect(filtered?.models).toEqual(["model-b"]);
+      expect(filtered?.defaultModel).toBe("model-b");
+    });
+
+    test("should drop providers without fallback whose default is open", () => {
+      const provider = createActiveProvider("test", "Test", ["model-a", "model-b"], "model-a", false);
+      failTimes(FAILURE_THRESHOLD, "model-a");
+
+      expect(filterAvailableProviders([provider])).toEqual([]);
+    });
+
+    test("should drop providers with every model open", () => {
+      const provider = createActiveProvider("test", "Test", ["model-a", "model-b"], "model-a", true);
+      failTimes(FAILURE_THRESHOLD, "model-a");
+      failTimes(FAILURE_THRESHOLD, "model-b");
+
+      expect(filterAvailableProviders([provider])).toEqual([]);
+    });
+  });
+
+  describe("getHealthSnapshot", () => {
+    test("should report state, failures and retry time per model", () => {
+      const provider = createActiveProvider("test", "Test", ["model-a", "model-b"], "model-a", true);
+      failTimes(FAILURE_THRESHOLD, "model-a");
+
+      const [a, b] = getHealthSnapshot([provider]);
+
+      expect(a).toMatchObject({
+        providerKey: "test",
+        model: "model-a",
+        state: "open",
+        consecutiveFailures: FAILURE_THRESHOLD,
+        retryInMs: BASE_COOLDOWN_MS,
+        lastError: "boom",
+      });
+      expect(b).toMatchObject({ model: "model-b", state: "closed", consecutiveFailures: 0, retryInMs: 0 });
+    });
+  });
+});
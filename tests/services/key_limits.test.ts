@@ -0,0 +1,184 @@
+/**
+ * Tests for services/key_limits.ts
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  checkKeyLimits,
+  getActiveStreams,
+  getTokensUsedToday,
+  resetKeyLimits,
+  setKeyTokenStore,
+  trackKeyUsage,
+} from "../../services/key_limits";
+import type { ApiKey } from "../../db/api_keys";
+import type { ChatStreamEvent } from "../../defaults/types";
+import { textEvent } from "../utils/mocks";
+
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+function createKey(overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    id: 1,
+    key_hash: "hash",
+    key_prefix: "sk-test",
+    name: null,
+    created_at: "2026-03-01 00:00:00",
+    last_used_at: null,
+    is_active: 1,
+    usage_count: 0,
+    context_strategy: "skip",
+    routing_strategy: null,
+    rpm_limit: null,
+    daily_token_limit: null,
+    max_concurrent_streams: null,
+    tokens_used_today: 0,
+    tokens_used_date: null,
+    expires_at: null,
+    scopes: null,
+    allowed_models: null,
+    ...overrides,
+  };
+}
+
+async function* events(...list: ChatStreamEvent[]): AsyncIterable<ChatStreamEvent> {
+  yield* list;
+}
+
+describe("key_limits", () => {
+  beforeEach(() => {
+    resetKeyLimits();
+  });
+
+  test("should allow keys without limits and send no headers", () => {
+    const { release, ...check } = checkKeyLimits(createKey(), NOW);
+    expect(check).toEqual({ allowed: true, headers: {} });
+    expect(release).toBeFunction();
+  });
+
+  test("should reject requests over the per-minute limit until the window slides", () => {
+    const key = createKey({ rpm_limit: 2 });
+
+    expect(checkKeyLimits(key, NOW).headers["x-ratelimit-remaining-requests"]).toBe("1");
+    expect(checkKeyLimits(key, NOW + 10_000).headers["x-ratelimit-remaining-requests"]).toBe("0");
+
+    const rejected = checkKeyLimits(key, NOW + 20_000);
+    expect(rejected).toMatchObject({ allowed: false, exceeded: "requests", retryAfter: 40 });
+    expect(rejected.headers).toMatchObject({
+      "retry-after": "40",
+      "x-ratelimit-limit-requests": "2",
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "40s",
+    });
+
+    // Rejected requests do not count, so the first slot frees at NOW + 60s
+    expect(checkKeyLimits(key, NOW + 60_000).allowed).toBe(true);
+  });
+
+  test("should count the daily token quota only for today (UTC)", () => {
+    const key = createKey({ daily_token_limit: 1000, tokens_used_today: 1200, tokens_used_date: "2026-03-10" });
+
+    const rejected = checkKeyLimits(key, NOW);
+    expect(rejected).toMatchObject({ allowed: false, exceeded: "tokens", retryAfter: 12 * 3600 });
+    expect(rejected.headers).toMatchObject({
+      "x-ratelimit-remaining-tokens": "0",
+      "x-ratelimit-reset-tokens": "12h0s",
+    });
+
+    const yesterday = { ...key, tokens_used_date: "2026-03-09" };
+    expect(getTokensUsedToday(yesterday, NOW)).toBe(0);
+    expect(checkKeyLimits(yesterday, NOW).headers["x-ratelimit-remaining-tokens"]).toBe("1000");
+  });
+
+  test("should take a stream slot in the same step as the check", () => {
+    const key = createKey({ max_concurrent_streams: 2 });
+
+    // Parallel requests: the third is rejected before either of the first two ends
+    const first = checkKeyLimits(key, NOW);
+    const second = checkKeyLimits(key, NOW);
+    expect(getActiveStreams(key.id)).toBe(2);
+    expect(checkKeyLimits(key, NOW)).toMatchObject({ allowed: false, exceeded: "concurrency", retryAfter: 1 });
+    expect(getActiveStreams(key.id)).toBe(2);
+
+    first.release!();
+    first.release!();
+    expect(getActiveStreams(key.id)).toBe(1);
+    expect(checkKeyLimits(key, NOW).allowed).toBe(true);
+
+    second.release!();
+  });
+
+  test("should not take a slot for rejected requests", () => {
+    const key = createKey({ rpm_limit: 1 });
+
+    checkKeyLimits(key, NOW).release!();
+    const rejected = checkKeyLimits(key, NOW);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.release).toBeUndefined();
+    expect(getActiveStreams(key.id)).toBe(0);
+  });
+
+  test("should record the reported token usage when the stream ends", async () => {
+    const recorded: [number, number][] = [];
+
+    const stream = trackKeyUsage(
+      events(textEvent("Hi"), { type: "usage", inputTokens: 30, outputTokens: 12 }),
+      3,
+      () => 1000,
+      (keyId, tokens) => recorded.push([keyId, tokens])
+    );
+
+    for await (const _ of stream) {
+      // consume
+    }
+
+    expect(recorded).toEqual([[3, 42]]);
+  });
+
+  test("should charge the estimate when the provider reports no usage", async () => {
+    const recorded: [number, number][] = [];
+    const outputs: string[] = [];
+    const estimate = (output: string) => {
+      outputs.push(output);
+      return 20 + output.length;
+    };
+
+    const stream = trackKeyUsage(
+      events(textEvent("Hello"), { type: "tool_call", index: 0, name: "ls", arguments: "{}" }),
+      3,
+      estimate,
+      (keyId, tokens) => recorded.push([keyId, tokens])
+    );
+    for await (const _ of stream) {
+      // consume
+    }
+
+    expect(outputs).toEqual(["Hellols{}"]);
+    expect(recorded).toEqual([[3, 29]]);
+  });
+
+  test("should charge the output so far when the client stops reading", async () => {
+    const recorded: [number, number][] = [];
+
+    for await (const _ of trackKeyUsage(events(textEvent("a"), textEvent("b")), 4, (output) => 10 + output.length, (...args) => recorded.push(args))) {
+      break;
+    }
+
+    expect(recorded).toEqual([[4, 11]]);
+  });
+
+  test("should store token usage through the configured store", async () => {
+    const stored: [number, number][] = [];
+    setKeyTokenStore((keyId, tokens) => stored.push([keyId, tokens]));
+
+    try {
+      for await (const _ of trackKeyUsage(events({ type: "usage", inputTokens: 5, outputTokens: 5 }), 7, () => 0)) {
+        // consume
+      }
+    } finally {
+      setKeyTokenStore(() => {});
+    }
+
+    expect(stored).toEqual([[7, 10]]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for services/key_pool.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import {
+  AUTH_BLOCK_MS,
+  getApiKeys,
+  getKeyPoolSnapshot,
+  getNextPoolKeyName,
+  hasUsableKey,
+  listPoolKeyNames,
+  pickApiKey,
+  recordKeyAuthFailure,
+  resetKeyPools,
+} from "../../services/key_pool";
+import { getQuotaSnapshot, recordRateLimited, resetRateLimits } from "../../services/rate_limits";
+import { classifyProviderError } from "../../services/provider_errors";
+import { isAvailable, resetHealth } from "../../services/health";
+import { createActiveProvider } from "../utils/mocks";
+
+const start = new Date("2026-01-01T00:00:00Z");
+const POOL = ["GROQ_API_KEY", "GROQ_API_KEY_1", "GROQ_API_KEY_2"];
+
+function rateLimitError(retryAfter: string) {
+  const error = Object.assign(new Error("Too Many Requests"), { status: 429, headers: { "retry-after": retryAfter } });
+  return classifyProviderError(error);
+}
+
+describe("key_pool", () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith("GROQ_API_KEY")) delete process.env[name];
+    }
+    process.env.GROQ_API_KEY = "gsk_base";
+    process.env.GROQ_API_KEY_1 = "gsk_one";
+    process.env.GROQ_API_KEY_2 = "gsk_two";
+    resetKeyPools();
+    resetRateLimits();
+    resetHealth();
+    setSystemTime(start);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setSystemTime();
+  });
+
+  describe("listPoolKeyNames", () => {
+    test("should list the base key first, then numbered keys in order", () => {
+      const env = { KEY_10: "j", KEY_2: "b", KEY: "a", KEY_1: "c", OTHER_KEY_1: "x", KEY_X: "y" };
+      expect(listPoolKeyNames("KEY", env)).toEqual(["KEY", "KEY_1", "KEY_2", "KEY_10"]);
+    });
+
+    test("should skip empty values", () => {
+      expect(listPoolKeyNames("KEY", { KEY: " ", KEY_1: "a" })).toEqual(["KEY_1"]);
+    });
+  });
+
+  describe("getNextPoolKeyName", () => {
+    test("should use the base name first, then the first free number", () => {
+      expect(getNextPoolKeyName("KEY", {})).toBe("KEY");
+      expect(getNextPoolKeyName("KEY", { KEY: "a" })).toBe("KEY_1");
+      expect(getNextPoolKeyName("KEY", { KEY: "a", KEY_1: "b", KEY_3: "c" })).toBe("KEY_2");
+    });
+  });
+
+  describe("pickApiKey", () => {
+    test("should read the provider's pool from the environment", () => {
+      expect(getApiKeys("groq").map((key) => key.name)).toEqual(POOL);
+      expect(getApiKeys("unknown")).toEqual([]);
+    });
+
+    test("should rotate round-robin over the pool", () => {
+      const picked = [1, 2, 3, 4].map(() => pickApiKey("groq", "model-a")!.name);
+      expect(picked).toEqual([...POOL, "GROQ_API_KEY"]);
+    });
+
+    test("should skip a rate-limited key for that model only", () => {
+      recordRateLimited("groq", "model-a", rateLimitError("30"), "GROQ_API_KEY");
+
+      expect(pickApiKey("groq", "model-a")!.name).toBe("GROQ_API_KEY_1");
+      resetKeyPools();
+      expect(pickApiKey("groq", "model-b")!.name).toBe("GROQ_API_KEY");
+    });
+
+    test("should skip a key that failed auth until the block ends", () => {
+      recordKeyAuthFailure("groq", "GROQ_API_KEY_1", new Error("Invalid API Key"));
+
+      const picked = [1, 2, 3].map(() => pickApiKey("groq", "model-a")!.name);
+      expect(picked).toEqual(["GROQ_API_KEY", "GROQ_API_KEY_2", "GROQ_API_KEY"]);
+
+      setSystemTime(new Date(start.getTime() + AUTH_BLOCK_MS));
+      expect([1, 2, 3].map(() => pickApiKey("groq", "model-a")!.name)).toContain("GROQ_API_KEY_1");
+    });
+
+    test("should return null when every key is blocked", () => {
+      for (const name of POOL) {
+        recordRateLimited("groq", "model-a", rateLimitError("30"), name);
+      }
+
+      expect(pickApiKey("groq", "model-a")).toBeNull();
+    });
+  });
+
+  describe("availability", () => {
+    test("should keep the model available while any key has quota", () => {
+      recordRateLimited("groq", "model-a", rateLimitError("30"), "GROQ_API_KEY");
+      recordKeyAuthFailure("groq", "GROQ_API_KEY_1");
+
+      expect(hasUsableKey("groq", "model-a")).toBe(true);
+      expect(isAvailable("groq", "model-a")).toBe(true);
+
+      recordRateLimited("groq", "model-a", rateLimitError("30"), "GROQ_API_KEY_2");
+      expect(hasUsableKey("groq", "model-a")).toBe(false);
+      expect(isAvailable("groq", "model-a")).toBe(false);
+      expect(isAvailable("groq", "model-b")).toBe(true);
+    });
+
+    test("should report a model rate limited only when all keys are", () => {
+      const provider = createActiveProvider("groq", "Groq", ["model-a"], "model-a", true);
+      const keyNames = () => POOL;
+
+      recordRateLimited("groq", "model-a", rateLimitError("10"), "GROQ_API_KEY");
+      recordRateLimited("groq", "model-a", rateLimitError("20"), "GROQ_API_KEY_1");
+      expect(getQuotaSnapshot([provider], keyNames)[0]!.rateLimited).toBe(false);
+
+      recordRateLimited("groq", "model-a", rateLimitError("30"), "GROQ_API_KEY_2");
+      const [quota] = getQuotaSnapshot([provider], keyNames);
+      expect(quota!.rateLimited).toBe(true);
+      expect(quota!.retryInMs).toBe(10_000);
+    });
+
+    test("should describe each key without its value", () => {
+      recordKeyAuthFailure("groq", "GROQ_API_KEY", new Error("Invalid API Key"));
+      recordRateLimited("groq", "model-b", rateLimitError("30"), "GROQ_API_KEY_2");
+
+      const snapshot = getKeyPoolSnapshot("groq", ["model-a", "model-b"]);
+
+      expect(snapshot.map(({ name, authFailed, rateLimitedModels }) => [name, authFailed, rateLimitedModels])).toEqual([
+        ["GROQ_API_KEY", true, []],
+        ["GROQ_API_KEY_1", false, []],
+        ["GROQ_API_KEY_2", false, ["model-b"]],
+      ]);
+      expect(snapshot[0]!.retryInMs).toBe(AUTH_BLOCK_MS);
+      expect(snapshot[0]!.lastError).toBe("Invalid API Key");
+      expect(JSON.stringify(snapshot)).not.toContain("gsk_");
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for services/metrics.ts
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  recordFailedRequest,
+  recordFailover,
+  recordHttpResponse,
+  recordTimeToFirstToken,
+  renderMetrics,
+  resetMetrics,
+  trackStream,
+} from "../../services/metrics";
+import { getHealthSnapshot, recordFailure, resetHealth } from "../../services/health";
+import { getQuotaSnapshot, resetRateLimits } from "../../services/rate_limits";
+import { RequestCancelledError } from "../../services/cancellation";
+import type { ChatStreamEvent } from "../../defaults/types";
+import { createActiveProvider, textEvent } from "../utils/mocks";
+
+const labels = { route: "/v1/chat/completions", providerKey: "groq", model: "llama" };
+
+async function* events(...list: ChatStreamEvent[]): AsyncIterable<ChatStreamEvent> {
+  yield* list;
+}
+
+function render(): string {
+  return renderMetrics([], [], []);
+}
+
+describe("metrics", () => {
+  beforeEach(() => {
+    resetMetrics();
+    resetHealth();
+    resetRateLimits();
+  });
+
+  test("should count served requests and their tokens", async () => {
+    const stream = trackStream(
+      events(textEvent("Hi"), { type: "usage", inputTokens: 10, outputTokens: 4 }),
+      labels,
+      performance.now()
+    );
+    for await (const _ of stream) {
+      // consume
+    }
+
+    const output = render();
+    expect(output).toContain(
+      'aicarousel_requests_total{route="/v1/chat/completions",provider="groq",model="llama",outcome="success"} 1'
+    );
+    expect(output).toContain('aicarousel_tokens_total{provider="groq",model="llama",direction="input"} 10');
+    expect(output).toContain('aicarousel_tokens_total{provider="groq",model="llama",direction="output"} 4');
+    expect(output).toContain('aicarousel_request_duration_seconds_count{route="/v1/chat/completions"} 1');
+  });
+
+  test("should track active streams until they end", async () => {
+    const iterator = trackStream(events(textEvent("a"), textEvent("b")), labels, performance.now())[
+      Symbol.asyncIterator
+    ]();
+
+    await iterator.next();
+    expect(render()).toContain("aicarousel_active_streams 1");
+
+    await iterator.return?.();
+    expect(render()).toContain("aicarousel_active_streams 0");
+    expect(render()).toContain('outcome="cancelled"} 1');
+  });
+
+  test("should count cancelled and failed streams by outcome", async () => {
+    async function* failing(error: Error): AsyncIterable<ChatStreamEvent> {
+      yield textEvent("a");
+      throw error;
+    }
+
+    for (const error of [new RequestCancelledError(), new Error("boom")]) {
+      try {
+        for await (const _ of trackStream(failing(error), labels, performance.now())) {
+          // consume
+        }
+      } catch {
+        // expected
+      }
+    }
+
+    const output = render();
+    expect(output).toContain('outcome="cancelled"} 1');
+    expect(output).toContain('outcome="error"} 1');
+  });
+
+  test("should count failovers, failed requests and HTTP responses", () => {
+    recordFailover("groq", "llama");
+    recordFailover("groq", "llama");
+    recordFailedRequest("/v1/messages", "error", 1500);
+    recordHttpResponse("/v1/messages", 503);
+
+    const output = render();
+    expect(output).toContain('aicarousel_failovers_total{provider="groq",model="llama"} 2');
+    expect(output).toContain(
+      'aicarousel_requests_total{route="/v1/messages",provider="none",model="none",outcome="error"} 1'
+    );
+    expect(output).toContain('aicarousel_http_responses_total{route="/v1/messages",status="503"} 1');
+  });
+
+  test("should render cumulative histogram buckets", () => {
+    recordTimeToFirstToken("groq", "llama", 300);
+    recordTimeToFirstToken("groq", "llama", 3000);
+
+    const output = render();
+    expect(output).toContain('aicarousel_time_to_first_token_seconds_bucket{provider="groq",model="llama",le="0.25"} 0');
+    expect(output).toContain('aicarousel_time_to_first_token_seconds_bucket{provider="groq",model="llama",le="0.5"} 1');
+    expect(output).toContain('aicarousel_time_to_first_token_seconds_bucket{provider="groq",model="llama",le="5"} 2');
+    expect(output).toContain('aicarousel_time_to_first_token_seconds_bucket{provider="groq",model="llama",le="+Inf"} 2');
+    expect(output).toContain('aicarousel_time_to_first_token_seconds_sum{provider="groq",model="llama"} 3.3');
+  });
+
+  test("should report breaker state and cooldown per provider/model", () => {
+    const providers = [createActiveProvider("groq", "Groq", ["llama", "mixtral"], "llama")];
+    for (let i = 0; i < 3; i++) {
+      recordFailure("groq", "llama", new Error("500"));
+    }
+
+    const output = renderMetrics(providers, getHealthSnapshot(providers), getQuotaSnapshot(providers));
+    expect(output).toContain("aicarousel_active_providers 1");
+    expect(output).toContain('aicarousel_circuit_state{provider="groq",model="llama"} 2');
+    expect(output).toContain('aicarousel_circuit_state{provider="groq",model="mixtral"} 0');
+    expect(output).toMatch(/aicarousel_cooldown_seconds\{provider="groq",model="llama"\} [1-9]/);
+    expect(output).toContain('aicarousel_rate_limited{provider="groq",model="llama"} 0');
+  });
+
+  test("should escape label values", () => {
+    recordFailover("custom", 'model "quoted"\\path');
+    expect(render()).toContain('model="model \\"quoted\\"\\\\path"');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for model_router.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  getRoutableModels,
+  resolveModelRoute,
+  applyModelRoute,
+  applyModelAllowlist,
+  isRotationModel,
+  ModelNotFoundError,
+} from "../../services/model_router";
+import { createActiveProvider } from "../utils/mocks";
+
+const providers = [
+  createActiveProvider("groq", "Groq", ["moonshotai/kimi-k2-instruct-0905", "llama-3.1-8b-instant"], "moonshotai/kimi-k2-instruct-0905"),
+  createActiveProvider("openrouter", "OpenRouter", ["qwen/qwen3-coder:free", "shared-model"], "qwen/qwen3-coder:free"),
+  createActiveProvider("ollama", "Ollama", ["gemma3:1b", "shared-model"], "gemma3:1b"),
+];
+
+describe("model_router", () => {
+  describe("isRotationModel", () => {
+    test("should route aicarousel and missing model to the rotation", () => {
+      expect(isRotationModel("aicarousel")).toBe(true);
+      expect(isRotationModel(undefined)).toBe(true);
+      expect(isRotationModel("")).toBe(true);
+    });
+
+    test("should route client default model names to the rotation", () => {
+      expect(isRotationModel("claude-sonnet-4-5-20250929")).toBe(true);
+      expect(isRotationModel("gpt-4")).toBe(true);
+    });
+
+    test("should not treat provider names as rotation", () => {
+      expect(isRotationModel("groq")).toBe(false);
+    });
+  });
+
+  describe("resolveModelRoute", () => {
+    test("should pin a provider by key", () => {
+      expect(resolveModelRoute("groq", providers)).toEqual({ type: "provider", providerKey: "groq" });
+    });
+
+    test("should pin provider/model", () => {
+      expect(resolveModelRoute("groq/llama-3.1-8b-instant", providers)).toEqual({
+        type: "model",
+        providerKey: "groq",
+        model: "llama-3.1-8b-instant",
+      });
+    });
+
+    test("should keep slashes inside the model ID", () => {
+      expect(resolveModelRoute("openrouter/qwen/qwen3-coder:free", providers)).toEqual({
+        type: "model",
+        providerKey: "openrouter",
+        model: "qwen/qwen3-coder:free",
+      });
+    });
+
+    test("should resolve a bare model ID owned by one provider", () => {
+      expect(resolveModelRoute("moonshotai/kimi-k2-instruct-0905", providers)).toEqual({
+        type: "model",
+        providerKey: "groq",
+        model: "moonshotai/kimi-k2-instruct-0905",
+      });
+    });
+
+    test("should reject ambiguous bare model IDs", () => {
+      expect(() => resolveModelRoute("shared-model", providers)).toThrow(ModelNotFoundError);
+    });
+
+    test("should reject unknown providers and models", () => {
+      expect(() => resolveModelRoute("mistral", providers)).toThrow(ModelNotFoundError);
+      expect(() => resolveModelRoute("groq/unknown", providers)).toThrow("groq/unknown");
+    });
+
+    test("should reject inactive providers", () => {
+      expect(() => resolveModelRoute("gemini/gemini-2.5-flash", providers)).toThrow(ModelNotFoundError);
+    });
+  });
+
+  describe("applyModelRoute", () => {
+    test("should keep all providers for the rotation", () => {
+      expect(applyModelRoute({ type: "rotation" }, providers)).toHaveLength(3);
+    });
+
+    test("should keep the pinned provider's fallback chain", () => {
+      const result = applyModelRoute({ type: "provider", providerKey: "groq" }, providers);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]!.models).toEqual(providers[0]!.models);
+      expect(result[0]!.enableFallback).toBe(true);
+    });
+
+    test("should serve a pinned model without fallback", () => {
+      const result = applyModelRoute(
+        { type: "model", providerKey: "groq", model: "llama-3.1-8b-instant" },
+        providers
+      );
+
+      expect(result[0]!.models).toEqual(["llama-3.1-8b-instant"]);
+      expect(result[0]!.defaultModel).toBe("llama-3.1-8b-instant");
+      expect(result[0]!.enableFallback).toBe(false);
+    });
+  });
+
+  describe("applyModelAllowlist", () => {
+    test("should keep every provider without an allowlist", () => {
+      expect(applyModelAllowlist(providers, undefined)).toBe(providers);
+    });
+
+    test("should keep whole providers and single provider/models", () => {
+      const allowed = applyModelAllowlist(providers, ["ollama", "groq/llama-3.1-8b-instant"]);
+
+      expect(allowed.map((p) => p.key)).toEqual(["groq", "ollama"]);
+      expect(allowed[0]).toMatchObject({ models: ["llama-3.1-8b-instant"], defaultModel: "llama-3.1-8b-instant" });
+      expect(allowed[1]).toBe(providers[2]!);
+    });
+
+    test("should drop providers with no allowed model", () => {
+      expect(applyModelAllowlist(providers, ["mistral", "groq/unknown"])).toEqual([]);
+    });
+  });
+
+  describe("getRoutableModels", () => {
+    test("should list the rotation alias, provider aliases and provider/model IDs", () => {
+      const models = getRoutableModels([
+        createActiveProvider("groq", "Groq", ["llama-3.1-8b-instant"], "llama-3.1-8b-instant"),
+        createActiveProvider("custom", "Custom", ["m1"], "m1"),
+      ]);
+      const ids = models.map((m) => m.id);
+
+      expect(ids[0]).toBe("aicarousel");
+      expect(ids).toContain("groq");
+      expect(ids).toContain("custom");
+      expect(ids).toContain("groq/llama-3.1-8b-instant");
+      expect(ids).toContain("custom/m1");
+    });
+
+    test("should report the provider as owner", () => {
+      const models = getRoutableModels([createActiveProvider("custom", "Custom", ["m1"], "m1")]);
+
+      expect(models.find((m) => m.id === "custom/m1")?.ownedBy).toBe("custom");
+      expect(models.find((m) => m.id === "aicarousel")?.ownedBy).toBe("aicarousel");
+    });
+
+    test("should only list the models an allowlist allows", () => {
+      const ids = getRoutableModels(
+        [createActiveProvider("custom", "Custom", ["m1", "m2"], "m1"), createActiveProvider("other", "Other", ["o1"], "o1")],
+        ["custom/m2"]
+      ).map((m) => m.id);
+
+      expect(ids).toEqual(["aicarousel", "custom", "custom/m2"]);
+    });
+
+    test("should only list active providers", () => {
+      const ids = getRoutableModels([]).map((m) => m.id);
+
+      expect(ids).toEqual(["aicarousel"]);
+    });
+  });
+});
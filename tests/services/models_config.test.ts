@@ -7,6 +7,7 @@ import { join } from "path";
 import {
   validateModelsConfig,
   validateProviderConfig,
+  getModelIds,
   ModelsConfigError,
   type ModelsConfig,
   type ProviderModelConfig,
@@ -108,6 +109,52 @@ describe("models_config", () => {
       const config = createProviderModelConfig("model-b", ["model-a", "model-b", "model-c"]);
       expect(() => validateProviderConfig("test", config)).not.toThrow();
     });
+
+    test("should accept model entries with capabilities", () => {
+      const config: ProviderModelConfig = {
+        default: "model-b",
+        enableFallback: true,
+        models: [
+          "model-a",
+          { id: "model-b", contextWindow: 131072, maxOutput: 8192, supportsTools: true, supportsVision: true },
+        ],
+      };
+      expect(() => validateProviderConfig("test", config)).not.toThrow();
+    });
+
+    test("should reject model entries without an id", () => {
+      const config = { default: "model-a", enableFallback: true, models: ["model-a", { contextWindow: 8192 }] };
+      expect(() => validateProviderConfig("test", config as any)).toThrow('objects with an "id"');
+    });
+
+    test("should reject invalid capability values", () => {
+      const limit = { default: "m", enableFallback: true, models: [{ id: "m", contextWindow: -1 }] };
+      const flag = { default: "m", enableFallback: true, models: [{ id: "m", supportsTools: "yes" }] };
+
+      expect(() => validateProviderConfig("test", limit)).toThrow('"contextWindow" must be a positive integer');
+      expect(() => validateProviderConfig("test", flag as any)).toThrow('"supportsTools" must be a boolean');
+    });
+
+    test("should reject duplicate model IDs", () => {
+      const config = { default: "m", enableFallback: true, models: ["m", { id: "m" }] };
+      expect(() => validateProviderConfig("test", config)).toThrow("must be unique");
+    });
+
+    test("should match default against entry ids", () => {
+      const config = { default: "model-x", enableFallback: true, models: [{ id: "model-a" }] };
+      expect(() => validateProviderConfig("test", config)).toThrow("must be in models list");
+    });
+  });
+
+  describe("getModelIds", () => {
+    test("should return ids for string and object entries in order", () => {
+      const config: ProviderModelConfig = {
+        default: "a",
+        enableFallback: true,
+        models: ["a", { id: "b", supportsVision: true }, "c"],
+      };
+      expect(getModelIds(config)).toEqual(["a", "b", "c"]);
+    });
   });
 
   describe("ProviderModelConfig structure", () => {
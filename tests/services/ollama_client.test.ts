@@ -212,6 +212,79 @@ describe("OllamaClient", () => {
     });
   });
 
+  describe("tool calling", () => {
+    test("should forward tools and tool_choice", async () => {
+      const client = new OllamaClient();
+      const mockResponse = {
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                content: "",
+                role: "assistant",
+                tool_calls: [
+                  { id: "call_1", type: "function", function: { name: "ls", arguments: "{}" } },
+                ],
+              },
+            },
+          ],
+        }),
+      };
+
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(() => Promise.resolve(mockResponse as Response)) as any;
+
+      const tools = [{ type: "function", function: { name: "ls", parameters: { type: "object" } } }];
+
+      try {
+        const result: any = await client.chat.completions.create({
+          model: "llama3.2:latest",
+          messages: [{ role: "user", content: "List files" }],
+          stream: false,
+          tools,
+          tool_choice: "auto",
+        });
+
+        const requestBody = JSON.parse((globalThis.fetch as any).mock.calls[0][1].body);
+        expect(requestBody.tools).toEqual(tools);
+        expect(requestBody.tool_choice).toBe("auto");
+        expect(result.choices[0].message.tool_calls[0].function.name).toBe("ls");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    test("should pass tool_calls deltas through the stream", async () => {
+      const client = new OllamaClient();
+      const chunks = [
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"ls","arguments":"{}"}}]}}]}\n\n',
+        "data: [DONE]\n\n",
+      ];
+
+      let chunkIndex = 0;
+      const mockResponse = {
+        body: {
+          getReader: () => ({
+            read: async () =>
+              chunkIndex < chunks.length
+                ? { done: false, value: new TextEncoder().encode(chunks[chunkIndex++]) }
+                : { done: true, value: undefined },
+            releaseLock: () => {},
+          }),
+        },
+      } as unknown as Response;
+
+      const deltas: any[] = [];
+      for await (const chunk of client.streamResponse(mockResponse)) {
+        deltas.push(chunk.choices[0]?.delta);
+      }
+
+      expect(deltas[0].tool_calls[0].id).toBe("call_1");
+      expect(deltas[0].tool_calls[0].function.name).toBe("ls");
+    });
+  });
+
   describe("streamResponse", () => {
     test("should skip invalid JSON in stream", async () => {
       const client = new OllamaClient();
@@ -0,0 +1,78 @@
+/**
+ * Tests for OpenAICompatibleClient
+ */
+
+import { describe, test, expect, afterEach, mock } from "bun:test";
+import { OpenAICompatibleClient } from "../../services/openai_compatible_client";
+
+describe("OpenAICompatibleClient", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function mockFetch(response: Partial<Response>) {
+    globalThis.fetch = mock(() => Promise.resolve(response as Response)) as any;
+    return (globalThis.fetch as any).mock.calls as any[][];
+  }
+
+  const okResponse = {
+    ok: true,
+    json: async () => ({ choices: [{ message: { content: "Hi", role: "assistant" } }] }),
+  };
+
+  test("should post to the chat completions path with auth and extra headers", async () => {
+    const calls = mockFetch(okResponse);
+    const client = new OpenAICompatibleClient({
+      name: "DeepSeek",
+      baseUrl: "https://api.deepseek.com/v1/",
+      apiKey: "sk-test",
+      headers: { "X-Client": "aicarousel" },
+    });
+
+    const result: any = await client.chat.completions.create({
+      model: "deepseek-chat",
+      messages: [{ role: "user", content: "Hi" }],
+      stream: false,
+      max_completion_tokens: 512,
+    });
+
+    const [url, init] = calls[0]!;
+    expect(url).toBe("https://api.deepseek.com/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer sk-test");
+    expect(init.headers["X-Client"]).toBe("aicarousel");
+    expect(JSON.parse(init.body).max_tokens).toBe(512);
+    expect(result.choices[0].message.content).toBe("Hi");
+  });
+
+  test("should not send Authorization without an API key", async () => {
+    const calls = mockFetch(okResponse);
+    const client = new OpenAICompatibleClient({ name: "LM Studio", baseUrl: "http://localhost:1234/v1" });
+
+    await client.chat.completions.create({ model: "local", messages: [], stream: false });
+
+    expect(calls[0]![1].headers.Authorization).toBeUndefined();
+  });
+
+  test("should keep image URLs unless inlining is enabled", async () => {
+    const calls = mockFetch(okResponse);
+    const client = new OpenAICompatibleClient({ name: "Test", baseUrl: "http://localhost:1234/v1" });
+    const messages = [
+      { role: "user", content: [{ type: "image_url", image_url: { url: "https://example.com/cat.png" } }] },
+    ];
+
+    await client.chat.completions.create({ model: "local", messages, stream: false });
+
+    expect(JSON.parse(calls[0]![1].body).messages).toEqual(messages);
+  });
+
+  test("should name the provider in HTTP errors", async () => {
+    mockFetch({ ok: false, status: 401, text: async () => "Unauthorized", headers: new Headers() });
+    const client = new OpenAICompatibleClient({ name: "Mistral", baseUrl: "https://api.mistral.ai/v1" });
+
+    await expect(
+      client.chat.completions.create({ model: "mistral-small", messages: [], stream: false })
+    ).rejects.toThrow("Mistral API error: 401 - Unauthorized");
+  });
+});
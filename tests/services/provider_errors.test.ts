@@ -0,0 +1,122 @@
+/**
+ * Tests for services/provider_errors.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  classifyProviderError,
+  getHeader,
+  parseRetryAfter,
+  ProviderHttpError,
+} from "../../services/provider_errors";
+import { StreamTimeoutError } from "../../services/timeouts";
+import { ImageFetchError } from "../../services/content";
+
+/** Shape of a Stainless SDK (Groq, Cerebras) APIError. */
+function stainlessError(status: number, message: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+describe("provider_errors", () => {
+  describe("classifyProviderError", () => {
+    test("should classify 429 with Retry-After as rate_limit", () => {
+      const result = classifyProviderError(stainlessError(429, "Too Many Requests", { "retry-after": "12" }));
+
+      expect(result.category).toBe("rate_limit");
+      expect(result.status).toBe(429);
+      expect(result.retryAfterMs).toBe(12_000);
+    });
+
+    test("should read OpenRouter statusCode and Headers", () => {
+      const error = Object.assign(new Error("Rate limit exceeded: free-models-per-day"), {
+        statusCode: 429,
+        headers: new Headers({ "X-RateLimit-Remaining": "0" }),
+      });
+
+      const result = classifyProviderError(error);
+
+      expect(result.category).toBe("rate_limit");
+      expect(getHeader(result.headers, "x-ratelimit-remaining")).toBe("0");
+    });
+
+    test("should read Gemini RetryInfo", () => {
+      const error = Object.assign(new Error("[429 Too Many Requests] Resource has been exhausted"), {
+        status: 429,
+        errorDetails: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "27s" }],
+      });
+
+      expect(classifyProviderError(error).retryAfterMs).toBe(27_000);
+    });
+
+    test("should classify auth errors", () => {
+      expect(classifyProviderError(stainlessError(401, "Invalid API Key")).category).toBe("auth");
+      expect(classifyProviderError(stainlessError(403, "Forbidden")).category).toBe("auth");
+    });
+
+    test("should classify context length errors", () => {
+      const error = stainlessError(400, "This model's maximum context length is 8192 tokens");
+
+      expect(classifyProviderError(error).category).toBe("context_length");
+    });
+
+    test("should classify other 4xx as invalid_request", () => {
+      expect(classifyProviderError(stainlessError(400, "Bad request")).category).toBe("invalid_request");
+    });
+
+    test("should classify client image URLs that cannot be fetched as invalid_request", () => {
+      const error = new ImageFetchError("Image URL must use http or https: ftp://example.com/cat.png");
+      expect(classifyProviderError(error).category).toBe("invalid_request");
+    });
+
+    test("should classify 5xx as server", () => {
+      expect(classifyProviderError(stainlessError(503, "Service Unavailable")).category).toBe("server");
+    });
+
+    test("should classify connection failures as network", () => {
+      const error = Object.assign(new Error("Unable to connect"), { code: "ECONNREFUSED" });
+
+      expect(classifyProviderError(error).category).toBe("network");
+    });
+
+    test("should read the status from fetch-based adapters", () => {
+      const error = new ProviderHttpError("Ollama API error: 502 - Bad Gateway", 502, new Headers());
+
+      expect(classifyProviderError(error).category).toBe("server");
+      expect(classifyProviderError(new Error("Ollama API error: 429 - slow down")).status).toBe(429);
+    });
+
+    test("should classify stream timeouts", () => {
+      expect(classifyProviderError(new StreamTimeoutError("first_token", 1000)).category).toBe("timeout");
+    });
+
+    test("should fall back to unknown", () => {
+      expect(classifyProviderError(new Error("Something odd")).category).toBe("unknown");
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    test("should parse seconds", () => {
+      expect(parseRetryAfter("1.5")).toBe(1500);
+    });
+
+    test("should parse HTTP dates", () => {
+      const date = new Date(Date.now() + 60_000).toUTCString();
+      const ms = parseRetryAfter(date)!;
+
+      expect(ms).toBeGreaterThan(58_000);
+      expect(ms).toBeLessThanOrEqual(60_000);
+    });
+
+    test("should return null for missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+
+  describe("getHeader", () => {
+    test("should be case-insensitive for plain objects", () => {
+      expect(getHeader({ "Retry-After": "3" }, "retry-after")).toBe("3");
+      expect(getHeader(null, "retry-after")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for providers_config.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  validateProvidersConfig,
+  validateCustomProvider,
+  ProvidersConfigError,
+  type CustomProviderConfig,
+} from "../../services/providers_config";
+
+const deepseek: CustomProviderConfig = {
+  name: "DeepSeek",
+  baseUrl: "https://api.deepseek.com/v1",
+  apiKeyName: "DEEPSEEK_API_KEY",
+  headers: { "X-Client": "aicarousel" },
+  params: { max_completion_tokens: 8192 },
+  supportsTools: true,
+};
+
+describe("providers_config", () => {
+  describe("validateProvidersConfig", () => {
+    test("should accept valid and empty configurations", () => {
+      expect(() => validateProvidersConfig({ deepseek })).not.toThrow();
+      expect(() => validateProvidersConfig({})).not.toThrow();
+    });
+
+    test("should reject non-object config", () => {
+      expect(() => validateProvidersConfig([] as any)).toThrow(ProvidersConfigError);
+      expect(() => validateProvidersConfig(null as any)).toThrow(ProvidersConfigError);
+    });
+  });
+
+  describe("validateCustomProvider", () => {
+    test("should accept a minimal provider", () => {
+      const { name, baseUrl, apiKeyName } = deepseek;
+      expect(() => validateCustomProvider("lm-studio", { name, baseUrl, apiKeyName })).not.toThrow();
+    });
+
+    test("should reject keys that can't be used in model names", () => {
+      expect(() => validateCustomProvider("deep/seek", deepseek)).toThrow("key must be");
+      expect(() => validateCustomProvider("DeepSeek", deepseek)).toThrow("key must be");
+    });
+
+    test("should reject a missing name", () => {
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, name: " " })).toThrow('"name"');
+    });
+
+    test("should reject non-http base URLs", () => {
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, baseUrl: "api.deepseek.com" })).toThrow(
+        '"baseUrl"'
+      );
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, baseUrl: "ftp://host/v1" })).toThrow(
+        '"baseUrl"'
+      );
+    });
+
+    test("should reject invalid env var names", () => {
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, apiKeyName: "deepseek key" })).toThrow(
+        '"apiKeyName"'
+      );
+    });
+
+    test("should reject non-string header values", () => {
+      const headers = { "X-Retries": 3 } as any;
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, headers })).toThrow('"headers"');
+    });
+
+    test("should reject non-object params and non-boolean supportsTools", () => {
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, params: [] as any })).toThrow('"params"');
+      expect(() => validateCustomProvider("deepseek", { ...deepseek, supportsTools: "yes" as any })).toThrow(
+        '"supportsTools"'
+      );
+    });
+  });
+});
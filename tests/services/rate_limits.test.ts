@@ -0,0 +1,157 @@
+/**
+ * Tests for services/rate_limits.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import {
+  getQuotaSnapshot,
+  isRateLimited,
+  parseResetValue,
+  recordRateLimited,
+  recordRateLimitHeaders,
+  resetRateLimits,
+  DEFAULT_RATE_LIMIT_WAIT_MS,
+} from "../../services/rate_limits";
+import { classifyProviderError } from "../../services/provider_errors";
+import { filterAvailableProviders, resetHealth } from "../../services/health";
+import { createActiveProvider } from "../utils/mocks";
+
+const start = new Date("2026-01-01T00:00:00Z");
+
+function advance(ms: number) {
+  setSystemTime(new Date(Date.now() + ms));
+}
+
+function rateLimitError(headers: Record<string, string> = {}) {
+  return classifyProviderError(Object.assign(new Error("Too Many Requests"), { status: 429, headers }));
+}
+
+describe("rate_limits", () => {
+  beforeEach(() => {
+    resetRateLimits();
+    resetHealth();
+    setSystemTime(start);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  describe("parseResetValue", () => {
+    test("should parse Groq durations", () => {
+      expect(parseResetValue("2m59.56s")).toBeCloseTo(179_560);
+      expect(parseResetValue("7.66s")).toBeCloseTo(7660);
+      expect(parseResetValue("1h2m")).toBe(3_720_000);
+      expect(parseResetValue("120ms")).toBe(120);
+    });
+
+    test("should parse Cerebras seconds", () => {
+      expect(parseResetValue("33011.5")).toBe(33_011_500);
+    });
+
+    test("should parse OpenRouter epoch milliseconds", () => {
+      expect(parseResetValue(String(start.getTime() + 45_000))).toBe(45_000);
+    });
+
+    test("should reject unknown formats", () => {
+      expect(parseResetValue("tomorrow")).toBeNull();
+      expect(parseResetValue("5s later")).toBeNull();
+    });
+  });
+
+  describe("recordRateLimited", () => {
+    test("should block until Retry-After", () => {
+      recordRateLimited("groq", "model-a", rateLimitError({ "retry-after": "10" }));
+
+      expect(isRateLimited("groq", "model-a")).toBe(true);
+      expect(isRateLimited("groq", "model-b")).toBe(false);
+      advance(10_000);
+      expect(isRateLimited("groq", "model-a")).toBe(false);
+    });
+
+    test("should block until the exhausted window resets", () => {
+      recordRateLimited(
+        "groq",
+        "model-a",
+        rateLimitError({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "20s" })
+      );
+
+      advance(19_000);
+      expect(isRateLimited("groq", "model-a")).toBe(true);
+      advance(1000);
+      expect(isRateLimited("groq", "model-a")).toBe(false);
+    });
+
+    test("should use the default wait without hints", () => {
+      recordRateLimited("groq", "model-a", rateLimitError());
+
+      advance(DEFAULT_RATE_LIMIT_WAIT_MS - 1);
+      expect(isRateLimited("groq", "model-a")).toBe(true);
+      advance(1);
+      expect(isRateLimited("groq", "model-a")).toBe(false);
+    });
+
+    test("should keep rate limited models out of rotation", () => {
+      const provider = createActiveProvider("groq", "Groq", ["model-a", "model-b"], "model-a", true);
+      recordRateLimited("groq", "model-a", rateLimitError());
+
+      const [filtered] = filterAvailableProviders([provider]);
+
+      expect(filtered?.models).toEqual(["model-b"]);
+    });
+  });
+
+  describe("recordRateLimitHeaders", () => {
+    test("should block when remaining requests reach zero", () => {
+      recordRateLimitHeaders("cerebras", "model-a", {
+        "x-ratelimit-remaining-requests-day": "0",
+        "x-ratelimit-reset-requests-day": "30",
+      });
+
+      expect(isRateLimited("cerebras", "model-a")).toBe(true);
+    });
+
+    test("should track remaining quota estimates", () => {
+      const provider = createActiveProvider("groq", "Groq", ["model-a"], "model-a");
+      recordRateLimitHeaders(
+        "groq",
+        "model-a",
+        new Headers({
+          "x-ratelimit-limit-requests": "14400",
+          "x-ratelimit-remaining-requests": "14370",
+          "x-ratelimit-reset-requests": "2m59.56s",
+          "x-ratelimit-limit-tokens": "6000",
+          "x-ratelimit-remaining-tokens": "5800",
+          "x-ratelimit-reset-tokens": "2s",
+        })
+      );
+
+      const [quota] = getQuotaSnapshot([provider]);
+
+      expect(quota?.rateLimited).toBe(false);
+      expect(quota?.requests).toMatchObject({ limit: 14400, remaining: 14370 });
+      expect(quota?.tokens).toEqual({ limit: 6000, remaining: 5800, resetInMs: 2000 });
+    });
+
+    test("should assume the limit is restored after the window resets", () => {
+      const provider = createActiveProvider("openrouter", "OpenRouter", ["model-a"], "model-a");
+      recordRateLimitHeaders("openrouter", "model-a", {
+        "X-RateLimit-Limit": "20",
+        "X-RateLimit-Remaining": "3",
+        "X-RateLimit-Reset": String(start.getTime() + 60_000),
+      });
+
+      advance(60_000);
+      const [quota] = getQuotaSnapshot([provider]);
+
+      expect(quota?.requests).toEqual({ limit: 20, remaining: 20, resetInMs: null });
+    });
+
+    test("should ignore responses without rate-limit headers", () => {
+      const provider = createActiveProvider("ollama", "Ollama", ["model-a"], "model-a");
+      recordRateLimitHeaders("ollama", "model-a", new Headers({ "content-type": "application/json" }));
+
+      expect(getQuotaSnapshot([provider])[0]?.updatedAt).toBeNull();
+    });
+  });
+});
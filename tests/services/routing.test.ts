@@ -0,0 +1,109 @@
+/**
+ * Tests for services/routing.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  UnknownStrategyError,
+  advanceRoundRobin,
+  getDefaultRoutingStrategy,
+  orderProviders,
+  recordLatency,
+  resetRouting,
+  resolveRoutingStrategy,
+} from "../../services/routing";
+import { recordRateLimitHeaders, resetRateLimits } from "../../services/rate_limits";
+import { createActiveProvider } from "../utils/mocks";
+
+const groq = createActiveProvider("groq", "Groq", ["llama"], "llama", true, 1);
+const cerebras = createActiveProvider("cerebras", "Cerebras", ["qwen"], "qwen", true, 2);
+const gemini = createActiveProvider("gemini", "Gemini", ["flash"], "flash", true, 3);
+const providers = [groq, cerebras, gemini];
+
+function keys(ordered: { key: string }[]): string[] {
+  return ordered.map((provider) => provider.key);
+}
+
+describe("routing", () => {
+  let originalStrategy: string | undefined;
+
+  beforeEach(() => {
+    originalStrategy = process.env.ROUTING_STRATEGY;
+    delete process.env.ROUTING_STRATEGY;
+    resetRouting();
+    resetRateLimits();
+  });
+
+  afterEach(() => {
+    if (originalStrategy === undefined) {
+      delete process.env.ROUTING_STRATEGY;
+    } else {
+      process.env.ROUTING_STRATEGY = originalStrategy;
+    }
+  });
+
+  describe("resolveRoutingStrategy", () => {
+    test("should prefer the header, then the key, then the env default", () => {
+      process.env.ROUTING_STRATEGY = "quota";
+
+      expect(resolveRoutingStrategy("Latency", "priority")).toBe("latency");
+      expect(resolveRoutingStrategy(null, "priority")).toBe("priority");
+      expect(resolveRoutingStrategy("", null)).toBe("quota");
+    });
+
+    test("should throw for an unknown header value", () => {
+      expect(() => resolveRoutingStrategy("fastest", null)).toThrow(UnknownStrategyError);
+    });
+
+    test("should fall back to round-robin for an invalid env value", () => {
+      expect(getDefaultRoutingStrategy()).toBe("round-robin");
+
+      process.env.ROUTING_STRATEGY = "bogus";
+      expect(getDefaultRoutingStrategy()).toBe("round-robin");
+    });
+  });
+
+  describe("orderProviders", () => {
+    test("round-robin should start after the last provider served", () => {
+      expect(keys(orderProviders(providers, "round-robin"))).toEqual(["groq", "cerebras", "gemini"]);
+
+      advanceRoundRobin(providers, cerebras);
+      expect(keys(orderProviders(providers, "round-robin"))).toEqual(["gemini", "groq", "cerebras"]);
+    });
+
+    test("priority should keep the configured order", () => {
+      advanceRoundRobin(providers, groq);
+      expect(keys(orderProviders(providers, "priority"))).toEqual(["groq", "cerebras", "gemini"]);
+    });
+
+    test("weighted should draw in proportion to weight and put weight 0 last", () => {
+      const weighted = [{ ...groq, weight: 0 }, { ...cerebras, weight: 1 }, { ...gemini, weight: 3 }];
+
+      // 0.2 * 4 falls in cerebras' share, 0.8 * 4 in gemini's
+      expect(keys(orderProviders(weighted, "weighted", () => 0.2))).toEqual(["cerebras", "gemini", "groq"]);
+      expect(keys(orderProviders(weighted, "weighted", () => 0.8))).toEqual(["gemini", "cerebras", "groq"]);
+    });
+
+    test("latency should put unmeasured providers first, then the fastest", () => {
+      recordLatency("groq", 900);
+      recordLatency("gemini", 200);
+
+      expect(keys(orderProviders(providers, "latency"))).toEqual(["cerebras", "gemini", "groq"]);
+    });
+
+    test("quota should put the provider with the most quota left first", () => {
+      recordRateLimitHeaders("groq", "llama", {
+        "x-ratelimit-limit-requests": "100",
+        "x-ratelimit-remaining-requests": "5",
+        "x-ratelimit-reset-requests": "60s",
+      });
+      recordRateLimitHeaders("cerebras", "qwen", {
+        "x-ratelimit-limit-requests": "100",
+        "x-ratelimit-remaining-requests": "50",
+        "x-ratelimit-reset-requests": "60s",
+      });
+
+      expect(keys(orderProviders(providers, "quota"))).toEqual(["gemini", "cerebras", "groq"]);
+    });
+  });
+});
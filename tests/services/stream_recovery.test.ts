@@ -0,0 +1,185 @@
+/**
+ * Tests for services/stream_recovery.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  buildContinuationMessages,
+  getStreamRecoveryMode,
+  withStreamRecovery,
+  withErrorEvent,
+  StreamInterruptedError,
+  CONTINUATION_PROMPT,
+  type ResumedStream,
+} from "../../services/stream_recovery";
+import { RequestCancelledError } from "../../services/cancellation";
+import { sampleMessages, textEvent } from "../utils/mocks";
+import type { ChatStreamEvent } from "../../defaults/types";
+
+// Strings stand for text events
+type Chunk = string | ChatStreamEvent;
+
+function toEvent(chunk: Chunk): ChatStreamEvent {
+  return typeof chunk === "string" ? textEvent(chunk) : chunk;
+}
+
+async function* failAfter(chunks: Chunk[], error = new Error("connection reset")) {
+  for (const chunk of chunks) {
+    yield toEvent(chunk);
+  }
+  throw error;
+}
+
+async function* succeed(chunks: Chunk[]) {
+  for (const chunk of chunks) {
+    yield toEvent(chunk);
+  }
+}
+
+function resumed(stream: AsyncIterable<ChatStreamEvent>, serviceName = "Next"): ResumedStream {
+  return { stream, serviceName, model: "next-model" };
+}
+
+async function collect(stream: AsyncIterable<ChatStreamEvent>): Promise<Chunk[]> {
+  const chunks: Chunk[] = [];
+  for await (const event of stream) {
+    chunks.push(event.type === "text" ? event.text : event);
+  }
+  return chunks;
+}
+
+describe("stream_recovery", () => {
+  describe("getStreamRecoveryMode", () => {
+    test("should default to continue", () => {
+      const previous = process.env.STREAM_RECOVERY;
+      delete process.env.STREAM_RECOVERY;
+      expect(getStreamRecoveryMode()).toBe("continue");
+
+      process.env.STREAM_RECOVERY = "OFF";
+      expect(getStreamRecoveryMode()).toBe("off");
+
+      if (previous === undefined) delete process.env.STREAM_RECOVERY;
+      else process.env.STREAM_RECOVERY = previous;
+    });
+  });
+
+  describe("buildContinuationMessages", () => {
+    test("should append the partial answer and a continue instruction", () => {
+      const messages = buildContinuationMessages(sampleMessages, "The answer is");
+
+      expect(messages.slice(0, sampleMessages.length)).toEqual(sampleMessages);
+      expect(messages.slice(sampleMessages.length)).toEqual([
+        { role: "assistant", content: "The answer is" },
+        { role: "user", content: CONTINUATION_PROMPT },
+      ]);
+    });
+
+    test("should retry the original conversation without partial text", () => {
+      expect(buildContinuationMessages(sampleMessages, "")).toBe(sampleMessages);
+    });
+  });
+
+  describe("withStreamRecovery", () => {
+    test("should pass through streams that complete", async () => {
+      const stream = withStreamRecovery(resumed(succeed(["Hello", " world"])), async () => null, "continue");
+
+      expect(await collect(stream)).toEqual(["Hello", " world"]);
+    });
+
+    test("should continue on the next provider with the partial text", async () => {
+      const partials: string[] = [];
+      const stream = withStreamRecovery(
+        resumed(failAfter(["The answer", " is"]), "First"),
+        async (partialText) => {
+          partials.push(partialText);
+          return resumed(succeed([" 42."]));
+        },
+        "continue"
+      );
+
+      expect(await collect(stream)).toEqual(["The answer", " is", " 42."]);
+      expect(partials).toEqual(["The answer is"]);
+    });
+
+    test("should keep resuming while providers fail", async () => {
+      const partials: string[] = [];
+      const continuations = [failAfter([" b"]), succeed([" c"])];
+      const stream = withStreamRecovery(
+        resumed(failAfter(["a"])),
+        async (partialText) => {
+          partials.push(partialText);
+          return resumed(continuations.shift()!);
+        },
+        "continue"
+      );
+
+      expect(await collect(stream)).toEqual(["a", " b", " c"]);
+      expect(partials).toEqual(["a", "a b"]);
+    });
+
+    test("should throw when no provider can continue", async () => {
+      const stream = withStreamRecovery(resumed(failAfter(["a"])), async () => null, "continue");
+
+      await expect(collect(stream)).rejects.toBeInstanceOf(StreamInterruptedError);
+    });
+
+    test("should not resume when recovery is off", async () => {
+      let resumeCalls = 0;
+      const stream = withStreamRecovery(
+        resumed(failAfter(["a"])),
+        async () => {
+          resumeCalls++;
+          return resumed(succeed(["b"]));
+        },
+        "off"
+      );
+
+      await expect(collect(stream)).rejects.toThrow("stream was interrupted");
+      expect(resumeCalls).toBe(0);
+    });
+
+    test("should not resume after a tool call delta", async () => {
+      let resumeCalls = 0;
+      const stream = withStreamRecovery(
+        resumed(failAfter([{ type: "tool_call", index: 0, id: "call_1", name: "read", arguments: "{" }])),
+        async () => {
+          resumeCalls++;
+          return resumed(succeed(["b"]));
+        },
+        "continue"
+      );
+
+      await expect(collect(stream)).rejects.toThrow("during a tool call");
+      expect(resumeCalls).toBe(0);
+    });
+
+    test("should not resume when the client cancelled", async () => {
+      let resumeCalls = 0;
+      const stream = withStreamRecovery(
+        resumed(failAfter(["a"], new RequestCancelledError())),
+        async () => {
+          resumeCalls++;
+          return resumed(succeed(["b"]));
+        },
+        "continue"
+      );
+
+      await expect(collect(stream)).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(resumeCalls).toBe(0);
+    });
+  });
+
+  describe("withErrorEvent", () => {
+    test("should turn a failure into a final error event", async () => {
+      const stream = withErrorEvent(failAfter(["a"], new StreamInterruptedError("no provider left")));
+
+      expect(await collect(stream)).toEqual(["a", { type: "error", message: "no provider left" }]);
+    });
+
+    test("should still throw client cancellations", async () => {
+      const stream = withErrorEvent(failAfter(["a"], new RequestCancelledError()));
+
+      await expect(collect(stream)).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+  });
+});
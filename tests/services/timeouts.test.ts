@@ -0,0 +1,154 @@
+/**
+ * Tests for services/timeouts.ts and the timeouts in StandardAIController
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getStreamTimeouts,
+  withTimeout,
+  StreamTimeoutError,
+  DEFAULT_CHUNK_TIMEOUT_MS,
+  DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+} from "../../services/timeouts";
+import { StandardAIController } from "../../services/ai_controller";
+import { sampleMessages, collectStream } from "../utils/mocks";
+
+function chunk(content: string) {
+  return { choices: [{ delta: { content } }] };
+}
+
+/**
+ * Fake adapter whose stream runs `script` and records the signal it got.
+ */
+function createScriptedClient(script: (signal: AbortSignal) => AsyncIterable<any>) {
+  const client = {
+    signal: null as AbortSignal | null,
+    chat: {
+      completions: {
+        create: async (_params: any, options: { signal: AbortSignal }) => {
+          client.signal = options.signal;
+          return script(options.signal);
+        },
+      },
+    },
+  };
+  return client;
+}
+
+function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+}
+
+function createController(client: any) {
+  return new StandardAIController("Test", "test", client, { model: "test-model", stream: true });
+}
+
+describe("timeouts", () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.FIRST_TOKEN_TIMEOUT_MS;
+    delete process.env.CHUNK_TIMEOUT_MS;
+  });
+
+  afterEach(() => {
+    process.env.FIRST_TOKEN_TIMEOUT_MS = saved.FIRST_TOKEN_TIMEOUT_MS;
+    process.env.CHUNK_TIMEOUT_MS = saved.CHUNK_TIMEOUT_MS;
+    if (saved.FIRST_TOKEN_TIMEOUT_MS === undefined) delete process.env.FIRST_TOKEN_TIMEOUT_MS;
+    if (saved.CHUNK_TIMEOUT_MS === undefined) delete process.env.CHUNK_TIMEOUT_MS;
+  });
+
+  describe("getStreamTimeouts", () => {
+    test("should use defaults when unset or invalid", () => {
+      process.env.CHUNK_TIMEOUT_MS = "soon";
+
+      expect(getStreamTimeouts()).toEqual({
+        firstTokenMs: DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+        chunkMs: DEFAULT_CHUNK_TIMEOUT_MS,
+      });
+    });
+
+    test("should read values and allow 0 to disable", () => {
+      process.env.FIRST_TOKEN_TIMEOUT_MS = "5000";
+      process.env.CHUNK_TIMEOUT_MS = "0";
+
+      expect(getStreamTimeouts()).toEqual({ firstTokenMs: 5000, chunkMs: 0 });
+    });
+  });
+
+  describe("withTimeout", () => {
+    test("should resolve when the promise settles in time", async () => {
+      expect(await withTimeout(Promise.resolve("ok"), 50, () => new Error("late"))).toBe("ok");
+    });
+
+    test("should reject when the promise takes too long", async () => {
+      const never = new Promise(() => {});
+
+      await expect(withTimeout(never, 10, () => new Error("late"))).rejects.toThrow("late");
+    });
+
+    test("should not time out when disabled", async () => {
+      const slow = new Promise((resolve) => setTimeout(() => resolve("ok"), 20));
+
+      expect(await withTimeout(slow, 0, () => new Error("late"))).toBe("ok");
+    });
+  });
+
+  describe("StandardAIController", () => {
+    test("should abort the upstream call when no first token arrives", async () => {
+      process.env.FIRST_TOKEN_TIMEOUT_MS = "20";
+      const client = createScriptedClient(async function* (signal) {
+        yield chunk(""); // role-only chunk does not count as a token
+        await untilAborted(signal);
+      });
+
+      const error = await collectStream(createController(client).chat(sampleMessages)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StreamTimeoutError);
+      expect(error.phase).toBe("first_token");
+      expect(client.signal?.aborted).toBe(true);
+    });
+
+    test("should abort when the stream stalls between chunks", async () => {
+      process.env.CHUNK_TIMEOUT_MS = "20";
+      const client = createScriptedClient(async function* (signal) {
+        yield chunk("Hello");
+        await untilAborted(signal);
+      });
+
+      const chunks: string[] = [];
+      const error = await (async () => {
+        for await (const c of createController(client).chat(sampleMessages)) {
+          if (c.type === "text") chunks.push(c.text);
+        }
+      })().catch((e) => e);
+
+      expect(chunks).toEqual(["Hello"]);
+      expect(error).toBeInstanceOf(StreamTimeoutError);
+      expect(error.phase).toBe("chunk");
+      expect(client.signal?.aborted).toBe(true);
+    });
+
+    test("should abort the upstream call when the consumer stops early", async () => {
+      const client = createScriptedClient(async function* () {
+        yield chunk("a");
+        yield chunk("b");
+      });
+
+      for await (const _ of createController(client).chat(sampleMessages)) {
+        break;
+      }
+
+      expect(client.signal?.aborted).toBe(true);
+    });
+
+    test("should not abort completed streams", async () => {
+      const client = createScriptedClient(async function* () {
+        yield chunk("done");
+      });
+
+      expect(await collectStream(createController(client).chat(sampleMessages))).toBe("done");
+      expect(client.signal?.aborted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for services/tokenizer.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  countMessageTokens,
+  countRequestTokens,
+  countTokens,
+  countToolTokens,
+  createHeuristicTokenizer,
+  defaultTokenizer,
+  getTokenizer,
+  registerTokenizer,
+  MESSAGE_OVERHEAD_TOKENS,
+  REPLY_OVERHEAD_TOKENS,
+} from "../../services/tokenizer";
+import type { ChatMessage, ToolDefinition } from "../../defaults/types";
+
+describe("tokenizer", () => {
+  describe("heuristic tokenizer", () => {
+    test("should count short words as one token each", () => {
+      expect(countTokens("the cat sat on the mat")).toBe(6);
+    });
+
+    test("should split long words, numbers and symbols", () => {
+      expect(countTokens("internationalization")).toBe(5);
+      expect(countTokens("1234567")).toBe(3);
+      expect(countTokens("a.b")).toBe(3);
+    });
+
+    test("should count CJK characters one by one", () => {
+      expect(countTokens("你好世界")).toBe(4);
+    });
+
+    test("should count newlines and indentation but not single spaces", () => {
+      expect(countTokens("if x:\n    return")).toBe(5);
+    });
+
+    test("should return 0 for empty text", () => {
+      expect(countTokens("")).toBe(0);
+    });
+  });
+
+  describe("getTokenizer", () => {
+    test("should pick the tokenizer by model family", () => {
+      expect(getTokenizer("llama-3.3-70b-versatile").name).toBe("llama3");
+      expect(getTokenizer("groq/llama-3.1-8b-instant").name).toBe("llama3");
+      expect(getTokenizer("gemini-2.5-flash").name).toBe("gemma");
+      expect(getTokenizer("openai/gpt-oss-120b").name).toBe("openai");
+    });
+
+    test("should fall back to the default tokenizer", () => {
+      expect(getTokenizer("claude-sonnet-4")).toBe(defaultTokenizer);
+      expect(getTokenizer(undefined)).toBe(defaultTokenizer);
+    });
+
+    test("should let registered tokenizers take precedence", () => {
+      const custom = { name: "custom-test", count: (text: string) => text.length };
+      registerTokenizer(/^custom-test-model$/, custom);
+
+      expect(getTokenizer("custom-test-model")).toBe(custom);
+      expect(countTokens("abcd", "custom-test-model")).toBe(4);
+    });
+  });
+
+  describe("request counting", () => {
+    const tokenizer = createHeuristicTokenizer("test", 4);
+
+    test("should add per-message and reply overhead", () => {
+      const messages: ChatMessage[] = [
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hello" },
+      ];
+
+      expect(countMessageTokens(messages)).toBe(
+        REPLY_OVERHEAD_TOKENS + 2 * MESSAGE_OVERHEAD_TOKENS + tokenizer.count("Be brief") + tokenizer.count("Hello")
+      );
+    });
+
+    test("should include tool calls and tool definitions", () => {
+      const messages: ChatMessage[] = [
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "read", arguments: '{"path":"a.ts"}' } }],
+        },
+        { role: "tool", content: "file contents", tool_call_id: "call_1" },
+      ];
+      const tools: ToolDefinition[] = [
+        { type: "function", function: { name: "read", description: "Read a file", parameters: { type: "object" } } },
+      ];
+
+      const withoutCalls = countMessageTokens(messages.map(({ tool_calls, ...m }) => m));
+      expect(countMessageTokens(messages)).toBeGreaterThan(withoutCalls);
+      expect(countToolTokens(tools)).toBeGreaterThan(0);
+      expect(countRequestTokens(messages, tools)).toBe(countMessageTokens(messages) + countToolTokens(tools));
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Test mocks and utilities for AICarousel tests.
  */
 
-import type { AIService, AIServiceWithModel, ActiveProvider, ChatMessage } from "../../defaults/types";
+import type { AIService, AIServiceWithModel, ActiveProvider, ChatMessage, ChatStreamEvent } from "../../defaults/types";
 import type { ModelsConfig, ProviderModelConfig } from "../../services/models_config";
 
 /**
@@ -15,8 +15,8 @@ export function createMockService(
   return {
     name,
     async *chat(_messages: ChatMessage[]) {
-      for (const chunk of responses) {
-        yield chunk;
+      for (const text of responses) {
+        yield textEvent(text);
       }
     },
   };
@@ -69,18 +69,27 @@ export const sampleMessages: ChatMessage[] = [
 export const testApiKey = "sk-test-1234567890abcdef";
 
 /**
- * Collect all chunks from an async iterable into a single string.
+ * Collect all text chunks from an async iterable into a single string.
  */
 export async function collectStream(
-  stream: AsyncIterable<string>
+  stream: AsyncIterable<ChatStreamEvent>
 ): Promise<string> {
   let result = "";
-  for await (const chunk of stream) {
-    result += chunk;
+  for await (const event of stream) {
+    if (event.type === "text") {
+      result += event.text;
+    }
   }
   return result;
 }
 
+/**
+ * Create a text event.
+ */
+export function textEvent(text: string): ChatStreamEvent {
+  return { type: "text", text };
+}
+
 /**
  * Create a mock request with JSON body.
  */
@@ -128,8 +137,8 @@ export function createMockServiceWithModel(
     providerKey,
     model,
     async *chat(_messages: ChatMessage[]) {
-      for (const chunk of responses) {
-        yield chunk;
+      for (const text of responses) {
+        yield textEvent(text);
       }
     },
   };